@@ -1,245 +1,576 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Patient, Message, RiskLevel, User, VitalSign, WearableDay } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Patient, Message, User, FoodEntry, InsightRecord, DoseStatus, CarePlan, VitalSign } from './types';
 import { PatientDashboard } from './components/PatientDashboard';
 import { DoctorDashboard } from './components/DoctorDashboard';
 import { AuthScreen } from './components/AuthScreen';
-import { analyzePatientInput } from './services/geminiService';
+import { analyzeMealPhoto, transcribeVoiceNote } from './services/geminiService';
+import { attachmentInput, triagePatientInput, voiceNoteInput } from './services/triagePipeline';
+import { loadAttachment } from './services/attachmentService';
+import { onSignedOut, restoreSession, signOut } from './services/authService';
 import { Icons } from './components/Icons';
-import { saveMessage, saveVitals, subscribeToMessages } from './services/supabaseService';
-
-// --- ROBUST MOCK DATA ---
-const MOCK_WEARABLE: WearableDay[] = [
-  { day: 'Mon', steps: 4200, sleepHours: 6.2 },
-  { day: 'Tue', steps: 5800, sleepHours: 7.1 },
-  { day: 'Wed', steps: 3100, sleepHours: 5.8 },
-  { day: 'Thu', steps: 7200, sleepHours: 6.5 },
-  { day: 'Fri', steps: 8400, sleepHours: 8.0 },
-  { day: 'Sat', steps: 5100, sleepHours: 7.5 },
-  { day: 'Sun', steps: 2900, sleepHours: 9.2 },
-];
-
-const MOCK_PATIENTS: Patient[] = [
-  {
-    id: 'P-1024',
-    name: 'Sarah Devi',
-    age: 58,
-    assignedDoctorId: 'D-001',
-    condition: ['Type 2 Diabetes', 'Hypertension'],
-    lastInteraction: new Date().toISOString(),
-    riskStatus: RiskLevel.MEDIUM,
-    isFlagged: false,
-    vitalsHistory: [
-      { type: 'GLUCOSE', value: 140, unit: 'mg/dL', timestamp: '2023-10-22T08:00:00Z' },
-      { type: 'GLUCOSE', value: 165, unit: 'mg/dL', timestamp: '2023-10-23T08:00:00Z' },
-      { type: 'GLUCOSE', value: 155, unit: 'mg/dL', timestamp: '2023-10-24T08:00:00Z' },
-      { type: 'BP_SYSTOLIC', value: 135, unit: 'mmHg', timestamp: '2023-10-24T08:00:00Z' },
-      { type: 'BP_DIASTOLIC', value: 88, unit: 'mmHg', timestamp: '2023-10-24T08:00:00Z' },
-      { type: 'URINE_OUTPUT', value: 1400, unit: 'ml', timestamp: '2023-10-24T08:00:00Z' },
-      { type: 'HEART_RATE', value: 72, unit: 'bpm', timestamp: '2023-10-24T08:00:00Z' },
-      { type: 'TEMP', value: 98.6, unit: '°F', timestamp: '2023-10-24T08:00:00Z' },
-    ],
-    wearableHistory: MOCK_WEARABLE,
-    foodLogs: [
-      {
-        id: 'f1',
-        imageUrl: 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=400',
-        timestamp: new Date().toISOString(),
-        analysis: { mealType: 'Lunch', caloriesEstimate: 420, carbs: '45g', protein: '22g', flag: 'Balanced' }
-      }
-    ],
-    messages: [
-      { id: 'm1', sender: 'SYSTEM', type: 'TEXT', content: 'Welcome to PAJR. Please share your readings via WhatsApp or here.', timestamp: new Date(Date.now() - 1000000).toISOString() }
-    ],
-    latestInsight: {
-        summary: "Glucose trending upwards over last 48 hours. Spiked to 165 fasting. Likely dietary slip or medication gap.",
-        riskLevel: RiskLevel.MEDIUM,
-        confidenceScore: 0.88,
-        themes: ["Glycemic Instability", "High Carb Pattern"],
-        reasoning: ["Fasting glucose > 150mg/dL", "Steps decreased by 40% on Wednesday"],
-        missingData: ["Latest HbA1c", "Evening BP readings"],
-        clinicalActionSuggestion: "Counsel patient on carbohydrate intake. Ask for medication adherence check."
-    }
-  },
-  {
-    id: 'P-5050',
-    name: 'Anil Gupta',
-    age: 62,
-    assignedDoctorId: 'D-001',
-    condition: ['Cardiac Follow-up'],
-    lastInteraction: new Date().toISOString(),
-    riskStatus: RiskLevel.CRITICAL,
-    isFlagged: true,
-    vitalsHistory: [
-      { type: 'BP_SYSTOLIC', value: 168, unit: 'mmHg', timestamp: new Date().toISOString() },
-      { type: 'BP_DIASTOLIC', value: 95, unit: 'mmHg', timestamp: new Date().toISOString() },
-      { type: 'HEART_RATE', value: 98, unit: 'bpm', timestamp: new Date().toISOString() },
-    ],
-    wearableHistory: MOCK_WEARABLE,
-    foodLogs: [],
-    messages: [
-      { id: 'crit1', sender: 'PATIENT', type: 'TEXT', content: 'Feeling slightly dizzy since morning.', timestamp: new Date().toISOString() }
-    ],
-    latestInsight: {
-        summary: "Patient reporting dizziness accompanied by BP spike (168/95). Immediate clinician review recommended.",
-        riskLevel: RiskLevel.CRITICAL,
-        confidenceScore: 0.95,
-        themes: ["Hypertensive Crisis", "Symptomatic"],
-        reasoning: ["BP systolic > 160", "New-onset dizziness reported via text"],
-        missingData: [],
-        clinicalActionSuggestion: "Immediate call to verify symptoms. Instruct to take prescribed emergency meds if available."
-    }
-  }
-];
+import { claimFlagEscalation, fetchDoctorPatients, fetchInsights, fetchPatient, markMessagesRead, saveCarePlan, saveConditions, saveDose, saveFlag, saveFlagEscalations, saveFoodLog, saveInsight, saveMedication, saveMessageTranslation, savePreferredLanguage, saveReplyDraft, saveWearableDays, subscribeToPanel, uploadMedia, isSupabaseConfigured } from './services/supabaseService';
+import { detectLanguage, isEnglish } from './services/languageService';
+import { DraftReview, applyDraftReview, createReplyDraft, isPendingReview, reviewReason, wasEdited } from './services/replyPolicyService';
+import { applyPanelEvent } from './services/panelSync';
+import { answeredMessages, markRead, unreadMessages } from './services/receiptService';
+import { updateCarePlan } from './services/carePlanService';
+import { MedicationInput, createMedication, recordDose, stopMedication, upsertDose } from './services/medicationService';
+import { WearableImport, mergeWearableDays, newDailyVitals } from './services/wearableImportService';
+import { enqueueMessage, enqueueVitals, mergePendingMessages, newMessageId, retryMessage, startOutbox, subscribeToOutbox, updateQueuedMessage } from './services/outboxService';
+import { isDemoMode } from './services/demoMode';
+import { MOCK_PATIENTS } from './data/mockPatients';
+import { DEFAULT_ESCALATION_CONFIG, FlagAction, applyFlagAction, checkEscalation, escalationClaimId, isFlagActive } from './services/flagService';
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [patients, setPatients] = useState<Patient[]>(MOCK_PATIENTS);
+  const [patients, setPatients] = useState<Patient[]>(isDemoMode ? MOCK_PATIENTS : []);
+  // Starts as 'loading' outside demo mode so the dashboard never renders before the first fetch
+  const [loadState, setLoadState] = useState<'idle' | 'loading' | 'error'>(isDemoMode ? 'idle' : 'loading');
+  const [reloadKey, setReloadKey] = useState(0);
   const [activePatientId, setActivePatientId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const patientsRef = useRef(patients);
 
-  // Sync with Supabase (simplified real-time emulation)
-useEffect(() => {
-  if (!activePatientId) return;
-
-  const sub = subscribeToMessages(activePatientId, (payload) => {
-    if (!payload || !payload.new) return;
+  useEffect(() => {
+    patientsRef.current = patients;
+  }, [patients]);
 
-    const newMsg = payload.new as Message;
+  // Escalation timer: re-surface flags that stay unacknowledged past their SLA.
+  // Every open doctor tab runs it, so each missed SLA is claimed before it is saved.
+  useEffect(() => {
+    if (currentUser?.role !== 'DOCTOR') return;
 
-    setPatients(prev =>
-      prev.map(p => {
-        if (p.id !== activePatientId) return p;
+    const check = () => {
+      const escalated = patientsRef.current
+        .filter(p => p.assignedDoctorId === currentUser.id && p.activeFlag)
+        .map(p => ({ patientId: p.id, claimId: escalationClaimId(p.activeFlag!), flag: checkEscalation(p.activeFlag!, DEFAULT_ESCALATION_CONFIG) }))
+        .filter((e): e is { patientId: string; claimId: string; flag: NonNullable<typeof e.flag> } => !!e.flag);
+      if (escalated.length === 0) return;
 
-        const messages = p.messages ?? [];
+      setPatients(prev => prev.map(p => {
+        const match = escalated.find(e => e.patientId === p.id);
+        return match ? { ...p, activeFlag: match.flag } : p;
+      }));
+      escalated.forEach(async e => {
+        if (await claimFlagEscalation(e.claimId, e.flag.id)) await saveFlagEscalations(e.flag.id, e.flag.escalations);
+      });
+    };
 
-        if (messages.some(m => m.id === newMsg.id)) return p;
+    check();
+    const timer = setInterval(check, DEFAULT_ESCALATION_CONFIG.checkIntervalMs);
+    return () => clearInterval(timer);
+  }, [currentUser]);
 
+  // Outbox: retry queued writes and mark optimistic messages sent (ids are client-generated, so they already match)
+  useEffect(() => {
+    const stop = startOutbox();
+    const sub = subscribeToOutbox(event => {
+      setPatients(prev => prev.map(p => {
+        if (p.id !== event.patientId) return p;
+        if (event.type === 'MESSAGE_FAILED') {
+          return { ...p, messages: p.messages.map(m => m.id === event.localId ? { ...m, syncStatus: 'FAILED' } : m) };
+        }
         return {
           ...p,
-          messages: [...messages, newMsg],
+          messages: p.messages.map(m => m.id === event.localId ? { ...m, syncStatus: 'SENT' as const, deliveredAt: event.message.deliveredAt } : m)
         };
-      })
-    );
-  });
+      }));
+    });
 
-  return () => {
-    sub?.unsubscribe?.();
-  };
-}, [activePatientId]);
+    return () => {
+      sub.unsubscribe();
+      stop();
+    };
+  }, []);
 
+  // Realtime sync covers every patient the user can see, not just the open one
+  const panelKey = useMemo(() => {
+    if (!currentUser) return '';
+    if (currentUser.role === 'PATIENT') return currentUser.id;
+    return patients.filter(p => p.assignedDoctorId === currentUser.id).map(p => p.id).sort().join(',');
+  }, [currentUser, patients]);
 
+  useEffect(() => {
+    if (!panelKey) return;
 
-  const handleLogin = (role: 'PATIENT' | 'DOCTOR', phoneNumber: string) => {
-    setCurrentUser({
-      id: role === 'PATIENT' ? 'P-1024' : 'D-001',
-      name: role === 'PATIENT' ? 'Sarah Devi' : 'Dr. Arun Verma',
-      role: role,
-      phoneNumber: phoneNumber
+    const sub = subscribeToPanel(panelKey.split(','), event => {
+      setPatients(prev => prev.map(p => applyPanelEvent(p, event)));
     });
-    if (role === 'PATIENT') setActivePatientId('P-1024');
+    return () => sub.unsubscribe();
+  }, [panelKey]);
+
+  // Load the signed-in user's patients (demo mode keeps the bundled dataset)
+  useEffect(() => {
+    if (!currentUser || isDemoMode) return;
+    let cancelled = false;
+
+    setLoadState('loading');
+    const request = currentUser.role === 'DOCTOR'
+      ? fetchDoctorPatients(currentUser.id)
+      : fetchPatient(currentUser.id).then(p => p ? [p] : null);
+
+    request.then(loaded => {
+      if (cancelled) return;
+      if (!loaded) {
+        setLoadState('error');
+        return;
+      }
+      setPatients(loaded.map(mergePendingMessages));
+      setLoadState('idle');
+    });
+
+    return () => { cancelled = true; };
+  }, [currentUser, reloadKey]);
+
+  // Load persisted insight history when a patient is opened
+  useEffect(() => {
+    if (!activePatientId) return;
+    let cancelled = false;
+
+    fetchInsights(activePatientId).then(records => {
+      if (cancelled || records.length === 0) return;
+      setPatients(prev => prev.map(p => {
+        if (p.id !== activePatientId) return p;
+        const known = new Set(p.insightHistory.map(r => r.id));
+        const merged = [...p.insightHistory, ...records.filter(r => !known.has(r.id))]
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        return { ...p, insightHistory: merged };
+      }));
+    });
+
+    return () => { cancelled = true; };
+  }, [activePatientId]);
+
+  const handleLogin = (user: User) => {
+    setCurrentUser(user);
+    if (user.role === 'PATIENT') setActivePatientId(user.id);
   };
 
-  const handleLogout = () => {
+  const clearSession = useCallback(() => {
     setCurrentUser(null);
     setActivePatientId(null);
+    if (!isDemoMode) {
+      setPatients([]);
+      setLoadState('loading');
+    }
+  }, []);
+
+  const handleLogout = () => {
+    signOut();
+    clearSession();
   };
 
-  const handleMessageSend = useCallback(async (content: string, type: 'TEXT' | 'IMAGE' | 'DOCUMENT', senderRole: 'PATIENT' | 'DOCTOR', fileName?: string) => {
+  // Restore a persisted session on reload and react to external sign-outs
+  useEffect(() => {
+    restoreSession()
+      .then(user => { if (user) handleLogin(user); })
+      .finally(() => setIsRestoringSession(false));
+
+    const sub = onSignedOut(clearSession);
+    return () => sub.unsubscribe();
+  }, [clearSession]);
+
+  // A clinician reply answers what came before it; record that as read so the patient's receipts agree
+  const markAnsweredRead = useCallback((patientId: string, repliedAt: string) => {
+    const patient = patients.find(p => p.id === patientId);
+    const ids = patient ? answeredMessages(patient, repliedAt).map(m => m.id) : [];
+    if (ids.length === 0) return;
+
+    setPatients(prev => prev.map(p => p.id === patientId ? markRead(p, ids, repliedAt) : p));
+    markMessagesRead(ids, repliedAt);
+  }, [patients]);
+
+  const handleMessageSend = useCallback(async (content: string, type: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO', senderRole: 'PATIENT' | 'DOCTOR', fileName?: string) => {
     const targetId = activePatientId || (currentUser?.role === 'PATIENT' ? currentUser.id : null);
     if (!targetId) return;
 
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: newMessageId(),
       sender: senderRole,
       content,
       fileName,
       timestamp: new Date().toISOString(),
-      type
+      type,
+      syncStatus: 'PENDING'
     };
 
     // Update Local State immediately for responsiveness
     setPatients(prev => prev.map(p => {
       if (p.id === targetId) {
-        return { ...p, messages: [...p.messages, newMessage], lastInteraction: new Date().toISOString() };
+        return { ...p, messages: [...p.messages, newMessage], lastInteraction: senderRole === 'PATIENT' ? newMessage.timestamp : p.lastInteraction };
       }
       return p;
     }));
+    if (senderRole === 'DOCTOR') markAnsweredRead(targetId, newMessage.timestamp);
 
-    // Persistence with error handling
-    try {
-      await saveMessage(targetId, {
-        sender: senderRole,
-        content,
-        fileName,
-        type
-      });
-    } catch (err) {
-      console.warn('Persistence failed, using local session state only.');
+    // Voice notes are transcribed before persisting so the transcript is stored with the message
+    let transcript: string | null = null;
+    if (type === 'AUDIO') {
+      setIsProcessing(true);
+      try {
+        transcript = await transcribeVoiceNote(await loadAttachment(content, 'AUDIO', fileName));
+      } catch (e) {
+        console.error(e);
+      } finally {
+        setIsProcessing(false);
+      }
+      if (transcript) {
+        setPatients(prev => prev.map(p => p.id === targetId
+          ? { ...p, messages: p.messages.map(m => m.id === newMessage.id ? { ...m, transcript: transcript! } : m) }
+          : p));
+      }
+    }
+
+    // Attachments arrive as object URLs that only live in this tab; persist the stored copy instead
+    const storedContent = type === 'TEXT' ? content : await uploadMedia(targetId, content, fileName);
+    if (!storedContent) {
+      const failureMsg: Message = {
+        id: newMessageId(),
+        sender: 'SYSTEM',
+        content: `We couldn't upload that ${type === 'AUDIO' ? 'voice note' : 'file'}. Please check your connection and send it again.`,
+        timestamp: new Date().toISOString(),
+        type: 'TEXT'
+      };
+      setPatients(prev => prev.map(p => p.id === targetId
+        ? { ...p, messages: [...p.messages.filter(m => m.id !== newMessage.id), failureMsg] }
+        : p));
+      return;
     }
 
+    // Queued persistence: the outbox retries on failure; the stored row keeps the client id
+    await enqueueMessage(targetId, {
+      id: newMessage.id,
+      sender: senderRole,
+      content: storedContent,
+      fileName,
+      type,
+      transcript: transcript || undefined,
+      timestamp: newMessage.timestamp
+    });
+
     if (senderRole === 'DOCTOR') return;
 
     setIsProcessing(true);
-    if (type === 'TEXT') {
+    try {
+        const patient = patients.find(p => p.id === targetId);
+        if (!patient) return;
+
+        const { insight, vitals, suggestedResponse, raisedFlag, ...languageResult } = await triagePatientInput(patient, type === 'TEXT'
+            ? { kind: 'TEXT', text: content }
+            : type === 'AUDIO'
+            ? voiceNoteInput(transcript)
+            : await attachmentInput(content, type, fileName));
+
+        // Language from the provider, else guessed from the words the patient used
+        const spokenText = type === 'TEXT' ? content : transcript;
+        const language = languageResult.language || (spokenText ? detectLanguage(spokenText) : undefined);
+        const translation = isEnglish(language) ? undefined : languageResult.translation;
+        const preferredLanguage = patient.preferredLanguage || language;
+
+        const record: InsightRecord = {
+            ...insight,
+            id: `ins-${Date.now()}`,
+            messageId: newMessage.id,
+            timestamp: new Date().toISOString()
+        };
+
+        const systemMsg: Message = {
+            id: newMessageId(),
+            sender: 'SYSTEM',
+            content: suggestedResponse,
+            timestamp: new Date().toISOString(),
+            type: 'TEXT',
+            language: language || patient.preferredLanguage,
+            translation: languageResult.responseTranslation,
+            syncStatus: 'PENDING'
+        };
+
+        // Risky or uncertain replies wait in the doctor's review queue instead of reaching the patient
+        const heldFor = reviewReason(insight);
+        const draft = heldFor
+            ? createReplyDraft(insight, { text: suggestedResponse, language: systemMsg.language, translation: systemMsg.translation }, heldFor, 'APP', newMessage.id)
+            : undefined;
+
+        // Local state for AI
+        setPatients(prev => prev.map(p => {
+            if (p.id === targetId) {
+                const messages = p.messages.map(m => m.id === newMessage.id ? { ...m, language, translation } : m);
+                return {
+                    ...p,
+                    preferredLanguage,
+                    messages: draft ? messages : [...messages, systemMsg],
+                    replyDrafts: draft ? [...p.replyDrafts, draft] : p.replyDrafts,
+                    riskStatus: insight.riskLevel,
+                    latestInsight: insight,
+                    insightHistory: [...p.insightHistory, record],
+                    vitalsHistory: [...p.vitalsHistory, ...vitals],
+                    activeFlag: raisedFlag || p.activeFlag,
+                    isFlagged: isFlagActive(raisedFlag || p.activeFlag)
+                };
+            }
+            return p;
+        }));
+
+        // Async persistence of AI response
         try {
-           const patient = patients.find(p => p.id === targetId);
-if (!patient) {
-  setIsProcessing(false);
-  return;
-}
-
-            const context = `Age: ${patient.age}, Vitals: ${patient.vitalsHistory.slice(-2).map(v => `${v.type}: ${v.value}`).join(', ')}`;
-            const { insight, vitals, suggestedResponse } = await analyzePatientInput(content, context);
-
-            const systemMsg: Message = {
-                id: (Date.now() + 1).toString(),
-                sender: 'SYSTEM',
-                content: suggestedResponse,
-                timestamp: new Date().toISOString(),
-                type: 'TEXT'
-            };
-
-            // Local state for AI
-            setPatients(prev => prev.map(p => {
-                if (p.id === targetId) {
-                    return {
-                        ...p,
-                        messages: [...p.messages, systemMsg],
-                        riskStatus: insight.riskLevel,
-                        latestInsight: insight,
-                        vitalsHistory: [...p.vitalsHistory, ...vitals],
-                        isFlagged: insight.riskLevel === RiskLevel.HIGH || insight.riskLevel === RiskLevel.CRITICAL
-                    };
-                }
-                return p;
-            }));
-
-            // Async persistence of AI response
-            try {
-              await saveMessage(targetId, {
-                sender: 'SYSTEM',
-                content: suggestedResponse,
-                type: 'TEXT'
-              });
-              if (vitals.length > 0) {
-                await saveVitals(targetId, vitals);
-              }
-            } catch (err) {
-               console.warn('AI insight persistence failed.');
+          if (language) {
+            // The patient message may still be queued; otherwise update the stored row
+            if (!updateQueuedMessage(newMessage.id, { language, translation })) {
+              await saveMessageTranslation(newMessage.id, language, translation);
             }
-        } catch (e) {
-            console.error(e);
-        } finally {
-            setIsProcessing(false);
+          }
+          if (preferredLanguage && !patient.preferredLanguage) {
+            await savePreferredLanguage(targetId, preferredLanguage);
+          }
+          if (draft) {
+            await saveReplyDraft(targetId, draft);
+          } else {
+            await enqueueMessage(targetId, {
+              id: systemMsg.id,
+              sender: 'SYSTEM',
+              content: suggestedResponse,
+              type: 'TEXT',
+              language: systemMsg.language,
+              translation: systemMsg.translation,
+              timestamp: systemMsg.timestamp
+            });
+          }
+          if (vitals.length > 0) {
+            await enqueueVitals(targetId, vitals);
+          }
+          if (raisedFlag) {
+            await saveFlag(targetId, raisedFlag);
+          }
+          const persisted = await saveInsight(targetId, newMessage.id, insight);
+          if (persisted) {
+            // Swap the optimistic record for the persisted one so ids match the server
+            setPatients(prev => prev.map(p => p.id === targetId
+              ? {
+                  ...p,
+                  // Realtime may have delivered the persisted record already
+                  insightHistory: p.insightHistory.some(r => r.id === persisted.id)
+                    ? p.insightHistory.filter(r => r.id !== record.id)
+                    : p.insightHistory.map(r => r.id === record.id ? persisted : r)
+                }
+              : p));
+          }
+        } catch (err) {
+           console.warn('AI insight persistence failed.');
+        }
+    } catch (e) {
+        console.error(e);
+    } finally {
+        setIsProcessing(false);
+    }
+  }, [activePatientId, currentUser, patients, markAnsweredRead]);
+
+  const handleFlagAction = useCallback((patientId: string, action: FlagAction) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient?.activeFlag) return;
+
+    const flag = applyFlagAction(patient.activeFlag, action, currentUser.name);
+    setPatients(prev => prev.map(p => p.id === patientId
+      ? { ...p, activeFlag: flag, isFlagged: isFlagActive(flag) }
+      : p));
+    saveFlag(patientId, flag);
+  }, [currentUser, patients]);
+
+  const handleDraftReview = useCallback(async (patientId: string, draftId: string, review: DraftReview) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const draft = patients.find(p => p.id === patientId)?.replyDrafts.find(d => d.id === draftId);
+    if (!draft || !isPendingReview(draft)) return;
+
+    const reviewed = applyDraftReview(draft, review, currentUser.name);
+    // WhatsApp drafts are delivered (and logged as messages) by the ingestion server on approval
+    const reply: Message | undefined = reviewed.status === 'APPROVED' && reviewed.channel === 'APP'
+      ? {
+          id: newMessageId(),
+          sender: 'SYSTEM',
+          content: reviewed.finalText!,
+          timestamp: reviewed.reviewedAt!,
+          type: 'TEXT',
+          language: reviewed.language,
+          translation: wasEdited(reviewed) ? undefined : reviewed.translation,
+          syncStatus: 'PENDING'
+        }
+      : undefined;
+
+    setPatients(prev => prev.map(p => p.id === patientId
+      ? {
+          ...p,
+          replyDrafts: p.replyDrafts.map(d => d.id === draftId ? reviewed : d),
+          messages: reply ? [...p.messages, reply] : p.messages
+        }
+      : p));
+
+    if (reviewed.status === 'APPROVED') markAnsweredRead(patientId, reviewed.reviewedAt!);
+
+    await saveReplyDraft(patientId, reviewed);
+    if (reply) {
+      const { syncStatus, ...message } = reply;
+      await enqueueMessage(patientId, message);
+    }
+  }, [currentUser, patients, markAnsweredRead]);
+
+  const handlePreferredLanguageChange = useCallback((patientId: string, language: string) => {
+    setPatients(prev => prev.map(p => p.id === patientId ? { ...p, preferredLanguage: language } : p));
+    savePreferredLanguage(patientId, language);
+  }, []);
+
+  const handlePrescribe = useCallback((patientId: string, input: MedicationInput) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const medication = createMedication(input, currentUser.name);
+    setPatients(prev => prev.map(p => p.id === patientId ? { ...p, medications: [...p.medications, medication] } : p));
+    saveMedication(patientId, medication);
+  }, [currentUser]);
+
+  const handleStopMedication = useCallback((patientId: string, medicationId: string) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const medication = patients.find(p => p.id === patientId)?.medications.find(m => m.id === medicationId);
+    if (!medication?.active) return;
+
+    const stopped = stopMedication(medication);
+    setPatients(prev => prev.map(p => p.id === patientId
+      ? { ...p, medications: p.medications.map(m => m.id === medicationId ? stopped : m) }
+      : p));
+    saveMedication(patientId, stopped);
+  }, [currentUser, patients]);
+
+  const handleCarePlanSave = useCallback((patientId: string, plan: CarePlan) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const updated = updateCarePlan(plan, currentUser.name);
+    setPatients(prev => prev.map(p => p.id === patientId ? { ...p, carePlan: updated } : p));
+    saveCarePlan(patientId, updated);
+  }, [currentUser]);
+
+  const handleFhirImport = useCallback(async (patientId: string, imported: { vitals: VitalSign[]; conditions: string[] }) => {
+    if (currentUser?.role !== 'DOCTOR') return;
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+
+    const condition = [...patient.condition, ...imported.conditions];
+    setPatients(prev => prev.map(p => p.id === patientId
+      ? {
+          ...p,
+          condition,
+          vitalsHistory: [...p.vitalsHistory, ...imported.vitals].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        }
+      : p));
+    if (imported.conditions.length > 0) await saveConditions(patientId, condition);
+    if (imported.vitals.length > 0) await enqueueVitals(patientId, imported.vitals);
+  }, [currentUser, patients]);
+
+  const handleDoseRecord = useCallback((medicationId: string, scheduledFor: string, status: DoseStatus) => {
+    if (currentUser?.role !== 'PATIENT') return;
+    const targetId = currentUser.id;
+
+    const dose = recordDose(medicationId, scheduledFor, status);
+    setPatients(prev => prev.map(p => p.id === targetId ? { ...p, doses: upsertDose(p.doses, dose) } : p));
+    saveDose(targetId, dose);
+  }, [currentUser]);
+
+  const handleWearableImport = useCallback(async (imported: WearableImport) => {
+    if (currentUser?.role !== 'PATIENT') return;
+    const targetId = currentUser.id;
+    const patient = patients.find(p => p.id === targetId);
+    if (!patient) return;
+
+    const vitals = newDailyVitals(patient.vitalsHistory, imported.vitals);
+    setPatients(prev => prev.map(p => p.id === targetId
+      ? {
+          ...p,
+          wearableHistory: mergeWearableDays(p.wearableHistory, imported.days),
+          vitalsHistory: [...p.vitalsHistory, ...vitals].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
         }
-    } else {
-        setTimeout(() => setIsProcessing(false), 1500);
+      : p));
+    await saveWearableDays(targetId, imported.days);
+    if (vitals.length > 0) await enqueueVitals(targetId, vitals);
+  }, [currentUser, patients]);
+
+  // The doctor reads the patient's messages; the patient reads clinician and system messages
+  const handleMarkRead = useCallback((patientId: string) => {
+    if (!currentUser) return;
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    const ids = unreadMessages(patient, currentUser.role === 'DOCTOR' ? 'DOCTOR' : 'PATIENT').map(m => m.id);
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setPatients(prev => prev.map(p => p.id === patientId ? markRead(p, ids, readAt) : p));
+    markMessagesRead(ids, readAt);
+  }, [currentUser, patients]);
+
+  const handleRetryMessage = useCallback((patientId: string, messageId: string) => {
+    setPatients(prev => prev.map(p => p.id === patientId
+      ? { ...p, messages: p.messages.map(m => m.id === messageId ? { ...m, syncStatus: 'PENDING' } : m) }
+      : p));
+    retryMessage(messageId);
+  }, []);
+
+  const handleMealLog = useCallback(async (imageUrl: string, fileName?: string) => {
+    if (currentUser?.role !== 'PATIENT') return;
+    const targetId = currentUser.id;
+
+    const notify = (content: string) => {
+      const failureMsg: Message = {
+        id: Date.now().toString(),
+        sender: 'SYSTEM',
+        content,
+        timestamp: new Date().toISOString(),
+        type: 'TEXT'
+      };
+      setPatients(prev => prev.map(p => p.id === targetId ? { ...p, messages: [...p.messages, failureMsg] } : p));
+    };
+
+    setIsProcessing(true);
+    try {
+      // The object URL only lives in this tab; persist the uploaded copy
+      const storedUrl = await uploadMedia(targetId, imageUrl, fileName);
+      if (!storedUrl) {
+        notify("We couldn't upload that meal photo. Please check your connection and try again.");
+        return;
+      }
+
+      const analysis = await analyzeMealPhoto(await loadAttachment(imageUrl, 'IMAGE', fileName));
+      if (analysis === null) {
+        notify("We couldn't analyze that meal photo. Please try again with the whole plate in view.");
+        return;
+      }
+
+      // Without an estimate (offline provider) the photo is logged as is for the doctor to see
+      const entry: FoodEntry = {
+        id: `food-${Date.now()}`,
+        imageUrl: storedUrl,
+        timestamp: new Date().toISOString(),
+        ...(analysis ? { analysis } : {})
+      };
+
+      setPatients(prev => prev.map(p => p.id === targetId
+        ? { ...p, foodLogs: [entry, ...p.foodLogs], lastInteraction: entry.timestamp }
+        : p));
+
+      await saveFoodLog(targetId, entry);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsProcessing(false);
     }
-  }, [activePatientId, currentUser, patients]);
+  }, [currentUser]);
+
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
 
   if (!currentUser) return <AuthScreen onLogin={handleLogin} />;
 
   const myPatients = patients.filter(p => p.assignedDoctorId === currentUser.id);
+  const ownRecord = patients.find(p => p.id === currentUser.id);
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans text-slate-900">
@@ -260,20 +591,52 @@ if (!patient) {
       </header>
 
       <main className="flex-1 mt-16 overflow-hidden">
-        {currentUser.role === 'PATIENT' ? (
+        {loadState === 'loading' ? (
+          <div className="h-full flex flex-col items-center justify-center gap-4 py-32">
+            <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full" />
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Loading records...</p>
+          </div>
+        ) : loadState === 'error' || (currentUser.role === 'PATIENT' && !ownRecord) ? (
+          <div className="h-full flex flex-col items-center justify-center gap-4 py-32 text-center">
+            <div className="p-4 bg-rose-50 text-rose-600 rounded-2xl"><Icons.Alert size={28} /></div>
+            <h2 className="text-xl font-black text-slate-900 tracking-tighter">Could not load patient records</h2>
+            <p className="text-sm text-slate-500 max-w-sm">{isSupabaseConfigured()
+              ? 'Check your connection and try again.'
+              : <>Supabase is not configured: set <span className="font-mono">SUPABASE_URL</span> and <span className="font-mono">SUPABASE_ANON_KEY</span> in <span className="font-mono">.env.local</span>.</>} To explore the app without a backend, start it in demo mode (<span className="font-mono">DEMO_MODE=true</span> or <span className="font-mono">?demo</span>).</p>
+            <div className="flex gap-3">
+              <button onClick={() => setReloadKey(k => k + 1)} className="px-6 py-3 bg-blue-600 text-white text-xs font-black rounded-xl uppercase tracking-widest">Retry</button>
+              <button onClick={handleLogout} className="px-6 py-3 bg-slate-100 text-slate-600 text-xs font-black rounded-xl uppercase tracking-widest">Logout</button>
+            </div>
+          </div>
+        ) : currentUser.role === 'PATIENT' ? (
           <PatientDashboard 
-            patient={patients.find(p => p.id === currentUser.id)!} 
+            patient={ownRecord!} 
             onLogout={handleLogout} 
             onSendMessage={(c, t, f) => handleMessageSend(c, t, 'PATIENT', f)}
+            onLogMeal={handleMealLog}
+            onRetryMessage={id => handleRetryMessage(ownRecord!.id, id)}
+            onRecordDose={handleDoseRecord}
+            onImportWearable={handleWearableImport}
+            onMarkRead={() => handleMarkRead(ownRecord!.id)}
             isProcessing={isProcessing}
           />
         ) : (
           <div className="p-8 max-w-[1800px] mx-auto h-full">
             <DoctorDashboard 
+              doctorId={currentUser.id}
               patients={myPatients} 
               selectedPatientId={activePatientId} 
               onSelectPatient={setActivePatientId}
               onSendMessage={(c, t) => handleMessageSend(c, t, 'DOCTOR')}
+              onFlagAction={handleFlagAction}
+              onRetryMessage={handleRetryMessage}
+              onPreferredLanguageChange={handlePreferredLanguageChange}
+              onReviewDraft={handleDraftReview}
+              onPrescribe={handlePrescribe}
+              onStopMedication={handleStopMedication}
+              onSaveCarePlan={handleCarePlanSave}
+              onImportFhir={handleFhirImport}
+              onMarkRead={handleMarkRead}
               onLogout={handleLogout}
             />
           </div>
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Message } from '../types';
+
+interface Props {
+  message: Message;
+  /** Tailwind classes for the transcript text, to match the surrounding bubble. */
+  transcriptClassName?: string;
+}
+
+/**
+ * Voice note bubble body: inline player with the transcript underneath.
+ */
+export const AudioMessage: React.FC<Props> = ({ message, transcriptClassName = 'text-gray-600' }) => (
+  <div className="space-y-1 min-w-[220px]">
+    <audio controls preload="metadata" src={message.content} className="w-full h-10" />
+    {message.transcript ? (
+      <p className={`text-xs italic whitespace-pre-wrap px-1 ${transcriptClassName}`}>“{message.transcript}”</p>
+    ) : (
+      <p className="text-[10px] uppercase tracking-wide px-1 opacity-50">No transcript</p>
+    )}
+  </div>
+);
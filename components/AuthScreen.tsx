@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { Icons } from './Icons';
+import { User } from '../types';
+import { LOCAL_DEMO_OTP, OTP_LENGTH, authMode, sendOtp, verifyOtp } from '../services/authService';
 
 interface Props {
-  onLogin: (role: 'PATIENT' | 'DOCTOR', phoneNumber: string) => void;
+  onLogin: (user: User) => void;
 }
 
 export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
@@ -10,27 +12,33 @@ export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
   const [phone, setPhone] = useState('');
   const [otp, setOtp] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSendOtp = () => {
+  const handleSendOtp = async () => {
     if (phone.length < 10) return;
     setLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
-      setStep('OTP');
-    }, 1000);
+    setError(null);
+    const result = await sendOtp(phone);
+    setLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setStep('OTP');
   };
 
-  const handleVerifyOtp = () => {
-    if (otp.length !== 4) return;
+  const handleVerifyOtp = async () => {
+    if (otp.length !== OTP_LENGTH) return;
     setLoading(true);
-    setTimeout(() => {
-      // Simulate Role Logic based on phone number
-      // In a real app, this comes from the backend
-      const role = phone === '9999999999' ? 'DOCTOR' : 'PATIENT';
-      onLogin(role, phone);
-      setLoading(false);
-    }, 1000);
+    setError(null);
+    // Role and user id come from the profiles table (or the local stand-in)
+    const { user, error: verifyError } = await verifyOtp(phone, otp);
+    setLoading(false);
+    if (!user) {
+      setError(verifyError || 'Login failed.');
+      return;
+    }
+    onLogin(user);
   };
 
   return (
@@ -58,9 +66,11 @@ export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
                   onChange={(e) => setPhone(e.target.value)}
                 />
               </div>
-              <p className="text-[10px] text-gray-400 mt-2 ml-1">
-                Demo: Use <span className="font-mono text-gray-600">9999999999</span> for Doctor, any other for Patient.
-              </p>
+              {authMode === 'local' && (
+                <p className="text-[10px] text-gray-400 mt-2 ml-1">
+                  Offline mode: Use <span className="font-mono text-gray-600">9999999999</span> for Doctor, any other for Patient.
+                </p>
+              )}
             </div>
             <button
               onClick={handleSendOtp}
@@ -78,8 +88,8 @@ export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
                 <Icons.Lock className="absolute left-3 top-3 text-gray-400" size={20} />
                 <input
                   type="text"
-                  placeholder="Enter 4-digit OTP"
-                  maxLength={4}
+                  placeholder={`Enter ${OTP_LENGTH}-digit OTP`}
+                  maxLength={OTP_LENGTH}
                   className="w-full pl-10 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all outline-none tracking-widest text-center font-bold"
                   value={otp}
                   onChange={(e) => setOtp(e.target.value)}
@@ -87,12 +97,17 @@ export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
               </div>
               <p className="text-center text-xs text-gray-500 mt-4">
                 Sent to <span className="font-semibold">+91 {phone}</span>
-                <button onClick={() => setStep('PHONE')} className="ml-2 text-blue-600 hover:underline">Change</button>
+                <button onClick={() => { setStep('PHONE'); setOtp(''); setError(null); }} className="ml-2 text-blue-600 hover:underline">Change</button>
               </p>
+              {authMode === 'local' && (
+                <p className="text-center text-[10px] text-gray-400 mt-2">
+                  Offline mode: code is <span className="font-mono text-gray-600">{LOCAL_DEMO_OTP}</span>
+                </p>
+              )}
             </div>
             <button
               onClick={handleVerifyOtp}
-              disabled={otp.length !== 4 || loading}
+              disabled={otp.length !== OTP_LENGTH || loading}
               className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 rounded-xl transition-all shadow-md shadow-blue-100 disabled:opacity-50 flex justify-center items-center gap-2"
             >
                {loading ? <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" /> : 'Verify & Login'}
@@ -100,6 +115,12 @@ export const AuthScreen: React.FC<Props> = ({ onLogin }) => {
           </div>
         )}
 
+        {error && (
+          <p className="mt-4 text-xs font-semibold text-rose-600 bg-rose-50 border border-rose-100 rounded-xl px-4 py-3 flex items-center gap-2">
+            <Icons.Alert size={14} /> {error}
+          </p>
+        )}
+
         <div className="mt-8 pt-6 border-t border-gray-100 text-center">
           <p className="text-[10px] text-gray-400">
             By logging in, you agree to the Terms of Service. <br/>
@@ -1,13 +1,38 @@
-import React, { useMemo, useState, useRef } from 'react';
-import { Patient, RiskLevel, VitalSign } from '../types';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { CarePlan, InsightRecord, MeasurementFrequency, Patient, ReplyDraft, RiskLevel, VitalSign, VitalTarget } from '../types';
 import { Icons } from './Icons';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { MessageStatus } from './MessageStatus';
+import { AudioMessage } from './AudioMessage';
+import { VitalsExplorer } from './VitalsExplorer';
+import { PatientFilterPanel, SortSelect } from './PatientFilterPanel';
+import { SUPPORTED_LANGUAGES, languageLabel } from '../services/languageService';
+import { FlagAction, isEscalated, isFlagActive } from '../services/flagService';
+import { DraftReview, isPendingReview } from '../services/replyPolicyService';
+import { DEFAULT_REMINDER_CONFIG, MedicationInput, computeAdherence, parseDoseTimes } from '../services/medicationService';
+import { hasDataGap } from '../services/checkInService';
+import { AnalyticsAlert, analyticsAlerts, analyzeVitals } from '../services/vitalAnalyticsService';
+import { DEFAULT_FILTERS, FilterPreset, PatientFilters, activeFilterCount, filterPatients, filtersFromSearch, filtersToSearch, loadPresets, patientFacets, savePresets, upsertPreset } from '../services/patientFilterService';
+import { exportPatientBundle, importPatientBundle, newFromImport } from '../services/fhirService';
+import { unreadCount } from '../services/receiptService';
+import { EMPTY_CARE_PLAN, PLAN_VITALS, formatTarget, targetFor, validateCarePlan } from '../services/carePlanService';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
 interface Props {
+  /** Signed-in doctor; saved filter presets are kept per doctor. */
+  doctorId: string;
   patients: Patient[];
   selectedPatientId: string | null;
   onSelectPatient: (id: string | null) => void;
   onSendMessage: (text: string, type: 'TEXT' | 'IMAGE') => void;
+  onFlagAction: (patientId: string, action: FlagAction) => void;
+  onRetryMessage: (patientId: string, messageId: string) => void;
+  onPreferredLanguageChange: (patientId: string, language: string) => void;
+  onReviewDraft: (patientId: string, draftId: string, review: DraftReview) => void;
+  onPrescribe: (patientId: string, input: MedicationInput) => void;
+  onStopMedication: (patientId: string, medicationId: string) => void;
+  onSaveCarePlan: (patientId: string, plan: CarePlan) => void;
+  onImportFhir: (patientId: string, imported: { vitals: VitalSign[]; conditions: string[] }) => void;
+  onMarkRead: (patientId: string) => void;
   onLogout: () => void;
 }
 
@@ -21,19 +46,356 @@ const RiskBadge = ({ level }: { level: RiskLevel }) => {
   return <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest border ${styles[level]}`}>{level}</span>;
 };
 
-export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId, onSelectPatient, onSendMessage, onLogout }) => {
+const RISK_WEIGHT: Record<RiskLevel, number> = { [RiskLevel.LOW]: 1, [RiskLevel.MEDIUM]: 2, [RiskLevel.HIGH]: 3, [RiskLevel.CRITICAL]: 4 };
+const RISK_BY_WEIGHT = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+
+const InsightTimeline = ({ history }: { history: InsightRecord[] }) => {
+  const chartData = history.map(r => ({
+    time: new Date(r.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    risk: RISK_WEIGHT[r.riskLevel],
+    confidence: Math.round(r.confidenceScore * 100)
+  }));
+  const newestFirst = history.map((r, i) => ({ record: r, previous: history[i - 1] })).reverse();
+
+  if (history.length === 0) {
+    return <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">No insight history yet</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="h-[180px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="time" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 700, fill: '#94a3b8'}} />
+            <YAxis yAxisId="risk" domain={[1, 4]} ticks={[1, 2, 3, 4]} tickFormatter={(v: number) => RISK_BY_WEIGHT[v - 1]} axisLine={false} tickLine={false} tick={{fontSize: 9, fontWeight: 800, fill: '#94a3b8'}} width={70} />
+            <YAxis yAxisId="confidence" orientation="right" domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{fontSize: 9, fontWeight: 800, fill: '#94a3b8'}} />
+            <Tooltip contentStyle={{borderRadius: '24px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}} formatter={(value: number, name: string) => name === 'risk' ? [RISK_BY_WEIGHT[value - 1], 'Risk'] : [`${value}%`, 'Confidence']} />
+            <Line yAxisId="risk" type="stepAfter" dataKey="risk" stroke="#f43f5e" strokeWidth={4} dot={{r: 4, fill: 'white', strokeWidth: 3, stroke: '#f43f5e'}} />
+            <Line yAxisId="confidence" type="monotone" dataKey="confidence" stroke="#3b82f6" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="relative border-l-2 border-slate-100 ml-4 pl-8 space-y-6">
+        {newestFirst.map(({ record, previous }) => {
+          const delta = previous ? RISK_WEIGHT[record.riskLevel] - RISK_WEIGHT[previous.riskLevel] : 0;
+          const newThemes = record.themes.filter(t => !previous?.themes.includes(t));
+          return (
+            <div key={record.id} className="relative">
+              <div className={`absolute -left-[41px] top-1 w-4 h-4 rounded-full bg-white border-4 shadow-sm z-10 ${delta > 0 ? 'border-rose-500' : delta < 0 ? 'border-emerald-500' : 'border-slate-300'}`}></div>
+              <div className="flex items-center gap-3 mb-2">
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{new Date(record.timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                <RiskBadge level={record.riskLevel} />
+                {delta !== 0 && previous && (
+                  <span className={`text-[9px] font-black uppercase tracking-widest ${delta > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                    {delta > 0 ? '▲' : '▼'} from {previous.riskLevel}
+                  </span>
+                )}
+                <span className="ml-auto text-[10px] font-black text-slate-500">{Math.round(record.confidenceScore * 100)}% conf.</span>
+              </div>
+              <p className="text-xs font-medium text-slate-600 leading-relaxed mb-2">{record.summary}</p>
+              <div className="flex flex-wrap gap-2">
+                {record.themes.map(t => (
+                  <span key={t} className={`px-2 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-tighter ${newThemes.includes(t) && previous ? 'bg-blue-50 text-blue-600' : 'bg-slate-100 text-slate-500'}`}>{t}</span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Held AI reply with an editable text. The original AI text stays visible so
+ * the reviewer can see what changed.
+ */
+const DraftReviewCard: React.FC<{ draft: ReplyDraft; onReview: (review: DraftReview) => void }> = ({ draft, onReview }) => {
+  const [text, setText] = useState(draft.originalText);
+  const [note, setNote] = useState('');
+  const edited = text.trim() !== draft.originalText.trim();
+
+  return (
+    <div className="p-6 bg-amber-50 border border-amber-100 rounded-[28px] space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest flex items-center gap-2"><Icons.Shield size={14}/> AI reply held for review</p>
+        <div className="flex items-center gap-2">
+          <RiskBadge level={draft.riskLevel} />
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{Math.round(draft.confidenceScore * 100)}% conf.</span>
+        </div>
+      </div>
+      <p className="text-xs font-bold text-amber-800">{draft.reason}</p>
+      {draft.translation && (
+        <p className="text-xs text-slate-500 italic"><span className="font-black not-italic uppercase text-[9px] tracking-widest mr-2">{languageLabel(draft.language)} → English</span>{draft.translation}</p>
+      )}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        className="w-full bg-white border border-amber-100 rounded-2xl px-5 py-4 text-sm font-medium outline-none focus:ring-4 focus:ring-amber-100"
+      />
+      {edited && <p className="text-[10px] text-slate-400"><span className="font-black uppercase tracking-widest mr-2">Original</span>{draft.originalText}</p>}
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          placeholder="Review note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="flex-1 bg-white border border-amber-100 rounded-xl px-4 py-2.5 text-xs font-bold outline-none"
+        />
+        <button onClick={() => onReview({ type: 'REJECT', note })} className="px-4 py-2.5 bg-white text-rose-600 border border-rose-100 text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-rose-50 transition-all">Reject</button>
+        <button
+          onClick={() => onReview({ type: 'APPROVE', text, note })}
+          disabled={!text.trim()}
+          className="px-4 py-2.5 bg-emerald-600 text-white text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-emerald-700 transition-all disabled:opacity-50"
+        >
+          {edited ? 'Approve edited' : 'Approve & send'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const parseNumber = (value: string): number | undefined => value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+/**
+ * Editable per-vital targets, measurement frequency and activity goals.
+ * Rendered with a key per patient so the form resets on patient switch.
+ */
+const CarePlanEditor: React.FC<{ plan?: CarePlan; onSave: (plan: CarePlan) => void }> = ({ plan, onSave }) => {
+  const [draft, setDraft] = useState<CarePlan>(plan || EMPTY_CARE_PLAN);
+  const errors = validateCarePlan(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(plan || EMPTY_CARE_PLAN);
+
+  const setTarget = (type: VitalSign['type'], changes: Partial<VitalTarget>) =>
+    setDraft(d => ({ ...d, targets: { ...d.targets, [type]: { ...d.targets[type], ...changes } } }));
+
+  const setFrequency = (type: VitalSign['type'], changes: Partial<MeasurementFrequency>) =>
+    setDraft(d => {
+      const next = { times: 1, period: 'DAY' as const, ...d.frequency[type], ...changes };
+      const frequency = { ...d.frequency };
+      if (changes.times === undefined && 'times' in changes) delete frequency[type];
+      else frequency[type] = next;
+      return { ...d, frequency };
+    });
+
+  const inputClass = "w-20 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-bold outline-none focus:ring-2 focus:ring-blue-100";
+
+  return (
+    <div className="space-y-6">
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            <th className="pb-3">Vital</th>
+            <th className="pb-3">Min</th>
+            <th className="pb-3">Max</th>
+            <th className="pb-3">Readings</th>
+            <th className="pb-3">Per</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {PLAN_VITALS.map(({ type, label, unit }) => (
+            <tr key={type}>
+              <td className="py-2 text-xs font-black text-slate-700">{label} <span className="text-[10px] font-bold text-slate-400">{unit}</span></td>
+              <td className="py-2"><input type="number" value={draft.targets[type]?.min ?? ''} onChange={(e) => setTarget(type, { min: parseNumber(e.target.value) })} className={inputClass} /></td>
+              <td className="py-2"><input type="number" value={draft.targets[type]?.max ?? ''} onChange={(e) => setTarget(type, { max: parseNumber(e.target.value) })} className={inputClass} /></td>
+              <td className="py-2"><input type="number" min={1} value={draft.frequency[type]?.times ?? ''} onChange={(e) => setFrequency(type, { times: parseNumber(e.target.value) })} className={inputClass} /></td>
+              <td className="py-2">
+                <select value={draft.frequency[type]?.period ?? 'DAY'} disabled={!draft.frequency[type]} onChange={(e) => setFrequency(type, { period: e.target.value as MeasurementFrequency['period'] })} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold outline-none disabled:opacity-40">
+                  <option value="DAY">Day</option>
+                  <option value="WEEK">Week</option>
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center gap-6">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-3">
+          Daily steps
+          <input type="number" value={draft.goals.dailySteps ?? ''} onChange={(e) => setDraft(d => ({ ...d, goals: { ...d.goals, dailySteps: parseNumber(e.target.value) } }))} className={inputClass} />
+        </label>
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-3">
+          Sleep (h)
+          <input type="number" value={draft.goals.sleepHours ?? ''} onChange={(e) => setDraft(d => ({ ...d, goals: { ...d.goals, sleepHours: parseNumber(e.target.value) } }))} className={inputClass} />
+        </label>
+        <button onClick={() => onSave(draft)} disabled={!changed || errors.length > 0} className="ml-auto px-5 py-2.5 bg-blue-600 text-white text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-blue-700 transition-all disabled:opacity-40">Save plan</button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-[10px] font-bold text-rose-600 space-y-1">{errors.map(e => <li key={e}>{e}</li>)}</ul>
+      )}
+      {plan?.updatedAt && (
+        <p className="text-[10px] font-bold text-slate-400">Last updated {new Date(plan.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}{plan.updatedBy ? ` by ${plan.updatedBy}` : ''}</p>
+      )}
+    </div>
+  );
+};
+
+const adherenceColor = (percent?: number) =>
+  percent === undefined ? 'text-slate-400' : percent >= 80 ? 'text-emerald-600' : percent >= 50 ? 'text-amber-600' : 'text-rose-600';
+
+/**
+ * Active and past prescriptions with 7-day adherence, plus the form for
+ * prescribing a new medication.
+ */
+const MedicationPanel = ({ patient, onPrescribe, onStop }: { patient: Patient; onPrescribe: (input: MedicationInput) => void; onStop: (medicationId: string) => void }) => {
+  const [name, setName] = useState('');
+  const [dosage, setDosage] = useState('');
+  const [times, setTimes] = useState('08:00, 20:00');
+  const [instructions, setInstructions] = useState('');
+  const adherence = useMemo(() => computeAdherence(patient), [patient]);
+  const parsedTimes = parseDoseTimes(times);
+  const canPrescribe = name.trim() && dosage.trim() && parsedTimes.length > 0;
+
+  const prescribe = () => {
+    if (!canPrescribe) return;
+    onPrescribe({ name, dosage, times: parsedTimes, instructions });
+    setName('');
+    setDosage('');
+    setInstructions('');
+  };
+
+  const medications = [...patient.medications].sort((a, b) => Number(b.active) - Number(a.active));
+
+  return (
+    <div className="space-y-6">
+      {medications.length === 0 ? (
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">No medications prescribed</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {medications.map(med => {
+            const stats = adherence.medications.find(a => a.medicationId === med.id);
+            return (
+              <div key={med.id} className={`py-4 flex items-center gap-6 ${med.active ? '' : 'opacity-50'}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-black text-slate-900">{med.name} <span className="text-xs font-bold text-slate-500">{med.dosage}</span></p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                    {med.times.join(' · ')}{med.instructions ? ` — ${med.instructions}` : ''}{med.active ? '' : ` — stopped ${med.endDate}`}
+                  </p>
+                </div>
+                {stats && stats.scheduled > 0 && (
+                  <div className="text-right">
+                    <p className={`text-lg font-black ${adherenceColor(stats.percent)}`}>{stats.percent}%</p>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{stats.taken}/{stats.scheduled} taken · {stats.skipped} skipped · {stats.missed} missed</p>
+                  </div>
+                )}
+                {med.active && (
+                  <button onClick={() => onStop(med.id)} className="px-3 py-1.5 bg-white text-rose-600 border border-rose-100 text-[10px] font-black rounded-lg uppercase tracking-widest hover:bg-rose-50 transition-all">Stop</button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-3">
+        <input type="text" placeholder="Medication" value={name} onChange={(e) => setName(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none" />
+        <input type="text" placeholder="Dosage (e.g. 500 mg)" value={dosage} onChange={(e) => setDosage(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none" />
+        <input type="text" placeholder="Times (HH:MM, ...)" value={times} onChange={(e) => setTimes(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none" />
+        <input type="text" placeholder="Instructions (optional)" value={instructions} onChange={(e) => setInstructions(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none" />
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {parsedTimes.length > 0 ? `Daily at ${parsedTimes.join(', ')}` : 'Enter at least one time as HH:MM'}
+        </p>
+        <button onClick={prescribe} disabled={!canPrescribe} className="px-5 py-2.5 bg-blue-600 text-white text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-blue-700 transition-all disabled:opacity-40">Prescribe</button>
+      </div>
+    </div>
+  );
+};
+
+export const DoctorDashboard: React.FC<Props> = ({ doctorId, patients, selectedPatientId, onSelectPatient, onSendMessage, onFlagAction, onRetryMessage, onPreferredLanguageChange, onReviewDraft, onPrescribe, onStopMedication, onSaveCarePlan, onImportFhir, onMarkRead, onLogout }) => {
   const [activeTab, setActiveTab] = useState<'CLINICAL' | 'WHATSAPP'>('CLINICAL');
   const [chatInput, setChatInput] = useState('');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<PatientFilters>(() => filtersFromSearch(window.location.search));
+  const [showFilters, setShowFilters] = useState(() => activeFilterCount(filtersFromSearch(window.location.search)) > 0);
+  const [presets, setPresets] = useState<FilterPreset[]>(() => loadPresets(doctorId));
+  const [flagNote, setFlagNote] = useState('');
+  const [assignee, setAssignee] = useState('');
   const activePatient = patients.find(p => p.id === selectedPatientId);
+  const glucoseTarget = targetFor(activePatient?.carePlan, 'GLUCOSE');
+  const overallAdherence = useMemo(() => activePatient ? computeAdherence(activePatient).overall : undefined, [activePatient]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fhirInputRef = useRef<HTMLInputElement>(null);
+  const [fhirStatus, setFhirStatus] = useState<{ patientId: string; ok: boolean; text: string } | null>(null);
+
+  const handleFhirExport = (patient: Patient) => {
+    const blob = new Blob([JSON.stringify(exportPatientBundle(patient), null, 2)], { type: 'application/fhir+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${patient.id}-fhir-bundle.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFhirImport = async (patient: Patient, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { patient: imported, warnings } = importPatientBundle(JSON.parse(await file.text()));
+      const added = newFromImport(patient, imported);
+      onImportFhir(patient.id, added);
+      setFhirStatus({
+        patientId: patient.id,
+        ok: true,
+        text: `Imported ${added.vitals.length} reading(s) and ${added.conditions.length} condition(s)${warnings.length > 0 ? `; skipped ${warnings.length}: ${warnings.slice(0, 3).join(', ')}${warnings.length > 3 ? '…' : ''}` : ''}`
+      });
+    } catch (err) {
+      setFhirStatus({ patientId: patient.id, ok: false, text: `FHIR import failed: ${err instanceof Error ? err.message : 'invalid file'}` });
+    }
+  };
+
+  const filteredPatients = useMemo(() => filterPatients(patients, filters), [patients, filters]);
+  const facets = useMemo(() => patientFacets(patients), [patients]);
+
+  // Filters live in the URL so a filtered list can be bookmarked or shared
+  useEffect(() => {
+    const current = window.location.search;
+    const search = filtersToSearch(filters, current);
+    if (search !== filtersToSearch(filtersFromSearch(current), current)) {
+      window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`);
+    }
+  }, [filters]);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    savePresets(doctorId, next);
+  };
+
+  const trendAlerts = useMemo(
+    () => new Map<string, AnalyticsAlert[]>(patients.map(p => [p.id, analyticsAlerts(analyzeVitals(p.vitalsHistory))])),
+    [patients]);
+
+  const activeUnread = activePatient ? unreadCount(activePatient) : 0;
+
+  // Opening the WhatsApp tab reads the patient's messages
+  useEffect(() => {
+    if (activeTab === 'WHATSAPP' && activePatient && activeUnread > 0) onMarkRead(activePatient.id);
+  }, [activeTab, activePatient?.id, activeUnread]);
 
-  const filteredPatients = useMemo(() => {
-    const riskWeights = { [RiskLevel.CRITICAL]: 4, [RiskLevel.HIGH]: 3, [RiskLevel.MEDIUM]: 2, [RiskLevel.LOW]: 1 };
-    return patients
-      .filter(p => p.name.toLowerCase().includes(searchQuery.toLowerCase()) || p.id.includes(searchQuery))
-      .sort((a, b) => riskWeights[b.riskStatus] - riskWeights[a.riskStatus]);
-  }, [patients, searchQuery]);
+  const escalatedPatients = patients.filter(p => isEscalated(p.activeFlag));
+  const reviewQueue = patients
+    .flatMap(p => p.replyDrafts.filter(isPendingReview).map(draft => ({ patient: p, draft })))
+    .sort((a, b) => new Date(a.draft.createdAt).getTime() - new Date(b.draft.createdAt).getTime());
+
+  const openDraft = (patientId: string) => {
+    onSelectPatient(patientId);
+    setActiveTab('WHATSAPP');
+  };
+
+  const handleFlag = (action: FlagAction) => {
+    if (!activePatient) return;
+    onFlagAction(activePatient.id, { ...action, note: flagNote || undefined });
+    setFlagNote('');
+    setAssignee('');
+  };
 
   const stats = {
     total: patients.length,
@@ -61,14 +423,61 @@ export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId,
               <input 
                 type="text" 
                 placeholder="Search by name or ID..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={filters.query}
+                onChange={(e) => setFilters({ ...filters, query: e.target.value })}
                 className="w-full pl-12 pr-4 py-3.5 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-bold focus:ring-4 focus:ring-blue-50 transition-all outline-none"
               />
            </div>
+           <div className="flex items-center gap-2">
+              <SortSelect value={filters.sort} onChange={sort => setFilters({ ...filters, sort })} />
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`px-3 py-2 rounded-xl text-[11px] font-black transition-colors ${activeFilterCount(filters) > 0 ? 'bg-blue-50 text-blue-700' : 'bg-slate-50 text-slate-600'}`}
+              >
+                Filters{activeFilterCount(filters) > 0 ? ` · ${activeFilterCount(filters)}` : ''}
+              </button>
+              <span className="ml-auto text-[10px] font-black text-slate-400 uppercase tracking-widest">{filteredPatients.length}/{patients.length}</span>
+           </div>
+           {showFilters && (
+             <PatientFilterPanel
+               filters={filters}
+               onChange={setFilters}
+               onClear={() => setFilters({ ...DEFAULT_FILTERS, query: filters.query, sort: filters.sort })}
+               facets={facets}
+               presets={presets}
+               onSavePreset={name => updatePresets(upsertPreset(presets, name, filters))}
+               onApplyPreset={preset => setFilters(preset.filters)}
+               onDeletePreset={id => updatePresets(presets.filter(p => p.id !== id))}
+             />
+           )}
         </div>
 
+        {escalatedPatients.length > 0 && (
+          <div className="mx-4 mt-4 p-4 bg-rose-50 border border-rose-100 rounded-2xl space-y-2">
+             <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest flex items-center gap-2"><Icons.Alert size={14}/> Unacknowledged past SLA</p>
+             {escalatedPatients.map(p => (
+               <button key={p.id} onClick={() => onSelectPatient(p.id)} className="w-full text-left text-xs font-bold text-rose-700 hover:underline">
+                 {p.name} • open {p.activeFlag!.escalations[p.activeFlag!.escalations.length - 1].minutesOpen} min • {p.activeFlag!.escalations.length} missed
+               </button>
+             ))}
+          </div>
+        )}
+
+        {reviewQueue.length > 0 && (
+          <div className="mx-4 mt-4 p-4 bg-amber-50 border border-amber-100 rounded-2xl space-y-2">
+             <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest flex items-center gap-2"><Icons.Shield size={14}/> Review queue • {reviewQueue.length}</p>
+             {reviewQueue.map(({ patient, draft }) => (
+               <button key={draft.id} onClick={() => openDraft(patient.id)} className="w-full text-left text-xs font-bold text-amber-800 hover:underline">
+                 {patient.name} • {draft.riskLevel} • {Math.round(draft.confidenceScore * 100)}% conf.
+               </button>
+             ))}
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+           {filteredPatients.length === 0 && patients.length > 0 && (
+             <p className="text-center py-10 text-[10px] font-black text-slate-400 uppercase tracking-widest">No patients match these filters</p>
+           )}
            {filteredPatients.map(p => (
               <button 
                 key={p.id}
@@ -87,18 +496,50 @@ export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId,
                  <div className="flex-1 min-w-0">
                     <div className="flex justify-between items-start mb-1">
                        <span className="font-black text-sm truncate">{p.name}</span>
-                       <div className={`w-2 h-2 rounded-full mt-1.5 ${
-                         p.riskStatus === RiskLevel.CRITICAL ? 'bg-rose-500 animate-pulse' :
-                         p.riskStatus === RiskLevel.HIGH ? 'bg-orange-500' :
-                         p.riskStatus === RiskLevel.MEDIUM ? 'bg-amber-500' : 'bg-emerald-500'
-                       }`}></div>
+                       <div className="flex items-center gap-2">
+                         {unreadCount(p) > 0 && (
+                           <span className="min-w-[18px] h-[18px] px-1.5 bg-emerald-500 text-white text-[9px] font-black rounded-full flex items-center justify-center" title="Unread messages">{unreadCount(p)}</span>
+                         )}
+                         <div className={`w-2 h-2 rounded-full mt-1.5 ${
+                           p.riskStatus === RiskLevel.CRITICAL ? 'bg-rose-500 animate-pulse' :
+                           p.riskStatus === RiskLevel.HIGH ? 'bg-orange-500' :
+                           p.riskStatus === RiskLevel.MEDIUM ? 'bg-amber-500' : 'bg-emerald-500'
+                         }`}></div>
+                       </div>
                     </div>
                     <p className={`text-[10px] font-bold uppercase tracking-widest ${
                       p.id === selectedPatientId ? 'text-slate-400' : 'text-slate-500'
                     }`}>{p.condition[0]}</p>
                     <div className="flex items-center gap-3 mt-3">
                        <RiskBadge level={p.riskStatus}/>
+                       {isFlagActive(p.activeFlag) && (
+                         <span className={`text-[9px] font-black uppercase tracking-widest ${isEscalated(p.activeFlag) ? 'text-rose-500' : p.id === selectedPatientId ? 'text-slate-400' : 'text-slate-500'}`}>
+                           {p.activeFlag.status === 'OPEN' ? 'Flag Open' : 'Acknowledged'}
+                         </span>
+                       )}
+                       {hasDataGap(p) && (
+                         <span className="text-[9px] font-black uppercase tracking-widest text-violet-500">Data gap</span>
+                       )}
+                       {p.replyDrafts.some(isPendingReview) && (
+                         <span className="text-[9px] font-black uppercase tracking-widest text-amber-500">Reply held</span>
+                       )}
                     </div>
+                    {(trendAlerts.get(p.id)?.length ?? 0) > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {trendAlerts.get(p.id)!.slice(0, 3).map(alert => (
+                          <span
+                            key={`${alert.kind}-${alert.type}`}
+                            className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${
+                              alert.kind === 'SUDDEN_CHANGE' ? 'bg-rose-50 text-rose-600'
+                              : alert.kind === 'TREND' ? 'bg-blue-50 text-blue-600'
+                              : 'bg-slate-100 text-slate-500'
+                            }`}
+                          >
+                            {alert.label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                  </div>
               </button>
            ))}
@@ -116,17 +557,85 @@ export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId,
                     <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Dossier: {activePatient.id}</span>
                     <div className="w-1 h-1 rounded-full bg-slate-200"></div>
                     <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{activePatient.age} Yrs • {activePatient.riskStatus} RISK</span>
+                    <div className="w-1 h-1 rounded-full bg-slate-200"></div>
+                    <select
+                      value={activePatient.preferredLanguage || ''}
+                      onChange={(e) => onPreferredLanguageChange(activePatient.id, e.target.value)}
+                      className="text-[10px] font-black text-slate-400 uppercase tracking-widest bg-transparent outline-none cursor-pointer"
+                      title="Language for AI replies"
+                    >
+                      {!activePatient.preferredLanguage && <option value="" disabled>Language: auto</option>}
+                      {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                    </select>
+                  </div>
+               </div>
+               {isFlagActive(activePatient.activeFlag) && (
+                  <div className="flex gap-2">
+                     {activePatient.activeFlag.status === 'OPEN' && (
+                        <button onClick={() => handleFlag({ type: 'ACKNOWLEDGE' })} className="px-4 py-2.5 bg-amber-50 text-amber-700 border border-amber-100 text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-amber-100 transition-all">Acknowledge</button>
+                     )}
+                     <button onClick={() => handleFlag({ type: 'RESOLVE' })} className="px-4 py-2.5 bg-emerald-50 text-emerald-700 border border-emerald-100 text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-emerald-100 transition-all">Resolve</button>
                   </div>
+               )}
+               <div className="flex gap-2">
+                  <button onClick={() => handleFhirExport(activePatient)} title="Download a FHIR R4 bundle" className="px-4 py-2.5 bg-white text-slate-600 border border-slate-200 text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-slate-50 transition-all">Export FHIR</button>
+                  <button onClick={() => fhirInputRef.current?.click()} title="Merge readings and conditions from a FHIR R4 bundle" className="px-4 py-2.5 bg-white text-slate-600 border border-slate-200 text-[10px] font-black rounded-xl uppercase tracking-widest hover:bg-slate-50 transition-all">Import FHIR</button>
+                  <input type="file" ref={fhirInputRef} className="hidden" accept=".json,application/json,application/fhir+json" onChange={(e) => handleFhirImport(activePatient, e)} />
                </div>
                <div className="flex bg-slate-100 p-1.5 rounded-2xl">
                   <button onClick={() => setActiveTab('CLINICAL')} className={`px-6 py-2.5 text-[11px] font-black rounded-xl transition-all uppercase tracking-widest ${activeTab === 'CLINICAL' ? 'bg-white shadow text-blue-600' : 'text-slate-500'}`}>Clinical Insights</button>
-                  <button onClick={() => setActiveTab('WHATSAPP')} className={`px-6 py-2.5 text-[11px] font-black rounded-xl transition-all uppercase tracking-widest ${activeTab === 'WHATSAPP' ? 'bg-white shadow text-blue-600' : 'text-slate-500'}`}>WhatsApp Bridge</button>
+                  <button onClick={() => setActiveTab('WHATSAPP')} className={`px-6 py-2.5 text-[11px] font-black rounded-xl transition-all uppercase tracking-widest ${activeTab === 'WHATSAPP' ? 'bg-white shadow text-blue-600' : 'text-slate-500'}`}>WhatsApp Bridge{activeUnread > 0 && activeTab !== 'WHATSAPP' && <span className="ml-2 px-1.5 py-0.5 bg-emerald-500 text-white rounded-full text-[9px]">{activeUnread}</span>}</button>
                </div>
                <button onClick={() => onSelectPatient(null)} className="p-4 bg-slate-50 text-slate-400 hover:text-slate-900 rounded-[20px] transition-colors">
                   <Icons.Close size={20} />
                </button>
             </div>
 
+            {fhirStatus?.patientId === activePatient.id && (
+              <div className={`px-10 py-3 border-b flex items-center gap-4 ${fhirStatus.ok ? 'bg-emerald-50/60 border-emerald-100 text-emerald-700' : 'bg-rose-50/60 border-rose-100 text-rose-700'}`}>
+                 <p className="flex-1 text-[10px] font-black uppercase tracking-widest">{fhirStatus.text}</p>
+                 <button onClick={() => setFhirStatus(null)} className="p-1 opacity-60 hover:opacity-100"><Icons.Close size={14} /></button>
+              </div>
+            )}
+
+            {isFlagActive(activePatient.activeFlag) && (
+              <div className={`px-10 py-4 border-b flex items-center gap-6 ${activePatient.activeFlag.status === 'OPEN' ? 'bg-rose-50/60 border-rose-100' : 'bg-amber-50/60 border-amber-100'}`}>
+                 <div className="flex-1 min-w-0">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-600">
+                      {activePatient.activeFlag.riskLevel} flag • {activePatient.activeFlag.status} • raised {new Date(activePatient.activeFlag.raisedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      {activePatient.activeFlag.acknowledgedBy && ` • ack'd by ${activePatient.activeFlag.acknowledgedBy}`}
+                      {activePatient.activeFlag.assignedTo && ` • assigned to ${activePatient.activeFlag.assignedTo}`}
+                      {activePatient.activeFlag.escalations.length > 0 && <span className="text-rose-600"> • {activePatient.activeFlag.escalations.length} missed SLA</span>}
+                    </p>
+                    {activePatient.activeFlag.notes.length > 0 && (
+                      <p className="text-xs text-slate-500 mt-1 truncate">
+                        {activePatient.activeFlag.notes[activePatient.activeFlag.notes.length - 1].author}: {activePatient.activeFlag.notes[activePatient.activeFlag.notes.length - 1].text}
+                      </p>
+                    )}
+                 </div>
+                 <input
+                    type="text"
+                    placeholder="Add a note..."
+                    value={flagNote}
+                    onChange={(e) => setFlagNote(e.target.value)}
+                    className="w-56 bg-white border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-blue-50"
+                 />
+                 <input
+                    type="text"
+                    placeholder="Assign to..."
+                    value={assignee}
+                    onChange={(e) => setAssignee(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && assignee.trim() && handleFlag({ type: 'ASSIGN', assignee: assignee.trim() })}
+                    className="w-40 bg-white border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-blue-50"
+                 />
+                 <button
+                    onClick={() => handleFlag({ type: 'ASSIGN', assignee: assignee.trim() })}
+                    disabled={!assignee.trim()}
+                    className="px-4 py-2 bg-slate-900 text-white text-[10px] font-black rounded-xl uppercase tracking-widest disabled:opacity-40"
+                 >Assign</button>
+              </div>
+            )}
+
             {activeTab === 'CLINICAL' ? (
               <div className="flex-1 overflow-y-auto p-12 space-y-12 custom-scrollbar">
                  <div className="grid grid-cols-3 gap-10">
@@ -176,27 +685,39 @@ export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId,
                  <div className="bg-white border border-slate-200 rounded-[48px] p-12 shadow-sm">
                     <div className="flex items-center justify-between mb-10">
                        <h3 className="text-xl font-black text-slate-900 flex items-center gap-4"><div className="p-2 bg-blue-50 text-blue-600 rounded-xl"><Icons.Trend size={24}/></div> longitudinal Stream</h3>
-                       <div className="flex gap-2">
-                          <span className="px-4 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black rounded-lg uppercase">Daily Average Analytics</span>
-                       </div>
+                       {glucoseTarget && <span className="px-4 py-1.5 bg-emerald-50 text-emerald-700 text-[10px] font-black rounded-lg uppercase">Glucose target {formatTarget(glucoseTarget)} mg/dL</span>}
+                    </div>
+                    <VitalsExplorer key={activePatient.id} patient={activePatient} initialMetric="GLUCOSE" variant="detailed" />
+                 </div>
+
+                 <div className="bg-white border border-slate-200 rounded-[48px] p-12 shadow-sm">
+                    <div className="flex items-center justify-between mb-10">
+                       <h3 className="text-xl font-black text-slate-900 flex items-center gap-4"><div className="p-2 bg-rose-50 text-rose-600 rounded-xl"><Icons.Clock size={24}/></div> Insight Timeline</h3>
+                       <span className="px-4 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black rounded-lg uppercase">{activePatient.insightHistory.length} Assessments</span>
                     </div>
-                    <div className="h-[400px]">
-                       <ResponsiveContainer width="100%" height="100%">
-                          <AreaChart data={activePatient.vitalsHistory.filter(v => v.type === 'GLUCOSE')}>
-                            <defs>
-                              <linearGradient id="colorVal" x1="0" y1="0" x2="0" y2="1">
-                                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
-                                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                              </linearGradient>
-                            </defs>
-                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                            <XAxis dataKey="timestamp" hide />
-                            <YAxis axisLine={false} tickLine={false} tick={{fontSize: 11, fontWeight: 700, fill: '#94a3b8'}} />
-                            <Tooltip contentStyle={{borderRadius: '24px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)'}} />
-                            <Area type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={4} fillOpacity={1} fill="url(#colorVal)" />
-                          </AreaChart>
-                       </ResponsiveContainer>
+                    <InsightTimeline history={activePatient.insightHistory} />
+                 </div>
+
+                 <div className="bg-white border border-slate-200 rounded-[48px] p-12 shadow-sm">
+                    <div className="flex items-center justify-between mb-10">
+                       <h3 className="text-xl font-black text-slate-900 flex items-center gap-4"><div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Icons.Activity size={24}/></div> Care Plan</h3>
+                       <span className="px-4 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black rounded-lg uppercase">Targets · Frequency · Goals</span>
+                    </div>
+                    <CarePlanEditor key={activePatient.id} plan={activePatient.carePlan} onSave={(plan: CarePlan) => onSaveCarePlan(activePatient.id, plan)} />
+                 </div>
+
+                 <div className="bg-white border border-slate-200 rounded-[48px] p-12 shadow-sm">
+                    <div className="flex items-center justify-between mb-10">
+                       <h3 className="text-xl font-black text-slate-900 flex items-center gap-4"><div className="p-2 bg-emerald-50 text-emerald-600 rounded-xl"><Icons.Pill size={24}/></div> Medications</h3>
+                       <span className="px-4 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black rounded-lg uppercase">
+                         {overallAdherence === undefined ? 'No doses due' : `${overallAdherence}% adherence · ${DEFAULT_REMINDER_CONFIG.adherenceDays} days`}
+                       </span>
                     </div>
+                    <MedicationPanel
+                      patient={activePatient}
+                      onPrescribe={(input: MedicationInput) => onPrescribe(activePatient.id, input)}
+                      onStop={(medicationId: string) => onStopMedication(activePatient.id, medicationId)}
+                    />
                  </div>
               </div>
             ) : (
@@ -206,13 +727,29 @@ export const DoctorDashboard: React.FC<Props> = ({ patients, selectedPatientId,
                        {activePatient.messages.map(msg => (
                           <div key={msg.id} className={`flex ${msg.sender === 'PATIENT' ? 'justify-start' : 'justify-end'}`}>
                              <div className={`max-w-[70%] p-6 rounded-[32px] shadow-xl relative border ${msg.sender === 'PATIENT' ? 'bg-white border-slate-100 text-slate-700' : 'bg-slate-900 text-white border-slate-800'}`}>
-                                <p className={`text-[9px] font-black uppercase mb-1 tracking-widest ${msg.sender === 'PATIENT' ? 'text-slate-400' : 'text-blue-400'}`}>{msg.sender === 'PATIENT' ? activePatient.name : 'Dr. Arun Verma'}</p>
-                                <p className="text-sm font-medium leading-relaxed">{msg.content}</p>
-                                <span className="text-[8px] font-bold opacity-40 mt-2 block text-right uppercase">{new Date(msg.timestamp).toLocaleTimeString()}</span>
+                                <p className={`text-[9px] font-black uppercase mb-1 tracking-widest ${msg.sender === 'PATIENT' ? 'text-slate-400' : 'text-blue-400'}`}>{msg.sender === 'PATIENT' ? activePatient.name : msg.kind === 'CHECK_IN' ? 'Automated check-in' : 'Dr. Arun Verma'}</p>
+                                {msg.type === 'AUDIO'
+                                  ? <AudioMessage message={msg} transcriptClassName={msg.sender === 'PATIENT' ? 'text-slate-600' : 'text-slate-300'} />
+                                  : <p className="text-sm font-medium leading-relaxed">{msg.content}</p>}
+                                {msg.caption && <p className="text-sm font-medium leading-relaxed mt-2">{msg.caption}</p>}
+                                {msg.translation && (
+                                  <div className={`mt-3 pt-3 border-t ${msg.sender === 'PATIENT' ? 'border-slate-100' : 'border-slate-700'}`}>
+                                    <p className="text-[8px] font-black uppercase tracking-widest opacity-50 mb-1">{languageLabel(msg.language)} → English</p>
+                                    <p className="text-sm font-medium leading-relaxed italic opacity-80">{msg.translation}</p>
+                                  </div>
+                                )}
+                                <span className="text-[8px] font-bold mt-2 block text-right uppercase"><span className="opacity-40">{new Date(msg.timestamp).toLocaleTimeString()}</span>{msg.sender !== 'PATIENT' && <MessageStatus message={msg} onRetry={id => onRetryMessage(activePatient.id, id)} />}</span>
                              </div>
                           </div>
                        ))}
                     </div>
+                    {activePatient.replyDrafts.some(isPendingReview) && (
+                      <div className="px-8 pt-6 bg-white border-t border-slate-100 space-y-4 max-h-[50%] overflow-y-auto">
+                        {activePatient.replyDrafts.filter(isPendingReview).map(draft => (
+                          <DraftReviewCard key={draft.id} draft={draft} onReview={review => onReviewDraft(activePatient.id, draft.id, review)} />
+                        ))}
+                      </div>
+                    )}
                     <div className="p-8 bg-white border-t border-slate-100 flex items-center gap-6">
                        <button onClick={() => fileInputRef.current?.click()} className="p-4 bg-slate-50 text-slate-400 hover:text-blue-600 rounded-2xl transition-all"><Icons.Camera size={24}/></button>
                        <input type="file" ref={fileInputRef} className="hidden" accept="image/*" />
@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DoseStatus, Patient } from '../types';
+import { Icons } from './Icons';
+import { DEFAULT_REMINDER_CONFIG, computeAdherence, dosesForDay, dueReminders } from '../services/medicationService';
+
+interface Props {
+  patient: Patient;
+  onRecordDose: (medicationId: string, scheduledFor: string, status: DoseStatus) => void;
+}
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Today's dose schedule with one-tap Taken/Skipped. Re-checks every minute
+ * and shows a browser notification when a dose becomes due, if allowed.
+ */
+export const DoseReminders: React.FC<Props> = ({ patient, onRecordDose }) => {
+  const [now, setNow] = useState(() => new Date());
+  const [permission, setPermission] = useState(() => notificationsSupported() ? Notification.permission : 'denied');
+  const notifiedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const today = useMemo(() => dosesForDay(patient, now), [patient, now]);
+  const due = useMemo(() => dueReminders(patient, now), [patient, now]);
+  const adherence = useMemo(() => computeAdherence(patient, now).overall, [patient, now]);
+
+  useEffect(() => {
+    if (permission !== 'granted') return;
+    due.forEach(reminder => {
+      const key = `${reminder.medication.id}-${reminder.scheduledFor}`;
+      if (notifiedRef.current.has(key)) return;
+      notifiedRef.current.add(key);
+      new Notification(`Time for ${reminder.medication.name}`, {
+        body: `${reminder.medication.dosage} at ${formatTime(reminder.scheduledFor)}${reminder.medication.instructions ? ` — ${reminder.medication.instructions}` : ''}`,
+        tag: key
+      });
+    });
+  }, [due, permission]);
+
+  const enableNotifications = async () => {
+    if (!notificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  if (today.length === 0) return null;
+
+  const dueKeys = new Set(due.map(r => `${r.medication.id}-${r.scheduledFor}`));
+  const missedBefore = now.getTime() - DEFAULT_REMINDER_CONFIG.missedAfterMinutes * 60 * 1000;
+
+  return (
+    <section className="bg-white rounded-[32px] p-6 shadow-sm border border-slate-100">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest flex items-center gap-2"><Icons.Pill size={16} className="text-emerald-600" /> Today's Medicines</h3>
+        {adherence !== undefined && (
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{adherence}% taken · {DEFAULT_REMINDER_CONFIG.adherenceDays} days</span>
+        )}
+      </div>
+
+      {due.length > 0 && (
+        <p className="mb-4 px-4 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-xs font-bold text-amber-800">
+          {due.length === 1 ? `Time to take ${due[0].medication.name}` : `${due.length} doses are due now`}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {today.map(slot => {
+          const key = `${slot.medication.id}-${slot.scheduledFor}`;
+          const scheduled = new Date(slot.scheduledFor).getTime();
+          const isDue = dueKeys.has(key);
+          const isMissed = !slot.dose && scheduled < missedBefore;
+          const canAnswer = !slot.dose && (isDue || isMissed);
+          return (
+            <div key={key} className={`flex items-center gap-3 p-3 rounded-2xl ${isDue ? 'bg-amber-50' : 'bg-slate-50'}`}>
+              <span className="text-[11px] font-black text-slate-500 w-12">{formatTime(slot.scheduledFor)}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-black text-slate-900 truncate">{slot.medication.name}</p>
+                <p className="text-[10px] font-bold text-slate-400 truncate">{slot.medication.dosage}{slot.medication.instructions ? ` · ${slot.medication.instructions}` : ''}</p>
+              </div>
+              {slot.dose ? (
+                <span className={`text-[10px] font-black uppercase tracking-widest ${slot.dose.status === 'TAKEN' ? 'text-emerald-600' : 'text-slate-400'}`}>
+                  {slot.dose.status === 'TAKEN' ? '✓ Taken' : 'Skipped'}
+                </span>
+              ) : canAnswer ? (
+                <div className="flex items-center gap-2">
+                  {isMissed && <span className="text-[9px] font-black text-rose-500 uppercase tracking-widest">Missed</span>}
+                  <button onClick={() => onRecordDose(slot.medication.id, slot.scheduledFor, 'SKIPPED')} className="px-3 py-1.5 bg-white text-slate-500 border border-slate-200 text-[10px] font-black rounded-lg uppercase tracking-widest">Skip</button>
+                  <button onClick={() => onRecordDose(slot.medication.id, slot.scheduledFor, 'TAKEN')} className="px-3 py-1.5 bg-emerald-600 text-white text-[10px] font-black rounded-lg uppercase tracking-widest">Taken</button>
+                </div>
+              ) : (
+                <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Upcoming</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {permission === 'default' && (
+        <button onClick={enableNotifications} className="mt-4 w-full py-2.5 text-[10px] font-black text-blue-600 uppercase tracking-widest bg-blue-50 rounded-xl">
+          Turn on dose reminders
+        </button>
+      )}
+    </section>
+  );
+};
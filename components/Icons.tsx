@@ -25,7 +25,11 @@ import {
   Heart,
   Camera,
   Paperclip,
-  Image as ImageIcon
+  Image as ImageIcon,
+  Mic,
+  Square,
+  Trash2,
+  Pill
 } from 'lucide-react';
 
 export const Icons = {
@@ -54,5 +58,9 @@ export const Icons = {
   Heart,
   Camera,
   Paperclip,
-  Image: ImageIcon
+  Image: ImageIcon,
+  Mic,
+  Stop: Square,
+  Trash: Trash2,
+  Pill
 };
\ No newline at end of file
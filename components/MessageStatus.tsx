@@ -0,0 +1,34 @@
+import React from 'react';
+import { Message } from '../types';
+import { Icons } from './Icons';
+
+interface Props {
+  message: Message;
+  onRetry?: (messageId: string) => void;
+}
+
+/**
+ * Delivery indicator for outgoing messages: clock while queued, a retry
+ * button once the outbox gives up, a grey tick once delivered and blue
+ * double ticks once the recipient has read it.
+ */
+export const MessageStatus: React.FC<Props> = ({ message, onRetry }) => {
+  if (message.syncStatus === 'PENDING') {
+    return <Icons.Clock size={10} className="inline ml-1 text-gray-400" aria-label="Sending" />;
+  }
+  if (message.syncStatus === 'FAILED') {
+    return (
+      <button
+        onClick={() => onRetry?.(message.id)}
+        className="ml-1 inline-flex items-center gap-0.5 text-rose-500 font-semibold hover:underline"
+        title="Not sent. Tap to retry."
+      >
+        <Icons.Alert size={10} /> Retry
+      </button>
+    );
+  }
+  if (message.readAt) {
+    return <span className="ml-1 text-blue-400" title={`Read ${new Date(message.readAt).toLocaleString()}`}>✓✓</span>;
+  }
+  return <span className="ml-1 text-gray-400" title={message.deliveredAt ? `Delivered ${new Date(message.deliveredAt).toLocaleString()}` : 'Delivered'}>✓</span>;
+};
@@ -1,22 +1,51 @@
-import React, { useMemo, useState, useRef } from 'react';
-import { Patient, VitalSign, Message } from '../types';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Patient, VitalSign, Message, DoseStatus } from '../types';
 import { Icons } from './Icons';
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
 import { PatientSimulator } from './PatientSimulator'; 
+import { AudioMessage } from './AudioMessage';
+import { DoseReminders } from './DoseReminders';
+import { VitalsExplorer } from './VitalsExplorer';
+import { TargetStatus, formatTarget, targetFor, targetStatus } from '../services/carePlanService';
+import { messageTypeForFile } from '../services/attachmentService';
+import { FORMAT_LABELS, WearableImport, importWearableExport, rangeStart, wearableDaysInRange } from '../services/wearableImportService';
+import { DATE_RANGES, DateRangeId, resolveDateRange } from '../services/vitalsExplorerService';
+import { toLocalDate } from '../services/medicationService';
+import { unreadCount } from '../services/receiptService';
 
 interface Props {
   patient: Patient;
   onLogout: () => void;
-  onSendMessage: (text: string, type: 'TEXT' | 'IMAGE' | 'DOCUMENT', fileName?: string) => void;
+  onSendMessage: (text: string, type: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO', fileName?: string) => void;
+  onLogMeal: (imageUrl: string, fileName?: string) => void;
   isProcessing: boolean;
+  onRetryMessage: (messageId: string) => void;
+  onRecordDose: (medicationId: string, scheduledFor: string, status: DoseStatus) => void;
+  onImportWearable: (imported: WearableImport) => Promise<void>;
+  onMarkRead: () => void;
 }
 
-export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMessage, isProcessing }) => {
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMessage, onLogMeal, isProcessing, onRetryMessage, onRecordDose, onImportWearable, onMarkRead }) => {
   const [activeTab, setActiveTab] = useState<'DASHBOARD' | 'CHAT' | 'RECORDS' | 'FOOD'>('DASHBOARD');
-  const [chartMode, setChartMode] = useState<'GLUCOSE' | 'BP' | 'HR' | 'TEMP' | 'URINE'>('GLUCOSE');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [recordFilter, setRecordFilter] = useState<'ALL' | 'FILES' | 'CHATS'>('ALL');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mealInputRef = useRef<HTMLInputElement>(null);
+  const wearableInputRef = useRef<HTMLInputElement>(null);
+  const [wearableRange, setWearableRange] = useState<DateRangeId>('7D');
+  const [customFrom, setCustomFrom] = useState(() => rangeStart(30));
+  const [customTo, setCustomTo] = useState(() => toLocalDate(new Date()));
+  const [wearableStatus, setWearableStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const unread = unreadCount(patient, 'PATIENT');
+
+  // Opening the chat reads the care team's messages
+  useEffect(() => {
+    if (activeTab === 'CHAT' && unread > 0) onMarkRead();
+  }, [activeTab, unread]);
 
   const getVital = (type: VitalSign['type']) => {
     const sorted = [...patient.vitalsHistory]
@@ -25,44 +54,68 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
     return sorted[0] || null;
   };
 
-  const chartData = useMemo(() => {
-    const sorted = [...patient.vitalsHistory].sort((a,b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    if (chartMode === 'BP') {
-        const sys = sorted.filter(v => v.type === 'BP_SYSTOLIC');
-        const dia = sorted.filter(v => v.type === 'BP_DIASTOLIC');
-        return sys.map((s, i) => ({
-             time: new Date(s.timestamp).toLocaleDateString([], { weekday: 'short' }),
-             sys: s.value,
-             dia: dia[i]?.value || null
-        })).slice(-7);
+  const statusOf = (...types: VitalSign['type'][]): TargetStatus | undefined => {
+    const statuses = types
+      .map(type => getVital(type))
+      .map(v => v ? targetStatus(patient.carePlan, v) : undefined)
+      .filter((s): s is TargetStatus => !!s);
+    if (statuses.length === 0) return undefined;
+    return statuses.find(s => s !== 'IN_RANGE') || 'IN_RANGE';
+  };
+
+  const targetLabel = (...types: VitalSign['type'][]) =>
+    types.map(type => targetFor(patient.carePlan, type)).map(t => t ? formatTarget(t) : '—').join(' / ');
+
+  const stepsGoal = patient.carePlan?.goals.dailySteps ?? 5000;
+  const sleepGoal = patient.carePlan?.goals.sleepHours;
+
+  const wearableData = useMemo(() => {
+    const range = resolveDateRange(wearableRange, { from: customFrom, to: customTo });
+    return wearableDaysInRange(patient.wearableHistory, range.from, range.to).map(d => ({ ...d, label: shortDate(d.date) }));
+  }, [patient.wearableHistory, wearableRange, customFrom, customTo]);
+
+  const handleWearableUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setWearableStatus(null);
+    try {
+      const imported = importWearableExport(file.name, await file.text());
+      await onImportWearable(imported);
+      const readings = imported.vitals.length > 0 ? `, ${imported.vitals.length} daily heart rate/SpO2 readings` : '';
+      setWearableStatus({ ok: true, text: `Imported ${imported.days.length} days from ${FORMAT_LABELS[imported.format]}${readings}` });
+    } catch (err) {
+      setWearableStatus({ ok: false, text: err instanceof Error ? err.message : 'Could not read this file' });
+    } finally {
+      setIsImporting(false);
     }
-    const typeKeyMap: Record<string, VitalSign['type']> = {
-      'GLUCOSE': 'GLUCOSE',
-      'HR': 'HEART_RATE',
-      'TEMP': 'TEMP',
-      'URINE': 'URINE_OUTPUT'
-    };
-    return sorted.filter(v => v.type === typeKeyMap[chartMode]).map(g => ({
-        time: new Date(g.timestamp).toLocaleDateString([], { weekday: 'short' }),
-        value: g.value
-    })).slice(-7);
-  }, [patient, chartMode]);
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       const url = URL.createObjectURL(file);
-      onSendMessage(url, 'IMAGE', file.name);
+      onSendMessage(url, messageTypeForFile(file), file.name);
       setActiveTab('RECORDS');
     }
   };
 
+  const handleMealUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onLogMeal(URL.createObjectURL(file), file.name);
+    }
+    e.target.value = '';
+  };
+
   const filteredRecords = useMemo(() => {
     let records = [...patient.messages];
     if (recordFilter === 'FILES') {
       records = records.filter(m => m.type === 'IMAGE' || m.type === 'DOCUMENT');
     } else if (recordFilter === 'CHATS') {
-      records = records.filter(m => m.type === 'TEXT');
+      records = records.filter(m => m.type === 'TEXT' || m.type === 'AUDIO');
     }
     return records.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }, [patient.messages, recordFilter]);
@@ -98,7 +151,12 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
               activeTab === tab.id ? 'bg-slate-900 text-white shadow-xl' : 'text-slate-400 hover:bg-slate-50'
             }`}
           >
-            <tab.icon size={18} />
+            <span className="relative">
+              <tab.icon size={18} />
+              {tab.id === 'CHAT' && unread > 0 && activeTab !== 'CHAT' && (
+                <span className="absolute -top-1.5 -right-2.5 min-w-[16px] h-4 px-1 bg-emerald-500 text-white text-[9px] rounded-full flex items-center justify-center">{unread}</span>
+              )}
+            </span>
             <span>{tab.label}</span>
           </button>
         ))}
@@ -107,63 +165,84 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
       <div className="flex-1 overflow-y-auto custom-scrollbar">
         {activeTab === 'DASHBOARD' ? (
           <div className="p-6 space-y-6 max-w-lg mx-auto pb-24">
-            
+
+            <DoseReminders patient={patient} onRecordDose={onRecordDose} />
+
             {/* Quick Summary Grid */}
             <div className="grid grid-cols-2 gap-4">
                {[
-                 { label: 'Sugar', val: getVital('GLUCOSE')?.value || '--', unit: 'mg/dL', color: 'emerald', icon: Icons.Droplet },
-                 { label: 'BP', val: getVital('BP_SYSTOLIC') ? `${getVital('BP_SYSTOLIC')?.value}/${getVital('BP_DIASTOLIC')?.value}` : '--', unit: 'mmHg', color: 'rose', icon: Icons.Activity },
-                 { label: 'Pulse', val: getVital('HEART_RATE')?.value || '--', unit: 'bpm', color: 'pink', icon: Icons.Heart },
-                 { label: 'Temp', val: getVital('TEMP')?.value || '--', unit: '°F', color: 'orange', icon: Icons.Thermometer },
-                 { label: 'Urine', val: getVital('URINE_OUTPUT')?.value || '--', unit: 'ml/day', color: 'amber', icon: Icons.Droplet },
-               ].map((v, i) => (
-                  <div key={i} className="bg-white p-5 rounded-3xl shadow-sm border border-slate-100">
-                    <div className={`p-2 w-fit rounded-xl bg-${v.color}-50 text-${v.color}-600 mb-4`}><v.icon size={20} /></div>
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{v.label}</p>
-                    <div className="flex items-baseline gap-1 mt-1">
-                      <span className="text-2xl font-black text-slate-900 tracking-tighter">{v.val}</span>
-                      <span className="text-[10px] font-bold text-slate-400">{v.unit}</span>
+                 { label: 'Sugar', val: getVital('GLUCOSE')?.value || '--', unit: 'mg/dL', color: 'emerald', icon: Icons.Droplet, types: ['GLUCOSE'] },
+                 { label: 'BP', val: getVital('BP_SYSTOLIC') ? `${getVital('BP_SYSTOLIC')?.value}/${getVital('BP_DIASTOLIC')?.value}` : '--', unit: 'mmHg', color: 'rose', icon: Icons.Activity, types: ['BP_SYSTOLIC', 'BP_DIASTOLIC'] },
+                 { label: 'Pulse', val: getVital('HEART_RATE')?.value || '--', unit: 'bpm', color: 'pink', icon: Icons.Heart, types: ['HEART_RATE'] },
+                 { label: 'Temp', val: getVital('TEMP')?.value || '--', unit: '°F', color: 'orange', icon: Icons.Thermometer, types: ['TEMP'] },
+                 { label: 'Urine', val: getVital('URINE_OUTPUT')?.value || '--', unit: 'ml/day', color: 'amber', icon: Icons.Droplet, types: ['URINE_OUTPUT'] },
+               ].map((v, i) => {
+                  const types = v.types as VitalSign['type'][];
+                  const status = statusOf(...types);
+                  return (
+                    <div key={i} className={`bg-white p-5 rounded-3xl shadow-sm border ${status === 'IN_RANGE' ? 'border-emerald-200' : status ? 'border-rose-200' : 'border-slate-100'}`}>
+                      <div className={`p-2 w-fit rounded-xl bg-${v.color}-50 text-${v.color}-600 mb-4`}><v.icon size={20} /></div>
+                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{v.label}</p>
+                      <div className="flex items-baseline gap-1 mt-1">
+                        <span className={`text-2xl font-black tracking-tighter ${status === 'IN_RANGE' ? 'text-emerald-600' : status ? 'text-rose-600' : 'text-slate-900'}`}>{v.val}</span>
+                        <span className="text-[10px] font-bold text-slate-400">{v.unit}</span>
+                      </div>
+                      {status && (
+                        <p className={`text-[9px] font-black uppercase tracking-widest mt-2 ${status === 'IN_RANGE' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {status === 'IN_RANGE' ? 'On target' : status === 'ABOVE' ? 'Above target' : 'Below target'} · {targetLabel(...types)}
+                        </p>
+                      )}
                     </div>
-                  </div>
-               ))}
+                  );
+               })}
             </div>
 
             {/* Vital Trend Analysis */}
             <section className="bg-white rounded-[32px] p-8 shadow-sm border border-slate-100">
-                <div className="flex justify-between items-center mb-8">
-                    <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest">Biometric Trends</h3>
-                    <select 
-                      value={chartMode} 
-                      onChange={(e) => setChartMode(e.target.value as any)}
-                      className="text-[10px] font-black bg-slate-50 border-none rounded-lg py-1 px-3 text-slate-600 focus:ring-0"
-                    >
-                      <option value="GLUCOSE">Glucose</option>
-                      <option value="BP">BP</option>
-                      <option value="HR">Pulse</option>
-                      <option value="TEMP">Temp</option>
-                      <option value="URINE">Urine</option>
-                    </select>
-                </div>
-                <div className="h-48 w-full">
-                    <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={chartData}>
-                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="time" tick={{fontSize: 9, fill: '#94a3b8', fontWeight: 800}} axisLine={false} tickLine={false} />
-                        <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
-                        {chartMode === 'BP' ? (
-                             <>
-                                <Line type="monotone" dataKey="sys" stroke="#f43f5e" strokeWidth={4} dot={false} />
-                                <Line type="monotone" dataKey="dia" stroke="#3b82f6" strokeWidth={4} dot={false} />
-                             </>
-                        ) : (
-                            <Line type="monotone" dataKey="value" stroke="#10b981" strokeWidth={5} dot={{r: 4, fill: 'white', strokeWidth: 3, stroke: '#10b981'}} />
-                        )}
-                    </LineChart>
-                    </ResponsiveContainer>
-                </div>
+                <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest mb-6">Biometric Trends</h3>
+                <VitalsExplorer patient={patient} />
             </section>
 
             {/* Wearable Analytics: Steps & Sleep */}
+            <section className="bg-white rounded-[32px] p-6 shadow-sm border border-slate-100 space-y-4">
+               <div className="flex items-center justify-between">
+                 <div className="flex items-center gap-3">
+                   <div className="p-2 bg-slate-50 text-slate-600 rounded-xl"><Icons.Watch size={20}/></div>
+                   <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest">Wearable Data</h3>
+                 </div>
+                 <button
+                   onClick={() => wearableInputRef.current?.click()}
+                   disabled={isImporting}
+                   className="px-3 py-2 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest rounded-xl disabled:opacity-50"
+                 >
+                   {isImporting ? 'Importing…' : 'Import'}
+                 </button>
+                 <input type="file" ref={wearableInputRef} className="hidden" accept=".xml,.json,.csv,text/csv,application/json,text/xml" onChange={handleWearableUpload} />
+               </div>
+               <p className="text-[10px] font-bold text-slate-400">Apple Health export.xml, Google Fit / Health Connect JSON, or a CSV with date, steps, sleep_hours, resting_hr, spo2.</p>
+               {wearableStatus && (
+                 <p className={`text-[10px] font-black ${wearableStatus.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{wearableStatus.text}</p>
+               )}
+               <div className="flex gap-1">
+                 {DATE_RANGES.map(range => (
+                   <button
+                     key={range.id}
+                     onClick={() => setWearableRange(range.id)}
+                     className={`flex-1 py-1.5 text-[10px] font-black rounded-lg uppercase tracking-widest ${wearableRange === range.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500'}`}
+                   >
+                     {range.label}
+                   </button>
+                 ))}
+               </div>
+               {wearableRange === 'CUSTOM' && (
+                 <div className="flex items-center gap-2">
+                   <input type="date" value={customFrom} max={customTo || undefined} onChange={e => setCustomFrom(e.target.value)} className="flex-1 text-[11px] font-bold bg-slate-50 border-none rounded-lg px-2 py-1.5 text-slate-600" />
+                   <span className="text-[10px] font-black text-slate-400">to</span>
+                   <input type="date" value={customTo} min={customFrom || undefined} onChange={e => setCustomTo(e.target.value)} className="flex-1 text-[11px] font-bold bg-slate-50 border-none rounded-lg px-2 py-1.5 text-slate-600" />
+                 </div>
+               )}
+            </section>
+
             <div className="grid grid-cols-1 gap-6">
                <section className="bg-white rounded-[32px] p-8 shadow-sm border border-slate-100">
                   <div className="flex items-center gap-3 mb-6">
@@ -171,17 +250,22 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
                     <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest">Physical Activity (Steps)</h3>
                   </div>
                   <div className="h-40 w-full">
+                    {wearableData.length === 0 ? (
+                      <p className="h-full flex items-center justify-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">No data in this range</p>
+                    ) : (
                     <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={patient.wearableHistory}>
-                        <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 700}} />
+                      <BarChart data={wearableData}>
+                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 700}} minTickGap={12} />
                         <Tooltip cursor={{fill: 'transparent'}} />
                         <Bar dataKey="steps" radius={[10, 10, 0, 0]}>
-                          {patient.wearableHistory.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={entry.steps > 5000 ? '#6366f1' : '#cbd5e1'} />
+                          {wearableData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={(entry.steps ?? 0) >= stepsGoal ? '#6366f1' : '#cbd5e1'} />
                           ))}
                         </Bar>
+                        {patient.carePlan?.goals.dailySteps && <ReferenceLine y={stepsGoal} stroke="#6366f1" strokeDasharray="4 4" ifOverflow="extendDomain" />}
                       </BarChart>
                     </ResponsiveContainer>
+                    )}
                   </div>
                </section>
 
@@ -191,45 +275,67 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
                     <h3 className="font-black text-slate-900 text-[11px] uppercase tracking-widest">Sleep Cycle (Hours)</h3>
                   </div>
                   <div className="h-40 w-full">
+                    {wearableData.length === 0 ? (
+                      <p className="h-full flex items-center justify-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">No data in this range</p>
+                    ) : (
                     <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={patient.wearableHistory}>
-                        <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 700}} />
+                      <BarChart data={wearableData}>
+                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fontSize: 10, fontWeight: 700}} minTickGap={12} />
                         <Tooltip cursor={{fill: 'transparent'}} />
                         <Bar dataKey="sleepHours" fill="#a855f7" radius={[10, 10, 0, 0]} />
+                        {sleepGoal && <ReferenceLine y={sleepGoal} stroke="#a855f7" strokeDasharray="4 4" ifOverflow="extendDomain" />}
                       </BarChart>
                     </ResponsiveContainer>
+                    )}
                   </div>
                </section>
+
             </div>
           </div>
         ) : activeTab === 'FOOD' ? (
           <div className="p-6 pb-24 max-w-lg mx-auto space-y-6">
              <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-black text-slate-900 tracking-tighter">Food Plate Analysis</h2>
-                <button onClick={() => fileInputRef.current?.click()} className="p-3 bg-blue-600 text-white rounded-2xl shadow-lg shadow-blue-100"><Icons.Camera size={20}/></button>
+                <button onClick={() => mealInputRef.current?.click()} disabled={isProcessing} className="p-3 bg-blue-600 text-white rounded-2xl shadow-lg shadow-blue-100 disabled:opacity-50">
+                  {isProcessing ? <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" /> : <Icons.Camera size={20}/>}
+                </button>
              </div>
-             <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileUpload} />
+             <input type="file" ref={mealInputRef} className="hidden" accept="image/*" onChange={handleMealUpload} />
+
+             {patient.foodLogs.length === 0 && (
+               <div className="text-center py-20 text-slate-400">
+                 <p className="text-xs font-bold uppercase tracking-widest">Snap your plate to log a meal</p>
+               </div>
+             )}
              
              {patient.foodLogs.map(log => (
                <div key={log.id} className="bg-white rounded-[32px] p-6 shadow-sm border border-slate-100 space-y-4">
                   <div className="flex gap-4">
                     <img src={log.imageUrl} className="w-24 h-24 rounded-2xl object-cover shadow-md" alt="Meal" />
                     <div className="flex-1 space-y-1">
-                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{log.analysis.mealType} • {new Date(log.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
-                       <h4 className="text-lg font-black text-slate-900">{log.analysis.caloriesEstimate} <span className="text-xs font-bold text-slate-400">kcal</span></h4>
-                       <div className={`px-2 py-0.5 w-fit rounded-lg text-[9px] font-black uppercase ${log.analysis.flag === 'Balanced' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{log.analysis.flag}</div>
+                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{log.analysis?.mealType ?? 'Meal'} • {new Date(log.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</p>
+                       {log.analysis ? (
+                         <>
+                           <h4 className="text-lg font-black text-slate-900">{log.analysis.caloriesEstimate} <span className="text-xs font-bold text-slate-400">kcal</span></h4>
+                           <div className={`px-2 py-0.5 w-fit rounded-lg text-[9px] font-black uppercase ${log.analysis.flag === 'Balanced' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>{log.analysis.flag}</div>
+                         </>
+                       ) : (
+                         <p className="text-xs font-bold text-slate-500">Logged. Nutrition estimate unavailable offline.</p>
+                       )}
                     </div>
                   </div>
-                  <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-50">
-                     <div className="text-center">
-                        <p className="text-[9px] font-black text-slate-400 uppercase">Carbs</p>
-                        <p className="text-sm font-black text-slate-700">{log.analysis.carbs}</p>
-                     </div>
-                     <div className="text-center">
-                        <p className="text-[9px] font-black text-slate-400 uppercase">Protein</p>
-                        <p className="text-sm font-black text-slate-700">{log.analysis.protein}</p>
-                     </div>
-                  </div>
+                  {log.analysis && (
+                    <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-50">
+                       <div className="text-center">
+                          <p className="text-[9px] font-black text-slate-400 uppercase">Carbs</p>
+                          <p className="text-sm font-black text-slate-700">{log.analysis.carbs}</p>
+                       </div>
+                       <div className="text-center">
+                          <p className="text-[9px] font-black text-slate-400 uppercase">Protein</p>
+                          <p className="text-sm font-black text-slate-700">{log.analysis.protein}</p>
+                       </div>
+                    </div>
+                  )}
                </div>
              ))}
           </div>
@@ -283,6 +389,11 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
                          <div className="space-y-3">
                             <img src={msg.content} className="w-full h-40 object-cover rounded-2xl border border-slate-50 shadow-sm" alt="Clinical record" />
                             {msg.fileName && <p className="text-xs font-bold text-slate-700 flex items-center gap-2"><Icons.Image size={14}/> {msg.fileName}</p>}
+                            {msg.caption && <p className="text-xs font-bold text-slate-700 leading-relaxed">{msg.caption}</p>}
+                         </div>
+                       ) : msg.type === 'AUDIO' ? (
+                         <div className="p-3 bg-slate-50/50 rounded-xl border border-slate-50">
+                            <AudioMessage message={msg} transcriptClassName="text-slate-700 font-bold" />
                          </div>
                        ) : msg.type === 'DOCUMENT' ? (
                          <div className="flex items-center gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
@@ -290,6 +401,7 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
                             <div className="flex-1 min-w-0">
                                <p className="text-xs font-black text-slate-700 truncate">{msg.fileName || 'Clinical Document'}</p>
                                <p className="text-[9px] font-bold text-slate-400 uppercase">PDF Attachment</p>
+                               {msg.caption && <p className="text-xs font-bold text-slate-700 leading-relaxed mt-1">{msg.caption}</p>}
                             </div>
                          </div>
                        ) : (
@@ -308,6 +420,7 @@ export const PatientDashboard: React.FC<Props> = ({ patient, onLogout, onSendMes
                 patient={patient} 
                 onSendMessage={onSendMessage} 
                 isTyping={isProcessing} 
+                onRetryMessage={onRetryMessage}
              />
           </div>
         )}
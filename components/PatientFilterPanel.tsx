@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { RiskLevel } from '../types';
+import {
+  FacetOption,
+  FilterPreset,
+  NO_CONTACT_OPTIONS,
+  PatientFilters,
+  PatientSort,
+  SORT_LABELS
+} from '../services/patientFilterService';
+
+interface Props {
+  filters: PatientFilters;
+  onChange: (filters: PatientFilters) => void;
+  onClear: () => void;
+  facets: { conditions: FacetOption[]; themes: FacetOption[] };
+  presets: FilterPreset[];
+  onSavePreset: (name: string) => void;
+  onApplyPreset: (preset: FilterPreset) => void;
+  onDeletePreset: (presetId: string) => void;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg text-[10px] font-black border transition-colors ${
+    active ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+  }`;
+
+const sectionLabel = 'text-[9px] font-black text-slate-400 uppercase tracking-widest';
+
+export const PatientFilterPanel: React.FC<Props> = ({ filters, onChange, onClear, facets, presets, onSavePreset, onApplyPreset, onDeletePreset }) => {
+  const [presetName, setPresetName] = useState('');
+  const update = (changes: Partial<PatientFilters>) => onChange({ ...filters, ...changes });
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-4 max-h-[45vh] overflow-y-auto custom-scrollbar pr-1">
+      <div className="space-y-2">
+        <p className={sectionLabel}>Risk</p>
+        <div className="flex flex-wrap gap-1.5">
+          {[RiskLevel.CRITICAL, RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW].map(level => (
+            <button key={level} onClick={() => update({ risk: toggle(filters.risk, level) })} className={chipClass(filters.risk.includes(level))}>{level}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className={sectionLabel}>Flag</span>
+          <select value={filters.flag} onChange={(e) => update({ flag: e.target.value as PatientFilters['flag'] })} className="w-full bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5 text-[11px] font-bold outline-none">
+            <option value="ANY">Any</option>
+            <option value="FLAGGED">Flagged</option>
+            <option value="UNFLAGGED">Not flagged</option>
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className={sectionLabel}>No contact in</span>
+          <select
+            value={filters.noContactDays ?? ''}
+            onChange={(e) => update({ noContactDays: e.target.value ? Number(e.target.value) : undefined })}
+            className="w-full bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5 text-[11px] font-bold outline-none"
+          >
+            <option value="">Any time</option>
+            {NO_CONTACT_OPTIONS.map(days => <option key={days} value={days}>{days}+ day{days === 1 ? '' : 's'}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {facets.conditions.length > 0 && (
+        <div className="space-y-2">
+          <p className={sectionLabel}>Condition</p>
+          <div className="flex flex-wrap gap-1.5">
+            {facets.conditions.map(({ value, count }) => (
+              <button key={value} onClick={() => update({ conditions: toggle(filters.conditions, value) })} className={chipClass(filters.conditions.includes(value))}>
+                {value} <span className="opacity-60">{count}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {facets.themes.length > 0 && (
+        <div className="space-y-2">
+          <p className={sectionLabel}>Insight theme</p>
+          <div className="flex flex-wrap gap-1.5">
+            {facets.themes.map(({ value, count }) => (
+              <button key={value} onClick={() => update({ themes: toggle(filters.themes, value) })} className={chipClass(filters.themes.includes(value))}>
+                {value} <span className="opacity-60">{count}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-slate-100">
+        <p className={sectionLabel}>Saved filters</p>
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {presets.map(preset => (
+              <span key={preset.id} className="flex items-center bg-blue-50 text-blue-700 rounded-lg text-[10px] font-black">
+                <button onClick={() => onApplyPreset(preset)} className="pl-2.5 py-1 hover:underline">{preset.name}</button>
+                <button onClick={() => onDeletePreset(preset.id)} className="px-1.5 py-1 text-blue-400 hover:text-rose-600" aria-label={`Delete ${preset.name}`}>×</button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Name these filters…"
+            className="flex-1 bg-slate-50 border border-slate-100 rounded-lg px-2 py-1.5 text-[11px] font-bold outline-none"
+          />
+          <button onClick={handleSavePreset} disabled={!presetName.trim()} className="px-3 py-1.5 bg-slate-900 text-white text-[10px] font-black rounded-lg uppercase disabled:opacity-40">Save</button>
+          <button onClick={onClear} className="px-3 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black rounded-lg uppercase">Clear</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const SortSelect: React.FC<{ value: PatientSort; onChange: (sort: PatientSort) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as PatientSort)} className="bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-[11px] font-bold text-slate-600 outline-none">
+    {(Object.keys(SORT_LABELS) as PatientSort[]).map(sort => <option key={sort} value={sort}>Sort: {SORT_LABELS[sort]}</option>)}
+  </select>
+);
@@ -1,14 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Message, Patient } from '../types';
 import { Icons } from './Icons';
+import { MessageStatus } from './MessageStatus';
+import { AudioMessage } from './AudioMessage';
+import { VoiceRecorder } from './VoiceRecorder';
+import { messageTypeForFile } from '../services/attachmentService';
 
 interface Props {
   patient: Patient;
-  onSendMessage: (content: string, type: 'TEXT' | 'IMAGE') => void;
+  onSendMessage: (content: string, type: 'TEXT' | 'IMAGE' | 'DOCUMENT' | 'AUDIO', fileName?: string) => void;
   isTyping: boolean;
+  onRetryMessage?: (messageId: string) => void;
 }
 
-export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTyping }) => {
+export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTyping, onRetryMessage }) => {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -28,8 +33,8 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const imageUrl = URL.createObjectURL(file);
-      onSendMessage(imageUrl, 'IMAGE');
+      const fileUrl = URL.createObjectURL(file);
+      onSendMessage(fileUrl, messageTypeForFile(file), file.name);
     }
   };
 
@@ -66,6 +71,8 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
                 <div className="mb-1">
                   <img src={msg.content} alt="Attachment" className="rounded-lg max-h-48 object-cover w-full border border-black/5" />
                 </div>
+              ) : msg.type === 'AUDIO' ? (
+                <AudioMessage message={msg} />
               ) : msg.type === 'DOCUMENT' ? (
                  <div className="flex items-center gap-3 bg-white/50 p-2 rounded border border-gray-200">
                     <div className="p-2 bg-red-100 rounded-lg text-red-500">
@@ -82,7 +89,7 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
               
               <span className="text-[10px] text-gray-500 block text-right mt-1 opacity-70">
                 {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                {msg.sender === 'PATIENT' && <span className="ml-1 text-blue-400">✓✓</span>}
+                {msg.sender === 'PATIENT' && <MessageStatus message={msg} onRetry={onRetryMessage} />}
               </span>
             </div>
           </div>
@@ -107,7 +114,7 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
         <button 
            onClick={() => fileInputRef.current?.click()}
            className="p-2 text-gray-500 hover:bg-gray-200 rounded-full transition-colors flex-shrink-0"
-           title="Send Photo"
+           title="Send Photo or Report"
         >
            <Icons.Camera size={22} />
         </button>
@@ -115,7 +122,7 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
            type="file" 
            ref={fileInputRef} 
            className="hidden" 
-           accept="image/*"
+           accept="image/*,application/pdf,audio/*"
            onChange={handleImageUpload}
         />
 
@@ -130,13 +137,17 @@ export const PatientSimulator: React.FC<Props> = ({ patient, onSendMessage, isTy
             disabled={isTyping}
             />
         </div>
-        <button 
-            onClick={handleSend}
-            disabled={!input.trim() || isTyping}
-            className="w-10 h-10 bg-[#075e54] rounded-full flex items-center justify-center text-white shadow-md hover:bg-[#128c7e] transition-colors disabled:opacity-50 flex-shrink-0"
-        >
-            <Icons.Send size={18} />
-        </button>
+        {input.trim() ? (
+          <button 
+              onClick={handleSend}
+              disabled={isTyping}
+              className="w-10 h-10 bg-[#075e54] rounded-full flex items-center justify-center text-white shadow-md hover:bg-[#128c7e] transition-colors disabled:opacity-50 flex-shrink-0"
+          >
+              <Icons.Send size={18} />
+          </button>
+        ) : (
+          <VoiceRecorder onRecorded={(url, fileName) => onSendMessage(url, 'AUDIO', fileName)} disabled={isTyping} />
+        )}
       </div>
     </div>
   );
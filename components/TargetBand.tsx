@@ -0,0 +1,9 @@
+import React from 'react';
+
+/**
+ * `shape` renderer for recharts' ReferenceArea that draws a care plan target
+ * range as a translucent band behind the series.
+ */
+export const targetBandShape = (color: string, opacity = 0.1) => (props: { x?: number; y?: number; width?: number; height?: number }) => (
+  <rect x={props.x} y={props.y} width={props.width} height={props.height} fill={color} fillOpacity={opacity} />
+);
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Patient } from '../types';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { targetBandShape } from './TargetBand';
+import { formatTarget } from '../services/carePlanService';
+import { toLocalDate } from '../services/medicationService';
+import { rangeStart } from '../services/wearableImportService';
+import {
+  DATE_RANGES,
+  DateRangeId,
+  EXPLORER_METRICS,
+  ExplorerMetric,
+  buildSeries,
+  chartRows,
+  resolveDateRange,
+  seriesStats
+} from '../services/vitalsExplorerService';
+
+interface Props {
+  patient: Patient;
+  initialMetric?: ExplorerMetric;
+  initialRange?: DateRangeId;
+  /** `compact` fits the patient's phone layout; `detailed` shows axes and an area fill. */
+  variant?: 'compact' | 'detailed';
+}
+
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+const formatTick = (time: number) => new Date(time).toLocaleDateString([], { day: 'numeric', month: 'short' });
+
+const formatTooltipLabel = (time: number) =>
+  new Date(time).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const VitalsExplorer: React.FC<Props> = ({ patient, initialMetric = 'GLUCOSE', initialRange = 'ALL', variant = 'compact' }) => {
+  const [metric, setMetric] = useState<ExplorerMetric>(initialMetric);
+  const [overlay, setOverlay] = useState<ExplorerMetric | ''>('');
+  const [rangeId, setRangeId] = useState<DateRangeId>(initialRange);
+  const [customFrom, setCustomFrom] = useState(() => rangeStart(30));
+  const [customTo, setCustomTo] = useState(() => toLocalDate(new Date()));
+  const detailed = variant === 'detailed';
+
+  const range = useMemo(() => resolveDateRange(rangeId, { from: customFrom, to: customTo }), [rangeId, customFrom, customTo]);
+  const primary = useMemo(() => buildSeries(patient, metric, range), [patient, metric, range]);
+  const secondary = useMemo(() => overlay ? buildSeries(patient, overlay, range) : undefined, [patient, overlay, range]);
+  const rows = useMemo(() => chartRows([
+    { prefix: 'p_', series: primary },
+    ...(secondary ? [{ prefix: 'o_', series: secondary }] : [])
+  ]), [primary, secondary]);
+
+  const targets = primary.lines.map(line => line.target);
+  const gradientId = `explorer-${patient.id}`;
+  const selectClass = `font-black bg-slate-50 border-none rounded-lg py-1 px-3 text-slate-600 focus:ring-0 ${detailed ? 'text-xs' : 'text-[10px]'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={metric} onChange={(e) => setMetric(e.target.value as ExplorerMetric)} className={selectClass}>
+          {EXPLORER_METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        <select value={overlay} onChange={(e) => setOverlay(e.target.value as ExplorerMetric | '')} className={selectClass}>
+          <option value="">No overlay</option>
+          {EXPLORER_METRICS.filter(m => m.id !== metric).map(m => <option key={m.id} value={m.id}>vs. {m.label}</option>)}
+        </select>
+        <div className="flex gap-1 ml-auto">
+          {DATE_RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRangeId(r.id)}
+              className={`px-2 py-1 text-[10px] font-black rounded-lg uppercase tracking-widest ${rangeId === r.id ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-500'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rangeId === 'CUSTOM' && (
+        <div className="flex items-center gap-2">
+          <input type="date" value={customFrom} max={customTo || undefined} onChange={e => setCustomFrom(e.target.value)} className="flex-1 text-[11px] font-bold bg-slate-50 border-none rounded-lg px-2 py-1.5 text-slate-600" />
+          <span className="text-[10px] font-black text-slate-400">to</span>
+          <input type="date" value={customTo} min={customFrom || undefined} onChange={e => setCustomTo(e.target.value)} className="flex-1 text-[11px] font-bold bg-slate-50 border-none rounded-lg px-2 py-1.5 text-slate-600" />
+        </div>
+      )}
+
+      <div className={detailed ? 'h-[400px] w-full' : 'h-48 w-full'}>
+        {rows.length === 0 ? (
+          <p className="h-full flex items-center justify-center text-[10px] font-bold text-slate-400 uppercase tracking-widest">No readings in this range</p>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows}>
+              {detailed && (
+                <defs>
+                  <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={primary.lines[0].color} stopOpacity={0.1}/>
+                    <stop offset="95%" stopColor={primary.lines[0].color} stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+              )}
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTick} tick={{fontSize: 9, fill: '#94a3b8', fontWeight: 800}} axisLine={false} tickLine={false} minTickGap={16} />
+              <YAxis yAxisId="primary" hide={!detailed} domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={{fontSize: 11, fontWeight: 700, fill: '#94a3b8'}} />
+              <YAxis yAxisId="overlay" orientation="right" hide={!detailed || !secondary} domain={['auto', 'auto']} axisLine={false} tickLine={false} tick={{fontSize: 11, fontWeight: 700, fill: '#94a3b8'}} />
+              <Tooltip labelFormatter={formatTooltipLabel} contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)', fontSize: '12px' }} />
+              {targets[0] && <ReferenceArea yAxisId="primary" y1={targets[0].min} y2={targets[0].max} ifOverflow="extendDomain" shape={targetBandShape(primary.lines[0].color, 0.08)} />}
+              {targets[1] && <ReferenceArea yAxisId="primary" y1={targets[1].min} y2={targets[1].max} ifOverflow="extendDomain" shape={targetBandShape(primary.lines[1].color, 0.08)} />}
+              {primary.lines.map(line => detailed && primary.lines.length === 1 ? (
+                <Area key={line.key} yAxisId="primary" type="monotone" dataKey={`p_${line.key}`} name={`${line.label} (${primary.metric.unit})`} stroke={line.color} strokeWidth={4} fillOpacity={1} fill={`url(#${gradientId})`} connectNulls />
+              ) : (
+                <Line key={line.key} yAxisId="primary" type="monotone" dataKey={`p_${line.key}`} name={`${line.label} (${primary.metric.unit})`} stroke={line.color} strokeWidth={4} dot={{r: 3, fill: 'white', strokeWidth: 2, stroke: line.color}} connectNulls />
+              ))}
+              {secondary?.lines.map(line => (
+                <Line key={`o_${line.key}`} yAxisId="overlay" type="monotone" dataKey={`o_${line.key}`} name={`${line.label} (${secondary.metric.unit})`} stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 4" dot={false} connectNulls />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className={`grid gap-3 ${detailed ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`}>
+        {[...primary.lines.map(line => ({ line, unit: primary.metric.unit })), ...(secondary?.lines.map(line => ({ line, unit: secondary.metric.unit })) ?? [])].map(({ line, unit }, i) => {
+          const stats = seriesStats(line.points, line.target);
+          return (
+            <div key={i} className="bg-slate-50 rounded-2xl p-3">
+              <p className="text-[9px] font-black uppercase tracking-widest" style={{ color: i < primary.lines.length ? line.color : '#94a3b8' }}>{line.label} · {unit}</p>
+              {stats.count === 0 ? (
+                <p className="text-[10px] font-bold text-slate-400 mt-1">No readings</p>
+              ) : (
+                <>
+                  <p className="text-[10px] font-bold text-slate-600 mt-1">
+                    Min {formatNumber(stats.min!)} · Max {formatNumber(stats.max!)} · Mean {formatNumber(stats.mean!)}
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-400">
+                    {stats.count} readings{stats.inRangePercent !== undefined && line.target ? ` · ${stats.inRangePercent}% in ${formatTarget(line.target)}` : ''}
+                  </p>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
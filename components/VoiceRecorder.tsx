@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icons';
+
+interface Props {
+  /** Called with an object URL of the recorded clip; it only lives in this tab, so upload it before persisting. */
+  onRecorded: (audioUrl: string, fileName: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_DURATION_SECONDS = 120;
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Mic button that records a voice note with MediaRecorder. Tap to start, tap
+ * again to send; the bin discards the recording.
+ */
+export const VoiceRecorder: React.FC<Props> = ({ onRecorded, disabled, className = '' }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const discardRef = useRef(false);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setElapsed(s => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (elapsed >= MAX_DURATION_SECONDS) recorderRef.current?.stop();
+  }, [elapsed]);
+
+  // Release the microphone if the chat unmounts mid-recording
+  useEffect(() => () => {
+    discardRef.current = true;
+    recorderRef.current?.stop();
+  }, []);
+
+  const start = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      discardRef.current = false;
+
+      recorder.ondataavailable = e => { if (e.data.size > 0) chunksRef.current.push(e.data); };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(t => t.stop());
+        setIsRecording(false);
+        if (discardRef.current || chunksRef.current.length === 0) return;
+
+        const mimeType = recorder.mimeType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        const extension = mimeType.includes('mp4') ? 'm4a' : mimeType.includes('ogg') ? 'ogg' : 'webm';
+        onRecorded(URL.createObjectURL(blob), `voice-note-${Date.now()}.${extension}`);
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error('[VoiceRecorder] Could not start recording:', err);
+      setError('Microphone unavailable');
+    }
+  };
+
+  const stop = (discard: boolean) => {
+    discardRef.current = discard;
+    recorderRef.current?.stop();
+  };
+
+  if (isRecording) {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        <button onClick={() => stop(true)} className="p-2 text-gray-500 hover:text-rose-500 rounded-full" title="Discard">
+          <Icons.Trash size={18} />
+        </button>
+        <span className="flex items-center gap-1 text-xs font-semibold text-rose-500 tabular-nums">
+          <span className="w-2 h-2 bg-rose-500 rounded-full animate-pulse" /> {formatDuration(elapsed)}
+        </span>
+        <button
+          onClick={() => stop(false)}
+          className="w-10 h-10 bg-rose-500 rounded-full flex items-center justify-center text-white shadow-md flex-shrink-0"
+          title="Stop and send"
+        >
+          <Icons.Stop size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={start}
+      disabled={disabled}
+      className={`w-10 h-10 bg-[#075e54] rounded-full flex items-center justify-center text-white shadow-md hover:bg-[#128c7e] transition-colors disabled:opacity-50 flex-shrink-0 ${className}`}
+      title={error || 'Record voice note'}
+    >
+      <Icons.Mic size={18} />
+    </button>
+  );
+};
@@ -0,0 +1,215 @@
+import { Dose, Patient, RiskLevel, WearableDay } from '../types';
+import { recordDose, toLocalDate } from '../services/medicationService';
+
+/**
+ * Demo dataset used when the app runs in demo mode (DEMO_MODE=true or
+ * ?demo=1). Never loaded alongside real Supabase data.
+ */
+const WEEK_PATTERN = [
+  { steps: 4200, sleepHours: 6.2 },
+  { steps: 5800, sleepHours: 7.1 },
+  { steps: 3100, sleepHours: 5.8 },
+  { steps: 7200, sleepHours: 6.5 },
+  { steps: 8400, sleepHours: 8.0 },
+  { steps: 5100, sleepHours: 7.5 },
+  { steps: 2900, sleepHours: 9.2 },
+];
+
+/**
+ * Four weeks of dated wearable days ending today.
+ */
+export const MOCK_WEARABLE: WearableDay[] = Array.from({ length: 28 }, (_, i) => {
+  const d = new Date();
+  d.setDate(d.getDate() - 27 + i);
+  return { date: toLocalDate(d), ...WEEK_PATTERN[i % WEEK_PATTERN.length], source: 'Google Fit' };
+});
+
+/**
+ * Local time `daysAgo` days back at HH:MM, so demo adherence stays current.
+ */
+const at = (daysAgo: number, time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  const d = new Date();
+  d.setDate(d.getDate() - daysAgo);
+  d.setHours(h, m, 0, 0);
+  return d;
+};
+
+const dose = (medicationId: string, daysAgo: number, time: string, status: Dose['status'] = 'TAKEN') =>
+  recordDose(medicationId, at(daysAgo, time).toISOString(), status, new Date(at(daysAgo, time).getTime() + 10 * 60 * 1000));
+
+const days = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+export const MOCK_PATIENTS: Patient[] = [
+  {
+    id: 'P-1024',
+    name: 'Sarah Devi',
+    phoneNumber: '+919876543210',
+    age: 58,
+    assignedDoctorId: 'D-001',
+    condition: ['Type 2 Diabetes', 'Hypertension'],
+    lastInteraction: new Date().toISOString(),
+    riskStatus: RiskLevel.MEDIUM,
+    isFlagged: false,
+    vitalsHistory: [
+      { type: 'GLUCOSE', value: 140, unit: 'mg/dL', timestamp: '2023-10-22T08:00:00Z' },
+      { type: 'GLUCOSE', value: 165, unit: 'mg/dL', timestamp: '2023-10-23T08:00:00Z' },
+      { type: 'GLUCOSE', value: 155, unit: 'mg/dL', timestamp: '2023-10-24T08:00:00Z' },
+      { type: 'BP_SYSTOLIC', value: 135, unit: 'mmHg', timestamp: '2023-10-24T08:00:00Z' },
+      { type: 'BP_DIASTOLIC', value: 88, unit: 'mmHg', timestamp: '2023-10-24T08:00:00Z' },
+      { type: 'URINE_OUTPUT', value: 1400, unit: 'ml', timestamp: '2023-10-24T08:00:00Z' },
+      { type: 'HEART_RATE', value: 72, unit: 'bpm', timestamp: '2023-10-24T08:00:00Z' },
+      { type: 'TEMP', value: 98.6, unit: '°F', timestamp: '2023-10-24T08:00:00Z' },
+    ],
+    wearableHistory: MOCK_WEARABLE,
+    replyDrafts: [],
+    carePlan: {
+      targets: { GLUCOSE: { min: 80, max: 130 }, BP_SYSTOLIC: { max: 130 }, BP_DIASTOLIC: { max: 80 }, HEART_RATE: { min: 60, max: 100 } },
+      frequency: { GLUCOSE: { times: 2, period: 'DAY' }, BP_SYSTOLIC: { times: 1, period: 'DAY' }, BP_DIASTOLIC: { times: 1, period: 'DAY' } },
+      goals: { dailySteps: 6000, sleepHours: 7 },
+      updatedAt: at(10, '11:00').toISOString(),
+      updatedBy: 'Dr. Arun Verma'
+    },
+    medications: [
+      { id: 'med-1024-1', name: 'Metformin', dosage: '500 mg, 1 tablet', times: ['08:00', '20:00'], instructions: 'After meals', startDate: toLocalDate(at(10, '00:00')), prescribedBy: 'Dr. Arun Verma', prescribedAt: at(10, '11:00').toISOString(), active: true },
+      { id: 'med-1024-2', name: 'Amlodipine', dosage: '5 mg', times: ['09:00'], startDate: toLocalDate(at(10, '00:00')), prescribedBy: 'Dr. Arun Verma', prescribedAt: at(10, '11:00').toISOString(), active: true }
+    ],
+    doses: [
+      ...days(1, 7).map(n => dose('med-1024-1', n, '08:00')),
+      // Evening doses missed on two days and skipped on one
+      ...days(1, 7).filter(n => n !== 2 && n !== 3).map(n => dose('med-1024-1', n, '20:00', n === 5 ? 'SKIPPED' : 'TAKEN')),
+      ...days(1, 7).map(n => dose('med-1024-2', n, '09:00', n === 4 ? 'SKIPPED' : 'TAKEN'))
+    ],
+    foodLogs: [
+      {
+        id: 'f1',
+        imageUrl: 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=400',
+        timestamp: new Date().toISOString(),
+        analysis: { mealType: 'Lunch', caloriesEstimate: 420, carbs: '45g', protein: '22g', flag: 'Balanced' }
+      }
+    ],
+    messages: [
+      { id: 'm1', sender: 'SYSTEM', type: 'TEXT', content: 'Welcome to PAJR. Please share your readings via WhatsApp or here.', timestamp: new Date(Date.now() - 1000000).toISOString(), deliveredAt: new Date(Date.now() - 1000000).toISOString(), readAt: new Date(Date.now() - 900000).toISOString() }
+    ],
+    latestInsight: {
+        summary: "Glucose trending upwards over last 48 hours. Spiked to 165 fasting. Likely dietary slip or medication gap.",
+        riskLevel: RiskLevel.MEDIUM,
+        confidenceScore: 0.88,
+        themes: ["Glycemic Instability", "High Carb Pattern"],
+        reasoning: ["Fasting glucose > 150mg/dL", "Steps decreased by 40% on Wednesday"],
+        missingData: ["Latest HbA1c", "Evening BP readings"],
+        clinicalActionSuggestion: "Counsel patient on carbohydrate intake. Ask for medication adherence check."
+    },
+    insightHistory: [
+      {
+        id: 'ins-1024-1',
+        timestamp: '2023-10-22T08:05:00Z',
+        summary: "Fasting glucose 140 mg/dL, within expected range for this patient. No symptoms reported.",
+        riskLevel: RiskLevel.LOW,
+        confidenceScore: 0.82,
+        themes: ["Routine Monitoring"],
+        reasoning: ["Fasting glucose < 150mg/dL"],
+        missingData: ["Latest HbA1c"],
+        clinicalActionSuggestion: "Monitor"
+      },
+      {
+        id: 'ins-1024-2',
+        timestamp: '2023-10-24T08:05:00Z',
+        summary: "Glucose trending upwards over last 48 hours. Spiked to 165 fasting. Likely dietary slip or medication gap.",
+        riskLevel: RiskLevel.MEDIUM,
+        confidenceScore: 0.88,
+        themes: ["Glycemic Instability", "High Carb Pattern"],
+        reasoning: ["Fasting glucose > 150mg/dL", "Steps decreased by 40% on Wednesday"],
+        missingData: ["Latest HbA1c", "Evening BP readings"],
+        clinicalActionSuggestion: "Counsel patient on carbohydrate intake. Ask for medication adherence check."
+      }
+    ]
+  },
+  {
+    id: 'P-5050',
+    name: 'Anil Gupta',
+    phoneNumber: '+919812345678',
+    preferredLanguage: 'hi',
+    age: 62,
+    assignedDoctorId: 'D-001',
+    condition: ['Cardiac Follow-up'],
+    lastInteraction: new Date().toISOString(),
+    riskStatus: RiskLevel.CRITICAL,
+    isFlagged: true,
+    activeFlag: {
+      id: 'flag-P-5050-1',
+      status: 'OPEN',
+      riskLevel: RiskLevel.CRITICAL,
+      raisedAt: new Date(Date.now() - 20 * 60 * 1000).toISOString(),
+      notes: [],
+      escalations: []
+    },
+    vitalsHistory: [
+      { type: 'BP_SYSTOLIC', value: 168, unit: 'mmHg', timestamp: new Date().toISOString() },
+      { type: 'BP_DIASTOLIC', value: 95, unit: 'mmHg', timestamp: new Date().toISOString() },
+      { type: 'HEART_RATE', value: 98, unit: 'bpm', timestamp: new Date().toISOString() },
+    ],
+    wearableHistory: MOCK_WEARABLE,
+    foodLogs: [],
+    carePlan: {
+      targets: { BP_SYSTOLIC: { max: 140 }, BP_DIASTOLIC: { max: 90 }, HEART_RATE: { min: 60, max: 90 } },
+      frequency: { BP_SYSTOLIC: { times: 2, period: 'DAY' }, BP_DIASTOLIC: { times: 2, period: 'DAY' }, HEART_RATE: { times: 2, period: 'DAY' } },
+      goals: { dailySteps: 4000 },
+      updatedAt: at(30, '10:00').toISOString(),
+      updatedBy: 'Dr. Arun Verma'
+    },
+    medications: [
+      { id: 'med-5050-1', name: 'Metoprolol', dosage: '25 mg', times: ['09:00', '21:00'], startDate: toLocalDate(at(30, '00:00')), prescribedBy: 'Dr. Arun Verma', prescribedAt: at(30, '10:00').toISOString(), active: true },
+      { id: 'med-5050-2', name: 'Aspirin', dosage: '75 mg', times: ['09:00'], instructions: 'With breakfast', startDate: toLocalDate(at(30, '00:00')), prescribedBy: 'Dr. Arun Verma', prescribedAt: at(30, '10:00').toISOString(), active: true }
+    ],
+    doses: [
+      dose('med-5050-1', 6, '09:00'),
+      dose('med-5050-1', 5, '09:00'),
+      dose('med-5050-1', 3, '21:00', 'SKIPPED'),
+      dose('med-5050-2', 6, '09:00'),
+      dose('med-5050-2', 5, '09:00'),
+      dose('med-5050-2', 2, '09:00')
+    ],
+    replyDrafts: [
+      {
+        id: 'draft-5050-1',
+        messageId: 'crit1',
+        channel: 'APP',
+        status: 'PENDING_REVIEW',
+        reason: 'Risk level CRITICAL requires clinician review',
+        riskLevel: RiskLevel.CRITICAL,
+        confidenceScore: 0.95,
+        originalText: 'आपका BP 168/95 दर्ज कर लिया गया है। कृपया आराम करें, एक चिकित्सक तुरंत आपसे संपर्क करेंगे।',
+        language: 'hi',
+        translation: 'Your BP of 168/95 has been recorded. Please rest, a clinician will contact you right away.',
+        createdAt: new Date().toISOString()
+      }
+    ],
+    messages: [
+      { id: 'crit1', sender: 'PATIENT', type: 'TEXT', content: 'Feeling slightly dizzy since morning.', timestamp: new Date().toISOString(), deliveredAt: new Date().toISOString() }
+    ],
+    latestInsight: {
+        summary: "Patient reporting dizziness accompanied by BP spike (168/95). Immediate clinician review recommended.",
+        riskLevel: RiskLevel.CRITICAL,
+        confidenceScore: 0.95,
+        themes: ["Hypertensive Crisis", "Symptomatic"],
+        reasoning: ["BP systolic > 160", "New-onset dizziness reported via text"],
+        missingData: [],
+        clinicalActionSuggestion: "Immediate call to verify symptoms. Instruct to take prescribed emergency meds if available."
+    },
+    insightHistory: [
+      {
+        id: 'ins-5050-1',
+        messageId: 'crit1',
+        timestamp: new Date().toISOString(),
+        summary: "Patient reporting dizziness accompanied by BP spike (168/95). Immediate clinician review recommended.",
+        riskLevel: RiskLevel.CRITICAL,
+        confidenceScore: 0.95,
+        themes: ["Hypertensive Crisis", "Symptomatic"],
+        reasoning: ["BP systolic > 160", "New-onset dizziness reported via text"],
+        missingData: [],
+        clinicalActionSuggestion: "Immediate call to verify symptoms. Instruct to take prescribed emergency meds if available."
+      }
+    ]
+  }
+];
@@ -0,0 +1,31 @@
+import { Message } from '../types';
+import { fetchPatient, subscribeToCheckIns } from '../services/supabaseService';
+import { toWhatsAppNumber } from './ingest';
+import { WhatsAppClient } from './whatsappClient';
+
+/**
+ * Forwards missed-reading check-ins raised by the check-in scheduler to
+ * patients on WhatsApp. Check-ins inserted while the server is down are not
+ * replayed.
+ */
+
+const delivered = new Set<string>();
+
+export const deliverCheckIn = async (patientId: string, message: Message, client: WhatsAppClient) => {
+  if (message.kind !== 'CHECK_IN' || delivered.has(message.id)) return;
+  delivered.add(message.id);
+
+  const patient = await fetchPatient(patientId);
+  if (!patient?.phoneNumber) return;
+
+  await client.sendText(toWhatsAppNumber(patient.phoneNumber), message.content);
+  console.log(`[WhatsApp] Delivered check-in ${message.id} to ${patientId}`);
+};
+
+export const startCheckInDelivery = (client: WhatsAppClient) =>
+  subscribeToCheckIns((patientId, message) => {
+    deliverCheckIn(patientId, message, client).catch(err => {
+      delivered.delete(message.id);
+      console.error(`[WhatsApp] Failed to deliver check-in ${message.id}:`, err);
+    });
+  });
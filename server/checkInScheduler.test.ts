@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RiskLevel } from '../types';
+import { CheckInSubject } from '../services/checkInService';
+import { fetchCheckInSubjects, saveMessage } from '../services/supabaseService';
+import { checkInSlotId, runCheckIns } from './checkInScheduler';
+
+vi.mock('../services/supabaseService', () => ({
+  fetchCheckInSubjects: vi.fn(),
+  isSupabaseConfigured: () => true,
+  saveInsight: vi.fn(),
+  saveInsightMissingData: vi.fn(),
+  saveMessage: vi.fn()
+}));
+
+const NOW = new Date('2024-06-15T10:00:00Z');
+
+// Last heard from four days ago, no care plan: due a silence check-in
+const silentPatient: CheckInSubject = {
+  id: 'P-1',
+  name: 'Test Patient',
+  lastInteraction: '2024-06-11T10:00:00.000Z',
+  riskStatus: RiskLevel.LOW,
+  vitalsHistory: [],
+  messages: [],
+  insightHistory: []
+};
+
+describe('checkInSlotId', () => {
+  it('is a stable UUID within one nudge interval and changes with the next', () => {
+    const id = checkInSlotId('P-1', NOW);
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(checkInSlotId('P-1', new Date('2024-06-15T23:59:00Z'))).toBe(id);
+    expect(checkInSlotId('P-1', new Date('2024-06-16T00:00:00Z'))).not.toBe(id);
+    expect(checkInSlotId('P-2', NOW)).not.toBe(id);
+  });
+});
+
+describe('runCheckIns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchCheckInSubjects).mockResolvedValue([silentPatient]);
+  });
+
+  it('claims the same slot when two instances run at once', async () => {
+    await Promise.all([runCheckIns(NOW), runCheckIns(new Date(NOW.getTime() + 60 * 1000))]);
+
+    const saved = vi.mocked(saveMessage).mock.calls.map(([patientId, message]) => ({ patientId, id: message.id, kind: message.kind }));
+    expect(saved).toEqual([
+      { patientId: 'P-1', id: checkInSlotId('P-1', NOW), kind: 'CHECK_IN' },
+      { patientId: 'P-1', id: checkInSlotId('P-1', NOW), kind: 'CHECK_IN' }
+    ]);
+  });
+
+  it('loads only check-ins from the last nudgesBeforeGap + 1 intervals', async () => {
+    await runCheckIns(NOW);
+    expect(fetchCheckInSubjects).toHaveBeenCalledWith(new Date('2024-06-12T10:00:00Z'));
+  });
+
+  it('does nothing when patients cannot be loaded', async () => {
+    vi.mocked(fetchCheckInSubjects).mockResolvedValue(null);
+    await runCheckIns(NOW);
+    expect(saveMessage).not.toHaveBeenCalled();
+  });
+});
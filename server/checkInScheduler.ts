@@ -0,0 +1,61 @@
+import { fetchCheckInSubjects, isSupabaseConfigured, saveInsight, saveInsightMissingData, saveMessage } from '../services/supabaseService';
+import { nameUuid } from './nameUuid';
+import { CheckInConfig, CheckInSubject, DEFAULT_CHECK_IN_CONFIG, assessCheckIn, checkInWindowStart, createCheckInMessage, dataGapInsight, withDataGap } from '../services/checkInService';
+
+/**
+ * Missed-reading scheduler. Runs in the ingestion server so check-ins go out
+ * whether or not a doctor has the dashboard open; checkInDelivery forwards
+ * them on WhatsApp and the dashboards receive them over realtime.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Id of the check-in for a patient's current nudge interval. Every server
+ * instance derives the same id, so saving it is a claim on the slot: a second
+ * instance or a restart stores nothing new.
+ */
+export const checkInSlotId = (patientId: string, now: Date, config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG) => {
+  const slot = Math.floor(now.getTime() / (config.nudgeIntervalHours * HOUR_MS));
+  return nameUuid(`check-in:${patientId}:${slot}`);
+};
+
+const recordDataGap = async (patient: CheckInSubject, note: string) => {
+  const latest = patient.insightHistory[patient.insightHistory.length - 1];
+  if (latest) {
+    await saveInsightMissingData(latest.id, withDataGap(latest, note).missingData);
+  } else {
+    await saveInsight(patient.id, undefined, dataGapInsight(patient, note));
+  }
+};
+
+export const runCheckIns = async (now: Date = new Date(), config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG) => {
+  const patients = await fetchCheckInSubjects(checkInWindowStart(now, config));
+  if (!patients) return;
+
+  for (const patient of patients) {
+    const action = assessCheckIn(patient, now, config);
+    if (action.type === 'NUDGE') {
+      const message = createCheckInMessage(patient, action.gaps, now);
+      await saveMessage(patient.id, { ...message, id: checkInSlotId(patient.id, now, config) });
+    } else if (action.type === 'DATA_GAP') {
+      await recordDataGap(patient, action.note);
+      console.log(`[CheckIn] Recorded data gap for ${patient.id}`);
+    }
+  }
+};
+
+/**
+ * Runs the scheduler now and every `checkIntervalMs`. Returns a stop function.
+ */
+export const startCheckInScheduler = (config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG) => {
+  if (!isSupabaseConfigured()) {
+    console.warn('[CheckIn] Supabase is not configured; missed-reading check-ins are disabled.');
+    return () => {};
+  }
+
+  const run = () => runCheckIns(new Date(), config).catch(err => console.error('[CheckIn] Scheduler run failed:', err));
+  run();
+  const timer = setInterval(run, config.checkIntervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,27 @@
+/**
+ * Environment for the WhatsApp ingestion server and its local API stub.
+ * Point WHATSAPP_API_URL at the stub (`npm run whatsapp:stub`) to test
+ * without a Meta Business account.
+ */
+
+const env = process.env;
+
+// geminiService reads the key from API_KEY, which Vite defines for the browser build
+if (!env.API_KEY && env.GEMINI_API_KEY) env.API_KEY = env.GEMINI_API_KEY;
+
+export const serverConfig = {
+  port: Number(env.PORT) || 8787,
+  /** Shared secret of the Meta app; signs every webhook delivery. */
+  appSecret: env.WHATSAPP_APP_SECRET || '',
+  /** Token Meta echoes back when the webhook URL is registered. */
+  verifyToken: env.WHATSAPP_VERIFY_TOKEN || '',
+  accessToken: env.WHATSAPP_ACCESS_TOKEN || '',
+  phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID || '',
+  apiUrl: (env.WHATSAPP_API_URL || 'https://graph.facebook.com/v21.0').replace(/\/$/, '')
+};
+
+export const stubConfig = {
+  port: Number(env.WHATSAPP_STUB_PORT) || 8788,
+  /** Where the stub delivers simulated inbound webhooks. */
+  webhookUrl: env.WHATSAPP_WEBHOOK_URL || `http://localhost:${serverConfig.port}/webhook`
+};
@@ -0,0 +1,42 @@
+import { ReplyDraft } from '../types';
+import { fetchPatient, saveMessage, subscribeToApprovedDrafts } from '../services/supabaseService';
+import { toWhatsAppNumber } from './ingest';
+import { WhatsAppClient } from './whatsappClient';
+
+/**
+ * Sends WhatsApp replies that were held for review once a clinician approves
+ * them in the dashboard. Approvals made while the server is down are not
+ * replayed.
+ */
+
+const delivered = new Set<string>();
+
+export const deliverApprovedDraft = async (patientId: string, draft: ReplyDraft, client: WhatsAppClient) => {
+  if (draft.channel !== 'WHATSAPP' || draft.status !== 'APPROVED' || !draft.finalText) return;
+  if (delivered.has(draft.id)) return;
+  delivered.add(draft.id);
+
+  const patient = await fetchPatient(patientId);
+  if (!patient?.phoneNumber) {
+    console.warn(`[WhatsApp] Approved draft ${draft.id} has no WhatsApp number to deliver to`);
+    return;
+  }
+
+  await client.sendText(toWhatsAppNumber(patient.phoneNumber), draft.finalText);
+  await saveMessage(patientId, {
+    sender: 'SYSTEM',
+    type: 'TEXT',
+    content: draft.finalText,
+    language: draft.language,
+    translation: draft.finalText === draft.originalText ? draft.translation : undefined
+  });
+  console.log(`[WhatsApp] Delivered approved reply ${draft.id} to ${patientId}`);
+};
+
+export const startDraftDelivery = (client: WhatsAppClient) =>
+  subscribeToApprovedDrafts((patientId, draft) => {
+    deliverApprovedDraft(patientId, draft, client).catch(err => {
+      delivered.delete(draft.id);
+      console.error(`[WhatsApp] Failed to deliver approved draft ${draft.id}:`, err);
+    });
+  });
@@ -0,0 +1,43 @@
+import { fetchPendingWhatsAppInbound, isSupabaseConfigured } from '../services/supabaseService';
+import { toInboundMessage } from './whatsappPayload';
+import { ingestMessage } from './ingest';
+import { WhatsAppClient } from './whatsappClient';
+
+/**
+ * Retries inbound WhatsApp messages whose ingestion failed after the webhook
+ * was acknowledged, e.g. during a database outage. Every message is stored
+ * before it is acknowledged and stays pending until ingestion completes.
+ */
+
+const REPLAY_INTERVAL_MS = 5 * 60 * 1000;
+/** Younger messages may still be in their first attempt. */
+const MIN_AGE_MS = 2 * 60 * 1000;
+
+export const replayPendingInbound = async (client: WhatsAppClient, now: Date = new Date()) => {
+  const pending = await fetchPendingWhatsAppInbound(new Date(now.getTime() - MIN_AGE_MS));
+
+  for (const { whatsappMessageId, payload } of pending || []) {
+    const inbound = toInboundMessage(payload);
+    if (!inbound) {
+      console.warn(`[WhatsApp] Pending message ${whatsappMessageId} has an unreadable payload`);
+      continue;
+    }
+    try {
+      await ingestMessage(inbound, client);
+    } catch (err) {
+      console.error(`[WhatsApp] Replay of ${whatsappMessageId} failed:`, err);
+    }
+  }
+};
+
+/**
+ * Replays pending messages now and every few minutes. Returns a stop function.
+ */
+export const startInboundReplay = (client: WhatsAppClient) => {
+  if (!isSupabaseConfigured()) return () => {};
+
+  const run = () => replayPendingInbound(client).catch(err => console.error('[WhatsApp] Inbound replay failed:', err));
+  run();
+  const timer = setInterval(run, REPLAY_INTERVAL_MS);
+  return () => clearInterval(timer);
+};
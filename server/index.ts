@@ -0,0 +1,105 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { saveWhatsAppInbound } from '../services/supabaseService';
+import { serverConfig } from './config';
+import { verifySignature } from './signature';
+import { parseWebhook, WebhookPayload } from './whatsappPayload';
+import { createWhatsAppClient } from './whatsappClient';
+import { ingestMessage } from './ingest';
+import { startInboundReplay } from './inboundReplay';
+import { startDraftDelivery } from './draftDelivery';
+import { startCheckInDelivery } from './checkInDelivery';
+import { startCheckInScheduler } from './checkInScheduler';
+
+/**
+ * WhatsApp Business webhook ingestion server.
+ *   GET  /webhook  subscription handshake (hub.challenge)
+ *   POST /webhook  signed message deliveries
+ */
+
+const client = createWhatsAppClient();
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body = '') => {
+  res.writeHead(status, { 'Content-Type': 'text/plain' });
+  res.end(body);
+};
+
+const handleVerification = (url: URL, res: ServerResponse) => {
+  const mode = url.searchParams.get('hub.mode');
+  const token = url.searchParams.get('hub.verify_token');
+  if (mode === 'subscribe' && serverConfig.verifyToken && token === serverConfig.verifyToken) {
+    send(res, 200, url.searchParams.get('hub.challenge') || '');
+  } else {
+    send(res, 403);
+  }
+};
+
+const handleDelivery = async (req: IncomingMessage, res: ServerResponse) => {
+  const rawBody = await readBody(req);
+  if (!verifySignature(rawBody, req.headers['x-hub-signature-256'] as string | undefined, serverConfig.appSecret)) {
+    console.warn('[WhatsApp] Rejected webhook with invalid signature');
+    send(res, 401);
+    return;
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    send(res, 400);
+    return;
+  }
+
+  // Store before acknowledging: Meta never redelivers an acknowledged webhook,
+  // so the stored copy is what a failed ingestion is replayed from
+  const messages = parseWebhook(payload);
+  const stored = await Promise.all(messages.map(inbound => saveWhatsAppInbound(inbound.id, inbound)));
+  if (stored.includes(false)) {
+    send(res, 503);
+    return;
+  }
+
+  // Acknowledge before triage: Meta retries deliveries that take too long
+  send(res, 200);
+  for (const inbound of messages) {
+    try {
+      await ingestMessage(inbound, client);
+    } catch (err) {
+      console.error(`[WhatsApp] Failed to ingest ${inbound.id}; it stays pending for replay:`, err);
+    }
+  }
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  if (url.pathname !== '/webhook') return send(res, 404);
+  if (req.method === 'GET') return handleVerification(url, res);
+  if (req.method === 'POST') {
+    handleDelivery(req, res).catch(err => {
+      console.error('[WhatsApp] Webhook handler error:', err);
+      if (!res.headersSent) send(res, 500);
+    });
+    return;
+  }
+  send(res, 405);
+});
+
+if (!serverConfig.appSecret) {
+  console.warn('[WhatsApp] WHATSAPP_APP_SECRET is not set; every webhook delivery will be rejected.');
+}
+
+startInboundReplay(client);
+startDraftDelivery(client);
+startCheckInDelivery(client);
+startCheckInScheduler();
+
+server.listen(serverConfig.port, () => {
+  console.log(`[WhatsApp] Ingestion server listening on :${serverConfig.port} (API ${serverConfig.apiUrl})`);
+});
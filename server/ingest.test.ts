@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RiskLevel } from '../types';
+import { makePatient } from '../test/fixtures';
+import { analyzeAttachmentWithHeuristics, analyzeWithHeuristics } from '../services/mockTriageProvider';
+import { analyzePatientAttachment, analyzePatientInput } from '../services/geminiService';
+import {
+  fetchPatientByPhone,
+  isWhatsAppInboundProcessed,
+  markWhatsAppInbound,
+  saveFlag,
+  saveInsight,
+  saveMessage,
+  saveReplyDraft,
+  saveVitals,
+  uploadMedia
+} from '../services/supabaseService';
+import { ingestMessage } from './ingest';
+import { InboundMessage } from './whatsappPayload';
+import { WhatsAppClient } from './whatsappClient';
+
+vi.mock('../services/geminiService', () => ({
+  analyzePatientInput: vi.fn(),
+  analyzePatientAttachment: vi.fn(),
+  transcribeVoiceNote: vi.fn()
+}));
+
+vi.mock('../services/supabaseService', () => ({
+  fetchPatientByPhone: vi.fn(),
+  isSupabaseConfigured: () => true,
+  isWhatsAppInboundProcessed: vi.fn(),
+  markWhatsAppInbound: vi.fn(),
+  saveFlag: vi.fn(),
+  saveInsight: vi.fn(),
+  saveMessage: vi.fn(),
+  saveMessageTranslation: vi.fn(),
+  savePreferredLanguage: vi.fn(),
+  saveReplyDraft: vi.fn(),
+  saveVitals: vi.fn(),
+  uploadMedia: vi.fn()
+}));
+
+const patient = makePatient({ phoneNumber: '+919876543210' });
+
+let nextId = 0;
+const text = (body: string): InboundMessage =>
+  ({ id: `wamid.${++nextId}`, from: '919876543210', timestamp: '2024-06-15T08:00:00.000Z', kind: 'TEXT', text: body });
+const image = (caption?: string): InboundMessage =>
+  ({ id: `wamid.${++nextId}`, from: '919876543210', timestamp: '2024-06-15T08:00:00.000Z', kind: 'IMAGE', mediaId: 'media-1', mimeType: 'image/jpeg', caption });
+
+const client = {
+  sendText: vi.fn<WhatsAppClient['sendText']>(),
+  downloadMedia: vi.fn<WhatsAppClient['downloadMedia']>()
+};
+
+const patientMessages = () => vi.mocked(saveMessage).mock.calls.map(([, message]) => message).filter(m => m.sender === 'PATIENT');
+
+describe('ingestMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(analyzePatientInput).mockImplementation(async message => analyzeWithHeuristics(message));
+    vi.mocked(analyzePatientAttachment).mockImplementation(async attachment => analyzeAttachmentWithHeuristics(attachment));
+    vi.mocked(fetchPatientByPhone).mockResolvedValue(patient);
+    vi.mocked(isWhatsAppInboundProcessed).mockResolvedValue(false);
+    vi.mocked(saveMessage).mockImplementation(async (_, message) => ({
+      ...message,
+      id: `msg-${message.whatsappMessageId ?? 'reply'}`,
+      sender: message.sender ?? 'SYSTEM',
+      type: message.type ?? 'TEXT',
+      content: message.content ?? '',
+      timestamp: message.timestamp ?? '2024-06-15T08:00:00.000Z'
+    }));
+    vi.mocked(saveVitals).mockResolvedValue(true);
+    vi.mocked(saveFlag).mockResolvedValue(true);
+    vi.mocked(saveReplyDraft).mockResolvedValue(true);
+    vi.mocked(saveInsight).mockImplementation(async (_, messageId, insight) => ({ ...insight, id: 'ins-1', messageId, timestamp: '2024-06-15T08:00:00.000Z' }));
+    vi.mocked(uploadMedia).mockResolvedValue('https://storage.example/patient-media/P-1/photo.jpg');
+    client.downloadMedia.mockResolvedValue({ mimeType: 'image/jpeg', data: 'aGVsbG8=' });
+  });
+
+  it('triages a redelivered message once', async () => {
+    const inbound = text('sugar 140');
+    await Promise.all([ingestMessage(inbound, client), ingestMessage(inbound, client)]);
+
+    expect(patientMessages()).toHaveLength(1);
+    expect(client.sendText).toHaveBeenCalledTimes(1);
+    expect(markWhatsAppInbound).toHaveBeenCalledWith(inbound.id, { processed: true });
+  });
+
+  it('skips a message that was already fully processed', async () => {
+    vi.mocked(isWhatsAppInboundProcessed).mockResolvedValue(true);
+    const inbound = text('sugar 140');
+    await ingestMessage(inbound, client);
+
+    expect(saveMessage).not.toHaveBeenCalled();
+    expect(markWhatsAppInbound).toHaveBeenCalledWith(inbound.id, { processed: true });
+  });
+
+  it('tells an unregistered number so only when the lookup finds no match', async () => {
+    vi.spyOn(console, 'warn').mockImplementationOnce(() => {});
+    vi.mocked(fetchPatientByPhone).mockResolvedValue(null);
+    await ingestMessage(text('hello'), client);
+
+    expect(client.sendText).toHaveBeenCalledWith('919876543210', expect.stringContaining('not registered'));
+    expect(saveMessage).not.toHaveBeenCalled();
+  });
+
+  it('leaves a message pending and unseen when the lookup fails', async () => {
+    vi.mocked(fetchPatientByPhone).mockRejectedValueOnce(new Error('Patient lookup failed: timeout'));
+    const inbound = text('sugar 140');
+
+    await expect(ingestMessage(inbound, client)).rejects.toThrow('timeout');
+    expect(client.sendText).not.toHaveBeenCalled();
+    expect(markWhatsAppInbound).toHaveBeenCalledWith(inbound.id, { error: 'Patient lookup failed: timeout' });
+
+    await ingestMessage(inbound, client);
+    expect(patientMessages()).toHaveLength(1);
+    expect(markWhatsAppInbound).toHaveBeenLastCalledWith(inbound.id, { processed: true });
+  });
+
+  it('leaves a message pending when it cannot be saved', async () => {
+    vi.mocked(saveMessage).mockResolvedValueOnce(null);
+    const inbound = text('sugar 140');
+
+    await expect(ingestMessage(inbound, client)).rejects.toThrow('Could not save the patient message');
+    expect(saveInsight).not.toHaveBeenCalled();
+    expect(markWhatsAppInbound).not.toHaveBeenCalledWith(inbound.id, { processed: true });
+  });
+
+  it('writes what a failed attempt missed when the message is replayed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(saveInsight).mockResolvedValueOnce(null);
+    const inbound = text('BP 150/95, feeling dizzy');
+
+    await expect(ingestMessage(inbound, client)).rejects.toThrow('Could not save the insight');
+    expect(client.sendText).not.toHaveBeenCalled();
+    expect(markWhatsAppInbound).toHaveBeenCalledWith(inbound.id, { error: 'Could not save the insight' });
+
+    await ingestMessage(inbound, client);
+    const messageIds = vi.mocked(saveMessage).mock.calls.map(([, m]) => m.id);
+    const draftIds = vi.mocked(saveReplyDraft).mock.calls.map(([, draft]) => draft.id);
+    const vitalIds = vi.mocked(saveVitals).mock.calls.map(([, vitals]) => vitals.map(v => v.id));
+
+    expect(messageIds).toEqual([expect.any(String), messageIds[0]]);
+    expect(draftIds).toEqual([expect.any(String), draftIds[0]]);
+    // A draft a clinician reviewed in between must not be reset by the replay
+    expect(saveReplyDraft).toHaveBeenLastCalledWith('P-1', expect.anything(), { keepStored: true });
+    expect(vitalIds[1]).toEqual(vitalIds[0]);
+    expect(saveInsight).toHaveBeenCalledTimes(2);
+    expect(client.sendText).not.toHaveBeenCalled();
+    expect(markWhatsAppInbound).toHaveBeenLastCalledWith(inbound.id, { processed: true });
+  });
+
+  it('sends a replayed reply once under its first id', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(saveInsight).mockResolvedValueOnce(null);
+    const inbound = text('sugar 140');
+
+    await expect(ingestMessage(inbound, client)).rejects.toThrow('Could not save the insight');
+    await ingestMessage(inbound, client);
+    const replyIds = vi.mocked(saveMessage).mock.calls.map(([, m]) => m).filter(m => m.sender === 'SYSTEM').map(m => m.id);
+
+    expect(replyIds).toEqual([expect.any(String), replyIds[0]]);
+    expect(client.sendText).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores uploaded media with its caption on one message', async () => {
+    const inbound = image('sugar 320, feeling dizzy');
+    await ingestMessage(inbound, client);
+
+    expect(uploadMedia).toHaveBeenCalledWith('P-1', 'data:image/jpeg;base64,aGVsbG8=', undefined);
+    expect(patientMessages()).toEqual([expect.objectContaining({
+      type: 'IMAGE',
+      content: 'https://storage.example/patient-media/P-1/photo.jpg',
+      caption: 'sugar 320, feeling dizzy',
+      whatsappMessageId: inbound.id
+    })]);
+    expect(vi.mocked(saveInsight).mock.calls[0][2].riskLevel).toBe(RiskLevel.HIGH);
+  });
+
+  it('sends media that cannot be downloaded to manual review', async () => {
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+    client.downloadMedia.mockRejectedValueOnce(new Error('WhatsApp API GET failed (404)'));
+    const inbound = image('my report');
+    await ingestMessage(inbound, client);
+
+    expect(patientMessages()).toEqual([expect.objectContaining({ type: 'IMAGE', content: '', caption: 'my report', whatsappMessageId: inbound.id })]);
+    expect(vi.mocked(saveInsight).mock.calls[0]).toEqual(['P-1', `msg-${inbound.id}`, expect.objectContaining({
+      summary: 'WhatsApp photo received but could not be processed. Manual review required.',
+      missingData: ['WhatsApp ingestion failed: WhatsApp API GET failed (404)'],
+      clinicalActionSuggestion: 'Manual Review'
+    })]);
+    expect(markWhatsAppInbound).toHaveBeenCalledWith(inbound.id, { processed: true });
+  });
+});
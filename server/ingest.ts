@@ -0,0 +1,214 @@
+import { Message, Patient } from '../types';
+import {
+  fetchPatientByPhone,
+  isSupabaseConfigured,
+  isWhatsAppInboundProcessed,
+  markWhatsAppInbound,
+  saveFlag,
+  saveInsight,
+  saveMessage,
+  saveMessageTranslation,
+  savePreferredLanguage,
+  saveReplyDraft,
+  saveVitals,
+  uploadMedia
+} from '../services/supabaseService';
+import { createReplyDraft, reviewReason } from '../services/replyPolicyService';
+import { detectLanguage, isEnglish } from '../services/languageService';
+import { TriageInput, triagePatientInput, voiceNoteInput } from '../services/triagePipeline';
+import { transcribeVoiceNote } from '../services/geminiService';
+import { MOCK_PATIENTS } from '../data/mockPatients';
+import { InboundMessage } from './whatsappPayload';
+import { WhatsAppClient } from './whatsappClient';
+import { nameUuid } from './nameUuid';
+
+/**
+ * Runs an inbound WhatsApp message through the same pipeline as in-app chat:
+ * persist the patient message, triage it, persist the AI reply, vitals, flag
+ * and insight, then reply to the patient on WhatsApp.
+ *
+ * A failed attempt is replayed from the start. Every write is keyed on the
+ * WhatsApp message id, so the steps that already landed are no-ops the second
+ * time and only the missing ones are written.
+ */
+
+const UNREGISTERED_REPLY = 'This number is not registered with PAJR. Please contact your clinic to link your WhatsApp number.';
+const RECENT_ID_LIMIT = 1000;
+
+// Meta redelivers webhooks it considers unacknowledged. Recent ids catch a
+// redelivery racing the first attempt; the stored WhatsApp id catches the rest
+const recentIds = new Set<string>();
+
+const markSeen = (id: string) => {
+  if (recentIds.has(id)) return false;
+  recentIds.add(id);
+  if (recentIds.size > RECENT_ID_LIMIT) recentIds.delete(recentIds.values().next().value!);
+  return true;
+};
+
+const toE164 = (waNumber: string) => waNumber.startsWith('+') ? waNumber : `+${waNumber}`;
+export const toWhatsAppNumber = (e164: string) => e164.replace(/^\+/, '');
+
+/**
+ * Without a database (demo or placeholder key) the bundled mock patients act
+ * as the directory, so the stub can be exercised end to end. Resolves to
+ * null only when no patient has the number; a failed lookup throws.
+ */
+const findPatient = async (phoneNumber: string): Promise<Patient | null> => {
+  if (!isSupabaseConfigured()) return MOCK_PATIENTS.find(p => p.phoneNumber === phoneNumber) || null;
+  return fetchPatientByPhone(phoneNumber);
+};
+
+/** Id of a row written for an inbound message, the same on every attempt. */
+const ingestId = (inbound: InboundMessage, row: string) => nameUuid(`whatsapp:${inbound.id}:${row}`);
+
+const MEDIA_LABELS: Record<Exclude<InboundMessage['kind'], 'TEXT'>, string> = {
+  IMAGE: 'photo',
+  DOCUMENT: 'document',
+  AUDIO: 'voice note'
+};
+
+interface PreparedMessage {
+  message: Partial<Message>;
+  input: TriageInput;
+}
+
+/**
+ * Media is uploaded to storage like in-app attachments, so the message row
+ * holds a URL. The caption is stored on the media message and triaged with
+ * the file it describes.
+ */
+const toPatientMessage = async (patient: Patient, inbound: InboundMessage, client: WhatsAppClient): Promise<PreparedMessage> => {
+  if (inbound.kind === 'TEXT') {
+    return {
+      message: { id: ingestId(inbound, 'message'), sender: 'PATIENT', type: 'TEXT', content: inbound.text, timestamp: inbound.timestamp, whatsappMessageId: inbound.id },
+      input: { kind: 'TEXT', text: inbound.text }
+    };
+  }
+
+  const media = await client.downloadMedia(inbound.mediaId);
+  const url = await uploadMedia(patient.id, `data:${media.mimeType};base64,${media.data}`, inbound.fileName);
+  if (!url) throw new Error('Media upload failed');
+
+  const message: Partial<Message> = {
+    id: ingestId(inbound, 'message'),
+    sender: 'PATIENT',
+    type: inbound.kind,
+    content: url,
+    fileName: inbound.fileName,
+    caption: inbound.caption,
+    timestamp: inbound.timestamp,
+    whatsappMessageId: inbound.id
+  };
+  const attachment = { kind: inbound.kind, mimeType: media.mimeType, data: media.data, fileName: inbound.fileName, caption: inbound.caption };
+
+  if (inbound.kind === 'AUDIO') {
+    const transcript = await transcribeVoiceNote(attachment);
+    return { message: { ...message, transcript: transcript || undefined }, input: voiceNoteInput(transcript) };
+  }
+  return { message, input: { kind: 'ATTACHMENT', attachment } };
+};
+
+/**
+ * A message whose media could not be fetched or stored still reaches a
+ * clinician: it is saved without the file and triaged as MANUAL_REVIEW, like
+ * an unreadable in-app attachment.
+ */
+const manualReviewMessage = (inbound: InboundMessage, error: unknown): PreparedMessage => {
+  const label = inbound.kind === 'TEXT' ? 'message' : MEDIA_LABELS[inbound.kind];
+  return {
+    message: {
+      id: ingestId(inbound, 'message'),
+      sender: 'PATIENT',
+      type: inbound.kind,
+      content: inbound.kind === 'TEXT' ? inbound.text : '',
+      fileName: inbound.kind === 'TEXT' ? undefined : inbound.fileName,
+      caption: inbound.kind === 'TEXT' ? undefined : inbound.caption,
+      timestamp: inbound.timestamp,
+      whatsappMessageId: inbound.id
+    },
+    input: {
+      kind: 'MANUAL_REVIEW',
+      summary: `WhatsApp ${label} received but could not be processed. Manual review required.`,
+      missingData: [`WhatsApp ingestion failed: ${error instanceof Error ? error.message : 'unknown error'}`]
+    }
+  };
+};
+
+const triageInbound = async (patient: Patient, inbound: InboundMessage, client: WhatsAppClient) => {
+  let prepared: PreparedMessage;
+  try {
+    prepared = await toPatientMessage(patient, inbound, client);
+  } catch (err) {
+    console.error(`[WhatsApp] Could not process ${inbound.kind} ${inbound.id}; sending it to manual review:`, err);
+    prepared = manualReviewMessage(inbound, err);
+  }
+
+  const { message, input } = prepared;
+  const saved = await saveMessage(patient.id, message);
+  // Nothing is triaged without the stored message; the inbound copy is replayed instead
+  if (!saved) throw new Error('Could not save the patient message');
+  const { insight, vitals, suggestedResponse, raisedFlag, ...languageResult } = await triagePatientInput(patient, input);
+
+  const spokenText = inbound.kind === 'TEXT' ? inbound.text : message.transcript || inbound.caption;
+  const language = languageResult.language || (spokenText ? detectLanguage(spokenText) : undefined);
+  if (language) {
+    await saveMessageTranslation(saved.id, language, isEnglish(language) ? undefined : languageResult.translation);
+  }
+  if (language && !patient.preferredLanguage) await savePreferredLanguage(patient.id, language);
+
+  const reply = { text: suggestedResponse, language: language || patient.preferredLanguage, translation: languageResult.responseTranslation };
+  // Held replies are sent by draftDelivery once a clinician approves them. A
+  // replay re-runs triage, so the reply, draft and readings keep their first
+  // ids and a flag saved by the failed attempt is already the patient's active one
+  const heldFor = reviewReason(insight);
+  let sent: Message | null = null;
+  if (heldFor) {
+    const draft = { ...createReplyDraft(insight, reply, heldFor, 'WHATSAPP', saved.id), id: ingestId(inbound, 'draft') };
+    if (!await saveReplyDraft(patient.id, draft, { keepStored: true })) throw new Error('Could not save the reply draft');
+  } else {
+    sent = await saveMessage(patient.id, {
+      id: ingestId(inbound, 'reply'),
+      sender: 'SYSTEM',
+      type: 'TEXT',
+      content: reply.text,
+      language: reply.language,
+      translation: reply.translation
+    });
+    if (!sent) throw new Error('Could not save the reply');
+  }
+  if (vitals.length > 0 && !await saveVitals(patient.id, vitals.map((v, i) => ({ ...v, id: ingestId(inbound, `vital-${i}`) })))) {
+    throw new Error('Could not save the readings');
+  }
+  if (raisedFlag && !await saveFlag(patient.id, raisedFlag)) throw new Error('Could not save the flag');
+  if (!await saveInsight(patient.id, saved.id, insight)) throw new Error('Could not save the insight');
+
+  if (sent) await client.sendText(inbound.from, sent.content);
+  console.log(`[WhatsApp] ${patient.id} ${inbound.kind} triaged as ${insight.riskLevel}${heldFor ? ' (reply held for review)' : ''}`);
+};
+
+/**
+ * Ingests one inbound message. Throws when it should be tried again (the
+ * patient lookup, a write or the reply failed); it then stays pending in the
+ * inbound store for `inboundReplay` and unseen here.
+ */
+export const ingestMessage = async (inbound: InboundMessage, client: WhatsAppClient) => {
+  if (!markSeen(inbound.id)) return;
+
+  try {
+    if (!await isWhatsAppInboundProcessed(inbound.id)) {
+      const patient = await findPatient(toE164(inbound.from));
+      if (patient) {
+        await triageInbound(patient, inbound, client);
+      } else {
+        console.warn(`[WhatsApp] Message from unregistered number ${inbound.from}`);
+        await client.sendText(inbound.from, UNREGISTERED_REPLY);
+      }
+    }
+    await markWhatsAppInbound(inbound.id, { processed: true });
+  } catch (err) {
+    recentIds.delete(inbound.id);
+    await markWhatsAppInbound(inbound.id, { error: err instanceof Error ? err.message : String(err) });
+    throw err;
+  }
+};
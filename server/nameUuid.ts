@@ -0,0 +1,11 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Name-based UUID (version 5 layout) so a deterministic key fits a uuid
+ * column. Every server instance derives the same id from the same name.
+ */
+export const nameUuid = (name: string) => {
+  const hex = createHash('sha1').update(name).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
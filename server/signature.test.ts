@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { signPayload, verifySignature } from './signature';
+
+const SECRET = 'app-secret';
+const body = Buffer.from('{"object":"whatsapp_business_account"}');
+
+describe('verifySignature', () => {
+  it('accepts a body signed with the app secret', () => {
+    expect(verifySignature(body, signPayload(body, SECRET), SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered body or another secret', () => {
+    const signature = signPayload(body, SECRET);
+
+    expect(verifySignature(Buffer.from('{"object":"page"}'), signature, SECRET)).toBe(false);
+    expect(verifySignature(body, signPayload(body, 'other-secret'), SECRET)).toBe(false);
+  });
+
+  it('rejects a signature of the wrong length without throwing', () => {
+    expect(verifySignature(body, 'sha256=abc', SECRET)).toBe(false);
+    expect(verifySignature(body, `${signPayload(body, SECRET)}00`, SECRET)).toBe(false);
+  });
+
+  it('rejects a missing signature or app secret', () => {
+    expect(verifySignature(body, undefined, SECRET)).toBe(false);
+    expect(verifySignature(body, signPayload(body, ''), '')).toBe(false);
+  });
+});
@@ -0,0 +1,16 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Meta signs each webhook body with HMAC-SHA256 of the app secret and sends
+ * it as `X-Hub-Signature-256: sha256=<hex>`.
+ */
+
+export const signPayload = (rawBody: string | Buffer, appSecret: string) =>
+  `sha256=${createHmac('sha256', appSecret).update(rawBody).digest('hex')}`;
+
+export const verifySignature = (rawBody: Buffer, header: string | undefined, appSecret: string): boolean => {
+  if (!header || !appSecret) return false;
+  const expected = Buffer.from(signPayload(rawBody, appSecret));
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
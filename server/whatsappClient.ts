@@ -0,0 +1,47 @@
+import { serverConfig } from './config';
+
+/**
+ * Outbound adapter for the WhatsApp Cloud API. The ingestion pipeline only
+ * depends on this interface, so the real Graph API and the local stub are
+ * interchangeable via WHATSAPP_API_URL.
+ */
+
+export interface DownloadedMedia {
+  mimeType: string;
+  /** Base64 without the data-URL prefix. */
+  data: string;
+}
+
+export interface WhatsAppClient {
+  sendText: (to: string, body: string) => Promise<void>;
+  downloadMedia: (mediaId: string) => Promise<DownloadedMedia>;
+}
+
+export const createWhatsAppClient = (config = serverConfig): WhatsAppClient => {
+  const headers = { Authorization: `Bearer ${config.accessToken}` };
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, { ...init, headers: { ...headers, ...init.headers } });
+    if (!response.ok) {
+      throw new Error(`WhatsApp API ${init.method || 'GET'} ${url} failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    sendText: async (to, body) => {
+      await request(`${config.apiUrl}/${config.phoneNumberId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messaging_product: 'whatsapp', to, type: 'text', text: { body } })
+      });
+    },
+
+    // Media ids resolve to a short-lived URL that also needs the access token
+    downloadMedia: async mediaId => {
+      const meta = await (await request(`${config.apiUrl}/${mediaId}`)).json() as { url: string; mime_type: string };
+      const bytes = Buffer.from(await (await request(meta.url)).arrayBuffer());
+      return { mimeType: meta.mime_type, data: bytes.toString('base64') };
+    }
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseWebhook, toInboundMessage, WebhookMessage, WebhookPayload } from './whatsappPayload';
+
+const delivery = (...messages: WebhookMessage[]): WebhookPayload => ({
+  object: 'whatsapp_business_account',
+  entry: [{ id: 'waba', changes: [{ field: 'messages', value: { messages } }] }]
+});
+
+const base = { from: '919876543210', timestamp: '1718438400' };
+
+describe('parseWebhook', () => {
+  it('normalizes text and media messages', () => {
+    const inbound = parseWebhook(delivery(
+      { ...base, id: 'wamid.1', type: 'text', text: { body: 'BP 150/95' } },
+      { ...base, id: 'wamid.2', type: 'image', image: { id: 'media-1', mime_type: 'image/jpeg', caption: 'after lunch' } }
+    ));
+
+    expect(inbound).toEqual([
+      { id: 'wamid.1', from: '919876543210', timestamp: '2024-06-15T08:00:00.000Z', kind: 'TEXT', text: 'BP 150/95' },
+      { id: 'wamid.2', from: '919876543210', timestamp: '2024-06-15T08:00:00.000Z', kind: 'IMAGE', mediaId: 'media-1', mimeType: 'image/jpeg', fileName: undefined, caption: 'after lunch' }
+    ]);
+  });
+
+  it('skips unsupported message types, status updates and other objects', () => {
+    expect(parseWebhook(delivery({ ...base, id: 'wamid.3', type: 'sticker' }))).toEqual([]);
+    expect(parseWebhook({ object: 'whatsapp_business_account', entry: [{ id: 'waba', changes: [{ field: 'statuses', value: {} }] }] })).toEqual([]);
+    expect(parseWebhook({ ...delivery({ ...base, id: 'wamid.4', type: 'text', text: { body: 'hi' } }), object: 'page' })).toEqual([]);
+  });
+});
+
+describe('toInboundMessage', () => {
+  it('reads back a stored message', () => {
+    const [inbound] = parseWebhook(delivery({ ...base, id: 'wamid.5', type: 'document', document: { id: 'media-2', mime_type: 'application/pdf', filename: 'labs.pdf' } }));
+
+    expect(toInboundMessage(JSON.parse(JSON.stringify(inbound)))).toEqual({ ...inbound, caption: undefined });
+  });
+
+  it('rejects anything else', () => {
+    expect(toInboundMessage(null)).toBeNull();
+    expect(toInboundMessage({ id: 'wamid.6', from: '91', timestamp: 'x', kind: 'TEXT' })).toBeNull();
+    expect(toInboundMessage({ id: 'wamid.7', from: '91', timestamp: 'x', kind: 'VIDEO', mediaId: 'm', mimeType: 'video/mp4' })).toBeNull();
+  });
+});
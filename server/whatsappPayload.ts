@@ -0,0 +1,114 @@
+/**
+ * Subset of the WhatsApp Cloud API webhook payload the ingestion server
+ * understands, and its normalized inbound form.
+ * https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components
+ */
+
+export interface WebhookMedia {
+  id: string;
+  mime_type: string;
+  caption?: string;
+  filename?: string;
+}
+
+export interface WebhookMessage {
+  from: string;
+  id: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  image?: WebhookMedia;
+  document?: WebhookMedia;
+  audio?: WebhookMedia & { voice?: boolean };
+}
+
+export interface WebhookPayload {
+  object: string;
+  entry?: {
+    id: string;
+    changes?: {
+      field: string;
+      value: {
+        messaging_product?: string;
+        metadata?: { display_phone_number: string; phone_number_id: string };
+        contacts?: { profile?: { name?: string }; wa_id: string }[];
+        messages?: WebhookMessage[];
+      };
+    }[];
+  }[];
+}
+
+export type InboundMessage = {
+  /** WhatsApp message id (`wamid.…`), used to drop redelivered webhooks. */
+  id: string;
+  /** Sender's number in WhatsApp form: digits only, with country code. */
+  from: string;
+  timestamp: string;
+} & (
+  | { kind: 'TEXT'; text: string }
+  | { kind: 'IMAGE' | 'DOCUMENT' | 'AUDIO'; mediaId: string; mimeType: string; fileName?: string; caption?: string }
+);
+
+const toInbound = (message: WebhookMessage): InboundMessage | null => {
+  const base = {
+    id: message.id,
+    from: message.from,
+    timestamp: new Date(Number(message.timestamp) * 1000 || Date.now()).toISOString()
+  };
+
+  switch (message.type) {
+    case 'text':
+      return message.text ? { ...base, kind: 'TEXT', text: message.text.body } : null;
+    case 'image':
+    case 'document':
+    case 'audio': {
+      const media = message[message.type];
+      if (!media) return null;
+      return {
+        ...base,
+        kind: message.type.toUpperCase() as 'IMAGE' | 'DOCUMENT' | 'AUDIO',
+        mediaId: media.id,
+        mimeType: media.mime_type,
+        fileName: media.filename,
+        caption: media.caption
+      };
+    }
+    default:
+      // Stickers, locations, reactions etc. are not part of the clinical channel
+      return null;
+  }
+};
+
+/**
+ * Extracts supported messages from a webhook delivery. Status updates and
+ * unsupported message types are skipped.
+ */
+export const parseWebhook = (payload: WebhookPayload): InboundMessage[] => {
+  if (payload.object !== 'whatsapp_business_account') return [];
+
+  return (payload.entry || [])
+    .flatMap(entry => entry.changes || [])
+    .filter(change => change.field === 'messages')
+    .flatMap(change => change.value.messages || [])
+    .map(toInbound)
+    .filter((m): m is InboundMessage => m !== null);
+};
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+/**
+ * Reads back an InboundMessage stored as JSON, e.g. by the inbound replay.
+ * Returns null when the value is not one.
+ */
+export const toInboundMessage = (value: unknown): InboundMessage | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, from, timestamp, kind, text, mediaId, mimeType, fileName, caption } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof from !== 'string' || typeof timestamp !== 'string') return null;
+  const base = { id, from, timestamp };
+
+  if (kind === 'TEXT') return typeof text === 'string' ? { ...base, kind, text } : null;
+  if ((kind === 'IMAGE' || kind === 'DOCUMENT' || kind === 'AUDIO') && typeof mediaId === 'string' && typeof mimeType === 'string') {
+    return { ...base, kind, mediaId, mimeType, fileName: optionalString(fileName), caption: optionalString(caption) };
+  }
+  return null;
+};
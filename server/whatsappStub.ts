@@ -0,0 +1,172 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { serverConfig, stubConfig } from './config';
+import { signPayload } from './signature';
+import { WebhookMedia, WebhookMessage, WebhookPayload } from './whatsappPayload';
+
+/**
+ * Local stand-in for the WhatsApp Cloud API, for testing the ingestion server
+ * without a Meta Business account. Run the ingestion server with
+ * WHATSAPP_API_URL=http://localhost:8788 and the same WHATSAPP_APP_SECRET.
+ *
+ *   POST /simulate              deliver a signed inbound webhook, e.g.
+ *                               { "from": "919876543210", "text": "BP 150/95" }
+ *                               { "from": "...", "type": "image", "mimeType": "image/jpeg", "data": "<base64>" }
+ *   GET  /sent                  replies the ingestion server sent
+ *   POST /:phoneId/messages     Graph API: send message
+ *   GET  /:mediaId              Graph API: media metadata
+ *   GET  /media/:mediaId        media download
+ */
+
+const SIMULATE_TYPES = ['text', 'image', 'document', 'audio'] as const;
+
+interface SimulateRequest {
+  from: string;
+  text?: string;
+  type?: typeof SIMULATE_TYPES[number];
+  mimeType?: string;
+  data?: string;
+  fileName?: string;
+  caption?: string;
+}
+
+const media = new Map<string, { mimeType: string; data: Buffer }>();
+const sent: { to: string; body: string; timestamp: string }[] = [];
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const json = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+/**
+ * Reads a /simulate body; null when it has no sender.
+ */
+const toSimulateRequest = (body: unknown): SimulateRequest | null => {
+  if (!isRecord(body) || typeof body.from !== 'string') return null;
+  return {
+    from: body.from,
+    text: optionalString(body.text),
+    type: SIMULATE_TYPES.find(t => t === body.type),
+    mimeType: optionalString(body.mimeType),
+    data: optionalString(body.data),
+    fileName: optionalString(body.fileName),
+    caption: optionalString(body.caption)
+  };
+};
+
+/**
+ * Reads a Graph API send-message body (`{ to, text: { body } }`).
+ */
+const toSentMessage = (body: unknown) => {
+  const request = isRecord(body) ? body : {};
+  return {
+    to: optionalString(request.to) || '',
+    body: (isRecord(request.text) ? optionalString(request.text.body) : undefined) || ''
+  };
+};
+
+const buildPayload = (request: SimulateRequest): WebhookPayload => {
+  const type = request.type || 'text';
+  const base = {
+    from: request.from,
+    id: `wamid.${randomUUID()}`,
+    timestamp: String(Math.floor(Date.now() / 1000)),
+    type
+  };
+
+  let message: WebhookMessage;
+  if (type === 'text') {
+    message = { ...base, text: { body: request.text || '' } };
+  } else {
+    const mediaId = randomUUID();
+    const mimeType = request.mimeType || 'application/octet-stream';
+    media.set(mediaId, { mimeType, data: Buffer.from(request.data || '', 'base64') });
+    const item: WebhookMedia = { id: mediaId, mime_type: mimeType, filename: request.fileName, caption: request.caption };
+    message = { ...base, ...(type === 'image' ? { image: item } : type === 'document' ? { document: item } : { audio: item }) };
+  }
+
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'stub-waba',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: '15550000000', phone_number_id: serverConfig.phoneNumberId || 'stub-phone' },
+          contacts: [{ wa_id: request.from }],
+          messages: [message]
+        }
+      }]
+    }]
+  };
+};
+
+const simulate = async (request: SimulateRequest) => {
+  const body = JSON.stringify(buildPayload(request));
+  const response = await fetch(stubConfig.webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': signPayload(body, serverConfig.appSecret) },
+    body
+  });
+  return { webhookStatus: response.status };
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  try {
+    if (req.method === 'POST' && url.pathname === '/simulate') {
+      const request = toSimulateRequest(await readJson(req));
+      if (!request) return json(res, 400, { error: '"from" is required' });
+      return json(res, 200, await simulate(request));
+    }
+    if (req.method === 'GET' && url.pathname === '/sent') {
+      return json(res, 200, sent);
+    }
+    if (req.method === 'POST' && parts.length === 2 && parts[1] === 'messages') {
+      const { to, body } = toSentMessage(await readJson(req));
+      sent.push({ to, body, timestamp: new Date().toISOString() });
+      console.log(`[Stub] → ${to}: ${body}`);
+      return json(res, 200, { messaging_product: 'whatsapp', messages: [{ id: `wamid.${randomUUID()}` }] });
+    }
+    if (req.method === 'GET' && parts.length === 2 && parts[0] === 'media') {
+      const item = media.get(parts[1]);
+      if (!item) return json(res, 404, { error: 'Unknown media' });
+      res.writeHead(200, { 'Content-Type': item.mimeType });
+      return res.end(item.data);
+    }
+    if (req.method === 'GET' && parts.length === 1 && media.has(parts[0])) {
+      const item = media.get(parts[0])!;
+      return json(res, 200, { id: parts[0], mime_type: item.mimeType, url: `http://localhost:${stubConfig.port}/media/${parts[0]}` });
+    }
+    json(res, 404, { error: 'Not found' });
+  } catch (err) {
+    console.error('[Stub] Request failed:', err);
+    json(res, 500, { error: String(err) });
+  }
+});
+
+server.listen(stubConfig.port, () => {
+  console.log(`[Stub] WhatsApp API stub listening on :${stubConfig.port}, delivering webhooks to ${stubConfig.webhookUrl}`);
+});
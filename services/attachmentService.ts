@@ -0,0 +1,63 @@
+import { TriageAttachment } from "./triageProvider";
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav'
+};
+
+const DEFAULT_MIME_TYPES: Record<TriageAttachment['kind'], string> = {
+  IMAGE: 'image/jpeg',
+  DOCUMENT: 'application/pdf',
+  AUDIO: 'audio/webm'
+};
+
+const guessMimeType = (fileName: string | undefined, kind: TriageAttachment['kind']) => {
+  const ext = fileName?.split('.').pop()?.toLowerCase();
+  if (ext && EXTENSION_MIME_TYPES[ext]) return EXTENSION_MIME_TYPES[ext];
+  return DEFAULT_MIME_TYPES[kind];
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Reads an uploaded attachment (object URL or remote URL) into the inline
+ * base64 form expected by the triage providers.
+ */
+export const loadAttachment = async (
+  url: string,
+  kind: TriageAttachment['kind'],
+  fileName?: string
+): Promise<TriageAttachment> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not read attachment (${response.status})`);
+  const blob = await response.blob();
+
+  return {
+    kind,
+    fileName,
+    mimeType: blob.type || guessMimeType(fileName, kind),
+    data: await blobToBase64(blob)
+  };
+};
+
+/**
+ * Classifies a picked file as an image, audio or document message.
+ */
+export const messageTypeForFile = (file: File): TriageAttachment['kind'] =>
+  file.type.startsWith('image/') ? 'IMAGE' : file.type.startsWith('audio/') ? 'AUDIO' : 'DOCUMENT';
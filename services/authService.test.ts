@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isSupabaseConfigured, supabase } from './supabaseService';
+
+vi.mock('./supabaseService', () => ({
+  isSupabaseConfigured: vi.fn(),
+  supabase: {
+    auth: { verifyOtp: vi.fn() },
+    from: vi.fn()
+  }
+}));
+
+vi.mock('./demoMode', () => ({ isDemoMode: false }));
+
+// authMode is resolved when the module loads, so each test imports it afresh
+const loadAuthService = async (authMode: string, configured: boolean) => {
+  vi.stubEnv('AUTH_MODE', authMode);
+  vi.mocked(isSupabaseConfigured).mockReturnValue(configured);
+  vi.resetModules();
+  return import('./authService');
+};
+
+describe('resolveAuthMode', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses local sign-in while a Supabase backend is configured', async () => {
+    await expect(loadAuthService('local', true)).rejects.toThrow('AUTH_MODE=local is only allowed in demo mode');
+  });
+
+  it('allows local sign-in without a Supabase backend', async () => {
+    expect((await loadAuthService('local', false)).authMode).toBe('local');
+    expect((await loadAuthService('', false)).authMode).toBe('local');
+  });
+
+  it('uses Supabase when it is configured', async () => {
+    expect((await loadAuthService('', true)).authMode).toBe('supabase');
+  });
+});
+
+describe('verifyOtp', () => {
+  const profile = (row: Record<string, unknown>) => {
+    const query = { select: () => query, eq: () => query, maybeSingle: async () => ({ data: row, error: null }) };
+    vi.mocked(supabase.from).mockReturnValue(query as never);
+  };
+
+  beforeEach(() => {
+    vi.mocked(supabase.auth.verifyOtp).mockResolvedValue({ data: { user: { id: 'auth-1' } }, error: null } as never);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('signs in with the role stored on the profile', async () => {
+    profile({ id: 'auth-1', user_id: 'D-001', full_name: 'Dr. Arun Verma', role: 'DOCTOR' });
+    const { verifyOtp } = await loadAuthService('', true);
+
+    expect(await verifyOtp('9999999999', '654321')).toEqual({
+      user: { id: 'D-001', name: 'Dr. Arun Verma', role: 'DOCTOR', phoneNumber: '9999999999', avatarUrl: undefined }
+    });
+  });
+
+  it('rejects a profile whose role is not PATIENT or DOCTOR', async () => {
+    profile({ id: 'auth-1', user_id: 'A-1', full_name: 'Admin', role: 'ADMIN' });
+    const { verifyOtp } = await loadAuthService('', true);
+
+    expect(await verifyOtp('9999999999', '654321')).toEqual({ user: null, error: 'Your profile has no valid role. Please contact your clinic.' });
+  });
+});
@@ -0,0 +1,184 @@
+import { User, UserRole } from '../types';
+import { isSupabaseConfigured, supabase } from './supabaseService';
+import { isDemoMode } from './demoMode';
+
+/**
+ * Phone-OTP authentication.
+ * 'supabase' mode uses Supabase Auth and resolves role and domain user id from
+ * the `profiles` table. 'local' mode is an offline stand-in with a fixed OTP
+ * so the app can be developed without a backend; it is never used while a
+ * Supabase backend is configured.
+ */
+
+export type AuthMode = 'supabase' | 'local';
+
+export interface AuthResult {
+  user: User | null;
+  error?: string;
+}
+
+export const OTP_LENGTH = 6;
+export const LOCAL_DEMO_OTP = '123456';
+const LOCAL_SESSION_KEY = 'pajr.localSession';
+const COUNTRY_CODE = '+91';
+
+const LOCAL_PROFILES: Record<string, Omit<User, 'phoneNumber'>> = {
+  '9999999999': { id: 'D-001', name: 'Dr. Arun Verma', role: 'DOCTOR' }
+};
+const LOCAL_DEFAULT_PATIENT: Omit<User, 'phoneNumber'> = { id: 'P-1024', name: 'Sarah Devi', role: 'PATIENT' };
+
+const USER_ROLES: UserRole[] = ['PATIENT', 'DOCTOR'];
+
+/**
+ * The fixed demo OTP would sign anyone in as any user against real patient
+ * data, so AUTH_MODE=local with Supabase configured stops the app instead.
+ */
+export const resolveAuthMode = (): AuthMode => {
+  if (isDemoMode) return 'local';
+  const fromEnv = process.env.AUTH_MODE;
+  if (fromEnv === 'local' && isSupabaseConfigured()) {
+    throw new Error('AUTH_MODE=local is only allowed in demo mode or without a Supabase key. Unset AUTH_MODE or set DEMO_MODE=true.');
+  }
+  if (fromEnv === 'local' || fromEnv === 'supabase') return fromEnv;
+  return isSupabaseConfigured() ? 'supabase' : 'local';
+};
+
+export const authMode: AuthMode = resolveAuthMode();
+
+const toE164 = (phone: string) => phone.startsWith('+') ? phone : `${COUNTRY_CODE}${phone}`;
+
+/**
+ * Loads the app-level profile (role, domain id) for an authenticated user.
+ */
+const fetchProfile = async (authUserId: string, phone: string): Promise<AuthResult> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', authUserId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Auth] Error fetching profile:', error);
+    return { user: null, error: 'Could not load your profile. Please try again.' };
+  }
+  if (!data) {
+    return { user: null, error: 'This number is not registered with PAJR. Please contact your clinic.' };
+  }
+  const role = USER_ROLES.find(r => r === data.role);
+  if (!role) {
+    console.error('[Auth] Profile has an unknown role:', data.role);
+    return { user: null, error: 'Your profile has no valid role. Please contact your clinic.' };
+  }
+
+  return {
+    user: {
+      id: data.user_id || data.id,
+      name: data.full_name || data.name,
+      role,
+      phoneNumber: data.phone_number || phone,
+      avatarUrl: data.avatar_url || undefined
+    }
+  };
+};
+
+const localUserFor = (phone: string): User => ({
+  ...(LOCAL_PROFILES[phone] || LOCAL_DEFAULT_PATIENT),
+  phoneNumber: phone
+});
+
+/**
+ * Sends a one-time password by SMS. In local mode no SMS is sent and the
+ * demo code is always accepted.
+ */
+export const sendOtp = async (phone: string): Promise<{ error?: string }> => {
+  if (authMode === 'local') return {};
+
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      phone: toE164(phone),
+      options: { shouldCreateUser: false }
+    });
+    if (error) {
+      console.error('[Auth] Error sending OTP:', error);
+      return { error: error.message };
+    }
+    return {};
+  } catch (err) {
+    console.error('[Auth] Exception in sendOtp:', err);
+    return { error: 'Could not send OTP. Check your connection.' };
+  }
+};
+
+export const verifyOtp = async (phone: string, token: string): Promise<AuthResult> => {
+  if (authMode === 'local') {
+    if (token !== LOCAL_DEMO_OTP) return { user: null, error: 'Invalid code.' };
+    const user = localUserFor(phone);
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(user));
+    return { user };
+  }
+
+  try {
+    const { data, error } = await supabase.auth.verifyOtp({ phone: toE164(phone), token, type: 'sms' });
+    if (error || !data.user) {
+      console.error('[Auth] Error verifying OTP:', error);
+      return { user: null, error: error?.message || 'Invalid code.' };
+    }
+    return await fetchProfile(data.user.id, phone);
+  } catch (err) {
+    console.error('[Auth] Exception in verifyOtp:', err);
+    return { user: null, error: 'Could not verify OTP. Check your connection.' };
+  }
+};
+
+/**
+ * Restores the signed-in user after a page reload. Supabase refreshes an
+ * expired access token from the stored refresh token during `getSession`.
+ */
+export const restoreSession = async (): Promise<User | null> => {
+  if (authMode === 'local') {
+    const stored = localStorage.getItem(LOCAL_SESSION_KEY);
+    return stored ? JSON.parse(stored) as User : null;
+  }
+
+  try {
+    const { data, error } = await supabase.auth.getSession();
+    if (error || !data.session) return null;
+    const { user } = await fetchProfile(data.session.user.id, data.session.user.phone || '');
+    return user;
+  } catch (err) {
+    console.error('[Auth] Exception in restoreSession:', err);
+    return null;
+  }
+};
+
+/**
+ * Notifies when the session ends outside the app's control (expired refresh
+ * token, sign-out in another tab).
+ */
+export const onSignedOut = (callback: () => void) => {
+  if (authMode === 'local') {
+    const handler = (e: StorageEvent) => {
+      if (e.key === LOCAL_SESSION_KEY && !e.newValue) callback();
+    };
+    window.addEventListener('storage', handler);
+    return { unsubscribe: () => window.removeEventListener('storage', handler) };
+  }
+
+  const { data } = supabase.auth.onAuthStateChange(event => {
+    if (event === 'SIGNED_OUT') callback();
+  });
+  return data.subscription;
+};
+
+export const signOut = async () => {
+  if (authMode === 'local') {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+    return;
+  }
+
+  try {
+    await supabase.auth.signOut();
+  } catch (err) {
+    console.error('[Auth] Exception in signOut:', err);
+  }
+};
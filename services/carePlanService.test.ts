@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CarePlan } from '../types';
+import { EMPTY_CARE_PLAN, targetStatus, validateCarePlan } from './carePlanService';
+
+const plan = (changes: Partial<CarePlan>): CarePlan => ({ ...EMPTY_CARE_PLAN, ...changes });
+
+describe('targetStatus', () => {
+  it('compares a reading against both bounds', () => {
+    const glucose = plan({ targets: { GLUCOSE: { min: 80, max: 180 } } });
+
+    expect([60, 80, 180, 240].map(value => targetStatus(glucose, { type: 'GLUCOSE', value }))).toEqual(['BELOW', 'IN_RANGE', 'IN_RANGE', 'ABOVE']);
+  });
+
+  it('checks only the bound a min-only or max-only target sets', () => {
+    const targets = plan({ targets: { SPO2: { min: 94 }, BP_SYSTOLIC: { max: 140 } } });
+
+    expect(targetStatus(targets, { type: 'SPO2', value: 91 })).toBe('BELOW');
+    expect(targetStatus(targets, { type: 'SPO2', value: 100 })).toBe('IN_RANGE');
+    expect(targetStatus(targets, { type: 'BP_SYSTOLIC', value: 150 })).toBe('ABOVE');
+    expect(targetStatus(targets, { type: 'BP_SYSTOLIC', value: 90 })).toBe('IN_RANGE');
+  });
+
+  it('has no status without a plan or a bounded target', () => {
+    expect(targetStatus(undefined, { type: 'GLUCOSE', value: 140 })).toBeUndefined();
+    expect(targetStatus(plan({ targets: { GLUCOSE: {} } }), { type: 'GLUCOSE', value: 140 })).toBeUndefined();
+    expect(targetStatus(plan({ targets: { GLUCOSE: { max: 180 } } }), { type: 'WEIGHT', value: 70 })).toBeUndefined();
+  });
+
+  it('reads an inverted range as out of range on one side or the other', () => {
+    const inverted = plan({ targets: { GLUCOSE: { min: 180, max: 80 } } });
+
+    expect([60, 120, 240].map(value => targetStatus(inverted, { type: 'GLUCOSE', value }))).toEqual(['BELOW', 'BELOW', 'ABOVE']);
+  });
+});
+
+describe('validateCarePlan', () => {
+  it('accepts an empty plan and one-sided targets', () => {
+    expect(validateCarePlan(EMPTY_CARE_PLAN)).toEqual([]);
+    expect(validateCarePlan(plan({ targets: { SPO2: { min: 94 }, BP_SYSTOLIC: { max: 140 } } }))).toEqual([]);
+  });
+
+  it('rejects an inverted range', () => {
+    expect(validateCarePlan(plan({ targets: { GLUCOSE: { min: 180, max: 80 } } }))).toEqual(['Glucose: minimum is above maximum']);
+  });
+
+  it('rejects fractional or non-positive frequencies', () => {
+    const errors = validateCarePlan(plan({ frequency: { GLUCOSE: { times: 1.5, period: 'DAY' }, WEIGHT: { times: 0, period: 'WEEK' } } }));
+
+    expect(errors).toEqual(['Glucose: frequency must be a whole number of readings', 'Weight: frequency must be a whole number of readings']);
+  });
+
+  it('rejects out-of-range goals', () => {
+    expect(validateCarePlan(plan({ goals: { dailySteps: 0, sleepHours: 25 } }))).toEqual([
+      'Daily steps goal must be positive',
+      'Sleep goal must be between 0 and 24 hours'
+    ]);
+  });
+});
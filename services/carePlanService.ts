@@ -0,0 +1,88 @@
+import { CarePlan, MeasurementFrequency, VitalSign, VitalTarget } from "../types";
+
+/**
+ * Per-patient care plan: vital target ranges, measurement frequency and
+ * activity goals. All functions are pure; callers persist the returned plan.
+ */
+
+export type TargetStatus = 'IN_RANGE' | 'BELOW' | 'ABOVE';
+
+/**
+ * Vitals a care plan can set targets for, in display order.
+ */
+export const PLAN_VITALS: { type: VitalSign['type']; label: string; unit: string }[] = [
+  { type: 'GLUCOSE', label: 'Glucose', unit: 'mg/dL' },
+  { type: 'BP_SYSTOLIC', label: 'BP systolic', unit: 'mmHg' },
+  { type: 'BP_DIASTOLIC', label: 'BP diastolic', unit: 'mmHg' },
+  { type: 'HEART_RATE', label: 'Pulse', unit: 'bpm' },
+  { type: 'SPO2', label: 'SpO2', unit: '%' },
+  { type: 'TEMP', label: 'Temperature', unit: '°F' },
+  { type: 'WEIGHT', label: 'Weight', unit: 'kg' },
+  { type: 'URINE_OUTPUT', label: 'Urine output', unit: 'ml/day' }
+];
+
+export const EMPTY_CARE_PLAN: CarePlan = { targets: {}, frequency: {}, goals: {} };
+
+const hasBound = (target?: VitalTarget): target is VitalTarget =>
+  !!target && (target.min !== undefined || target.max !== undefined);
+
+export const targetFor = (plan: CarePlan | undefined, type: VitalSign['type']): VitalTarget | undefined => {
+  const target = plan?.targets[type];
+  return hasBound(target) ? target : undefined;
+};
+
+/**
+ * Where a reading falls against the patient's target; undefined when the
+ * plan sets no target for that vital.
+ */
+export const targetStatus = (plan: CarePlan | undefined, vital: Pick<VitalSign, 'type' | 'value'>): TargetStatus | undefined => {
+  const target = targetFor(plan, vital.type);
+  if (!target) return undefined;
+  if (target.min !== undefined && vital.value < target.min) return 'BELOW';
+  if (target.max !== undefined && vital.value > target.max) return 'ABOVE';
+  return 'IN_RANGE';
+};
+
+export const formatTarget = (target: VitalTarget): string =>
+  target.min !== undefined && target.max !== undefined
+    ? `${target.min}–${target.max}`
+    : target.min !== undefined
+    ? `≥ ${target.min}`
+    : `≤ ${target.max}`;
+
+export const formatFrequency = (frequency: MeasurementFrequency): string =>
+  `${frequency.times}x per ${frequency.period === 'DAY' ? 'day' : 'week'}`;
+
+/**
+ * Problems that would make the plan contradictory; empty when valid.
+ */
+export const validateCarePlan = (plan: CarePlan): string[] => {
+  const errors: string[] = [];
+  PLAN_VITALS.forEach(({ type, label }) => {
+    const target = plan.targets[type];
+    if (target?.min !== undefined && target.max !== undefined && target.min > target.max) {
+      errors.push(`${label}: minimum is above maximum`);
+    }
+    const frequency = plan.frequency[type];
+    if (frequency && (!Number.isInteger(frequency.times) || frequency.times < 1)) {
+      errors.push(`${label}: frequency must be a whole number of readings`);
+    }
+  });
+  if (plan.goals.dailySteps !== undefined && plan.goals.dailySteps <= 0) errors.push('Daily steps goal must be positive');
+  if (plan.goals.sleepHours !== undefined && (plan.goals.sleepHours <= 0 || plan.goals.sleepHours > 24)) errors.push('Sleep goal must be between 0 and 24 hours');
+  return errors;
+};
+
+/**
+ * Drops empty targets and stamps who changed the plan.
+ */
+export const updateCarePlan = (plan: CarePlan, actor: string, now: Date = new Date()): CarePlan => ({
+  targets: Object.fromEntries(Object.entries(plan.targets).filter(([, t]) => hasBound(t))),
+  frequency: Object.fromEntries(Object.entries(plan.frequency).filter(([, f]) => !!f && f.times > 0)),
+  goals: {
+    dailySteps: plan.goals.dailySteps || undefined,
+    sleepHours: plan.goals.sleepHours || undefined
+  },
+  updatedAt: now.toISOString(),
+  updatedBy: actor
+});
@@ -0,0 +1,243 @@
+import { CarePlan, ClinicalInsight, InsightRecord, Message, RiskLevel, VitalSign } from "../types";
+import { PLAN_VITALS, formatFrequency } from "./carePlanService";
+import { isEnglish } from "./languageService";
+
+/**
+ * Missed-reading detection. Compares the care plan's measurement frequency
+ * against the patient's readings and activity, sends templated check-ins,
+ * and records a data gap on the latest insight once check-ins go
+ * unanswered. All functions are pure; callers send and persist the results.
+ */
+
+export interface CheckInConfig {
+  /** A reading is overdue after this multiple of its expected interval. */
+  graceFactor: number;
+  /** Never treat a reading as overdue sooner than this. */
+  minGapHours: number;
+  /** Silence that triggers a check-in when the plan sets no frequency. */
+  silenceDays: number;
+  /** Minimum time between two check-ins to the same patient. */
+  nudgeIntervalHours: number;
+  /** Unanswered check-ins before a data gap is recorded. */
+  nudgesBeforeGap: number;
+  /** How often the server scheduler re-checks every patient. */
+  checkIntervalMs: number;
+}
+
+export const DEFAULT_CHECK_IN_CONFIG: CheckInConfig = {
+  graceFactor: 1.5,
+  minGapHours: 24,
+  silenceDays: 3,
+  nudgeIntervalHours: 24,
+  nudgesBeforeGap: 2,
+  checkIntervalMs: 15 * 60 * 1000
+};
+
+export interface ReadingGap {
+  type: VitalSign['type'];
+  expectedEveryHours: number;
+  lastReadingAt?: string;
+  hoursSince: number;
+}
+
+export type CheckInAction =
+  | { type: 'NONE' }
+  | { type: 'NUDGE'; gaps: ReadingGap[] }
+  | { type: 'DATA_GAP'; gaps: ReadingGap[]; note: string };
+
+export const DATA_GAP_PREFIX = 'Data gap:';
+
+/**
+ * The parts of a patient the check-in rules read. Any Patient is one; the
+ * server scheduler loads only these.
+ */
+export interface CheckInSubject {
+  id: string;
+  name: string;
+  preferredLanguage?: string;
+  riskStatus: RiskLevel;
+  lastInteraction: string;
+  carePlan?: CarePlan;
+  vitalsHistory: Pick<VitalSign, 'type' | 'timestamp'>[];
+  messages: Pick<Message, 'sender' | 'kind' | 'timestamp'>[];
+  latestInsight?: ClinicalInsight;
+  insightHistory: InsightRecord[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const PERIOD_HOURS = { DAY: 24, WEEK: 24 * 7 };
+
+const latestReading = (patient: CheckInSubject, type: VitalSign['type']) =>
+  patient.vitalsHistory.filter(v => v.type === type).reduce<CheckInSubject['vitalsHistory'][number] | undefined>(
+    (latest, v) => !latest || time(v.timestamp) > time(latest.timestamp) ? v : latest, undefined);
+
+/**
+ * Last time the patient did something: interacted, messaged or sent a reading.
+ * Check-ins never move `lastInteraction`, so they don't reset the silence.
+ */
+export const lastActivityAt = (patient: CheckInSubject): number => Math.max(
+  time(patient.lastInteraction),
+  ...patient.messages.filter(m => m.sender === 'PATIENT').map(m => time(m.timestamp)),
+  ...patient.vitalsHistory.map(v => time(v.timestamp))
+);
+
+/**
+ * Vitals whose latest reading is older than the care plan's cadence allows.
+ */
+export const readingGaps = (patient: CheckInSubject, now: Date = new Date(), config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG): ReadingGap[] => {
+  const plan = patient.carePlan;
+  if (!plan) return [];
+
+  return PLAN_VITALS.flatMap(({ type }) => {
+    const frequency = plan.frequency[type];
+    if (!frequency || frequency.times <= 0) return [];
+
+    const expectedEveryHours = PERIOD_HOURS[frequency.period] / frequency.times;
+    const latest = latestReading(patient, type);
+    // Without any reading, count from when the plan started asking for one
+    const since = latest?.timestamp ?? plan.updatedAt ?? patient.lastInteraction;
+    const hoursSince = (now.getTime() - time(since)) / HOUR_MS;
+    if (hoursSince < Math.max(expectedEveryHours * config.graceFactor, config.minGapHours)) return [];
+
+    return [{ type, expectedEveryHours, lastReadingAt: latest?.timestamp, hoursSince }];
+  });
+};
+
+const formatDuration = (hours: number) =>
+  hours >= 48 ? `${Math.floor(hours / 24)} days` : `${Math.floor(hours)} hours`;
+
+/**
+ * Clinician-facing missingData item, always starting with DATA_GAP_PREFIX.
+ */
+export const dataGapNote = (patient: CheckInSubject, gaps: ReadingGap[], now: Date = new Date()): string => {
+  if (gaps.length === 0) {
+    return `${DATA_GAP_PREFIX} no contact for ${formatDuration((now.getTime() - lastActivityAt(patient)) / HOUR_MS)} despite check-ins`;
+  }
+  const items = gaps
+    // Systolic and diastolic are read together; report BP once
+    .filter(g => g.type !== 'BP_DIASTOLIC' || !gaps.some(o => o.type === 'BP_SYSTOLIC'))
+    .map(g => {
+      const label = g.type === 'BP_SYSTOLIC' ? 'BP' : PLAN_VITALS.find(v => v.type === g.type)?.label ?? g.type;
+      const frequency = patient.carePlan?.frequency[g.type];
+      return `no ${label} reading for ${formatDuration(g.hoursSince)}${frequency ? ` (expected ${formatFrequency(frequency)})` : ''}`;
+    });
+  return `${DATA_GAP_PREFIX} ${items.join('; ')} despite check-ins`;
+};
+
+export const hasDataGap = (patient: CheckInSubject) =>
+  !!patient.latestInsight?.missingData.some(item => item.startsWith(DATA_GAP_PREFIX));
+
+/**
+ * Earliest check-in a scheduler run needs to see. With one check-in per nudge
+ * interval, every unanswered check-in that can still lead to a data gap was
+ * sent inside this window.
+ */
+export const checkInWindowStart = (now: Date = new Date(), config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG): Date =>
+  new Date(now.getTime() - (config.nudgesBeforeGap + 1) * config.nudgeIntervalHours * HOUR_MS);
+
+/**
+ * Decides what the scheduler should do for one patient right now.
+ */
+export const assessCheckIn = (patient: CheckInSubject, now: Date = new Date(), config: CheckInConfig = DEFAULT_CHECK_IN_CONFIG): CheckInAction => {
+  const gaps = readingGaps(patient, now, config);
+  const plansFrequency = !!patient.carePlan && Object.keys(patient.carePlan.frequency).length > 0;
+  const activityAt = lastActivityAt(patient);
+  const silent = !plansFrequency && now.getTime() - activityAt >= config.silenceDays * 24 * HOUR_MS;
+  if (gaps.length === 0 && !silent) return { type: 'NONE' };
+
+  const checkIns = patient.messages.filter(m => m.kind === 'CHECK_IN');
+  const lastCheckIn = checkIns[checkIns.length - 1];
+  if (lastCheckIn && now.getTime() - time(lastCheckIn.timestamp) < config.nudgeIntervalHours * HOUR_MS) {
+    return { type: 'NONE' };
+  }
+
+  const unanswered = checkIns.filter(m => time(m.timestamp) > activityAt).length;
+  if (unanswered < config.nudgesBeforeGap) return { type: 'NUDGE', gaps };
+  if (hasDataGap(patient)) return { type: 'NONE' };
+  return { type: 'DATA_GAP', gaps, note: dataGapNote(patient, gaps, now) };
+};
+
+interface CheckInTemplate {
+  labels: Partial<Record<VitalSign['type'], string>>;
+  missing: (name: string, labels: string) => string;
+  silent: (name: string) => string;
+}
+
+const CHECK_IN_TEMPLATES: Record<string, CheckInTemplate> = {
+  'en': {
+    labels: { GLUCOSE: 'blood sugar', BP_SYSTOLIC: 'blood pressure', BP_DIASTOLIC: 'blood pressure', HEART_RATE: 'pulse', SPO2: 'oxygen', TEMP: 'temperature', WEIGHT: 'weight', URINE_OUTPUT: 'urine output' },
+    missing: (name, labels) => `Hi ${name}, we haven't received your ${labels} readings recently. Could you share them today?`,
+    silent: name => `Hi ${name}, we haven't heard from you in a few days. How are you feeling? Please share your latest readings when you can.`
+  },
+  'hi': {
+    labels: { GLUCOSE: 'शुगर', BP_SYSTOLIC: 'बीपी', BP_DIASTOLIC: 'बीपी', HEART_RATE: 'नाड़ी', SPO2: 'ऑक्सीजन', TEMP: 'तापमान', WEIGHT: 'वज़न', URINE_OUTPUT: 'पेशाब' },
+    missing: (name, labels) => `नमस्ते ${name}, हमें हाल ही में आपकी ${labels} की रीडिंग नहीं मिली है। क्या आप आज इसे भेज सकते हैं?`,
+    silent: name => `नमस्ते ${name}, कुछ दिनों से आपसे बात नहीं हुई है। आप कैसा महसूस कर रहे हैं? कृपया अपनी ताज़ा रीडिंग भेजें।`
+  },
+  'hi-Latn': {
+    labels: { GLUCOSE: 'sugar', BP_SYSTOLIC: 'BP', BP_DIASTOLIC: 'BP', HEART_RATE: 'pulse', SPO2: 'oxygen', TEMP: 'temperature', WEIGHT: 'weight', URINE_OUTPUT: 'urine' },
+    missing: (name, labels) => `Namaste ${name}, humein haal mein aapki ${labels} reading nahi mili hai. Kya aap aaj bhej sakte hain?`,
+    silent: name => `Namaste ${name}, kuch dinon se aapse baat nahi hui. Aap kaisa mehsoos kar rahe hain? Kripya apni latest readings bhejiye.`
+  },
+  'te': {
+    labels: { GLUCOSE: 'షుగర్', BP_SYSTOLIC: 'బీపీ', BP_DIASTOLIC: 'బీపీ', HEART_RATE: 'పల్స్', SPO2: 'ఆక్సిజన్', TEMP: 'ఉష్ణోగ్రత', WEIGHT: 'బరువు', URINE_OUTPUT: 'మూత్రం' },
+    missing: (name, labels) => `నమస్తే ${name}, ఇటీవల మీ ${labels} రీడింగ్ మాకు అందలేదు. ఈ రోజు పంపగలరా?`,
+    silent: name => `నమస్తే ${name}, కొన్ని రోజులుగా మీ నుండి సమాచారం లేదు. మీరు ఎలా ఉన్నారు? దయచేసి మీ తాజా రీడింగ్‌లు పంపండి.`
+  },
+  'bn': {
+    labels: { GLUCOSE: 'সুগার', BP_SYSTOLIC: 'বিপি', BP_DIASTOLIC: 'বিপি', HEART_RATE: 'পালস', SPO2: 'অক্সিজেন', TEMP: 'তাপমাত্রা', WEIGHT: 'ওজন', URINE_OUTPUT: 'প্রস্রাব' },
+    missing: (name, labels) => `নমস্কার ${name}, সম্প্রতি আপনার ${labels} রিডিং আমরা পাইনি। আজ কি পাঠাতে পারবেন?`,
+    silent: name => `নমস্কার ${name}, কয়েক দিন ধরে আপনার কোনো খবর পাইনি। আপনি কেমন আছেন? অনুগ্রহ করে আপনার সাম্প্রতিক রিডিং পাঠান।`
+  }
+};
+
+const renderCheckIn = (template: CheckInTemplate, name: string, gaps: ReadingGap[], joiner: string) => {
+  const labels = Array.from(new Set(gaps.map(g => template.labels[g.type] ?? g.type)));
+  return labels.length === 0 ? template.silent(name) : template.missing(name, labels.join(joiner));
+};
+
+/**
+ * Templated SYSTEM check-in in the patient's preferred language, with an
+ * English translation for the clinician view.
+ */
+export const createCheckInMessage = (patient: CheckInSubject, gaps: ReadingGap[], now: Date = new Date()): Message => {
+  const name = patient.name.split(' ')[0];
+  const language = patient.preferredLanguage && CHECK_IN_TEMPLATES[patient.preferredLanguage] ? patient.preferredLanguage : 'en';
+  const english = renderCheckIn(CHECK_IN_TEMPLATES.en, name, gaps, ' and ');
+  const localized = isEnglish(language) ? english : renderCheckIn(CHECK_IN_TEMPLATES[language], name, gaps, ', ');
+
+  return {
+    id: crypto.randomUUID(),
+    sender: 'SYSTEM',
+    type: 'TEXT',
+    kind: 'CHECK_IN',
+    content: localized,
+    timestamp: now.toISOString(),
+    language,
+    translation: isEnglish(language) ? undefined : english
+  };
+};
+
+/**
+ * Adds (or replaces) the data gap item on an insight.
+ */
+export const withDataGap = (insight: ClinicalInsight, note: string): ClinicalInsight => ({
+  ...insight,
+  missingData: [...insight.missingData.filter(item => !item.startsWith(DATA_GAP_PREFIX)), note]
+});
+
+/**
+ * Insight recorded for a patient with a data gap but no prior assessment.
+ */
+export const dataGapInsight = (patient: CheckInSubject, note: string): ClinicalInsight => ({
+  summary: "Expected readings have not arrived and automated check-ins went unanswered.",
+  riskLevel: patient.riskStatus,
+  confidenceScore: 1,
+  reasoning: [note],
+  themes: ["Data Gap"],
+  missingData: [note],
+  clinicalActionSuggestion: "Contact the patient to confirm they are well and able to send readings."
+});
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Patient } from '../types';
+import { buildTriageContext, estimateTokens } from './contextBuilder';
+
+const NOW = new Date('2024-06-15T10:00:00Z');
+
+// The demo dataset is dated relative to load time, so load it under a fixed clock
+let patients: Patient[];
+
+beforeAll(async () => {
+  vi.useFakeTimers({ now: NOW });
+  ({ MOCK_PATIENTS: patients } = await import('../data/mockPatients'));
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+const patient = (id: string) => patients.find(p => p.id === id)!;
+
+describe('buildTriageContext', () => {
+  it('summarizes Sarah Devi', () => {
+    expect(buildTriageContext(patient('P-1024'), { now: NOW, maxTokens: 2000 })).toMatchInlineSnapshot(`
+      "Patient:
+      - Age 58
+      - Conditions: Type 2 Diabetes, Hypertension
+      Previous AI Insight:
+      - Risk MEDIUM (confidence 0.88): Glucose trending upwards over last 48 hours. Spiked to 165 fasting. Likely dietary slip or medication gap.
+      - Themes: Glycemic Instability, High Carb Pattern
+      - Outstanding data: Latest HbA1c, Evening BP readings
+      Vital Trends:
+      - GLUCOSE: latest 155 mg/dL (2023-10-24), Δ -10 vs previous, range 140-165 over 3 readings, rising
+      - BP_SYSTOLIC: latest 135 mmHg (2023-10-24), single reading
+      - BP_DIASTOLIC: latest 88 mmHg (2023-10-24), single reading
+      - URINE_OUTPUT: latest 1400 ml (2023-10-24), single reading
+      - HEART_RATE: latest 72 bpm (2023-10-24), single reading
+      - TEMP: latest 98.6 °F (2023-10-24), single reading
+      Care Plan:
+      - GLUCOSE target 80–130 mg/dL, latest 155 above target
+      - BP_SYSTOLIC target ≤ 130 mmHg, latest 135 above target
+      - BP_DIASTOLIC target ≤ 80 mmHg, latest 88 above target
+      - HEART_RATE target 60–100 bpm, latest 72 on target
+      - Measure: GLUCOSE 2x per day, BP_SYSTOLIC 1x per day, BP_DIASTOLIC 1x per day
+      - Goal: 6000 steps/day
+      - Goal: 7 h sleep/night
+      Medication Adherence (7 days):
+      - Metformin 500 mg, 1 tablet at 08:00, 20:00: 77% taken (10/13, 1 skipped, 2 missed)
+      - Amlodipine 5 mg at 09:00: 83% taken (5/6, 1 skipped, 0 missed)
+      - Overall adherence: 79%
+      Wearables:
+      - Steps: avg 5243/day over 7 days, last 2900 (2024-06-15)
+      - Sleep: avg 7.2 h over 7 days, last 9.2 h (2024-06-15)
+      Food Log:
+      - 1 meal(s) logged, 0 flagged
+      Recent Conversation:
+      - SYSTEM (2024-06-15): Welcome to PAJR. Please share your readings via WhatsApp or here."
+    `);
+  });
+
+  it('summarizes Anil Gupta', () => {
+    expect(buildTriageContext(patient('P-5050'), { now: NOW, maxTokens: 2000 })).toMatchInlineSnapshot(`
+      "Patient:
+      - Age 62
+      - Conditions: Cardiac Follow-up
+      - Preferred language: Hindi (hi)
+      Previous AI Insight:
+      - Risk CRITICAL (confidence 0.95): Patient reporting dizziness accompanied by BP spike (168/95). Immediate clinician review recommended.
+      - Themes: Hypertensive Crisis, Symptomatic
+      Vital Trends:
+      - BP_SYSTOLIC: latest 168 mmHg (2024-06-15), single reading
+      - BP_DIASTOLIC: latest 95 mmHg (2024-06-15), single reading
+      - HEART_RATE: latest 98 bpm (2024-06-15), single reading
+      Care Plan:
+      - BP_SYSTOLIC target ≤ 140 mmHg, latest 168 above target
+      - BP_DIASTOLIC target ≤ 90 mmHg, latest 95 above target
+      - HEART_RATE target 60–90 bpm, latest 98 above target
+      - Measure: BP_SYSTOLIC 2x per day, BP_DIASTOLIC 2x per day, HEART_RATE 2x per day
+      - Goal: 4000 steps/day
+      Medication Adherence (7 days):
+      - Metoprolol 25 mg at 09:00, 21:00: 15% taken (2/13, 1 skipped, 10 missed)
+      - Aspirin 75 mg at 09:00: 50% taken (3/6, 0 skipped, 3 missed)
+      - Overall adherence: 26%
+      Wearables:
+      - Steps: avg 5243/day over 7 days, last 2900 (2024-06-15)
+      - Sleep: avg 7.2 h over 7 days, last 9.2 h (2024-06-15)
+      Recent Conversation:
+      - PATIENT (2024-06-15): Feeling slightly dizzy since morning."
+    `);
+  });
+
+  it('counts meals logged without a nutrition estimate', () => {
+    const base = patient('P-5050');
+    const context = buildTriageContext({ ...base, foodLogs: [{ id: 'f1', imageUrl: 'meal.jpg', timestamp: NOW.toISOString() }] });
+
+    expect(context).toContain('1 meal(s) logged, 0 flagged, 1 not analyzed');
+  });
+
+  it('fits the default budget', () => {
+    expect(estimateTokens(buildTriageContext(patient('P-1024'), { now: NOW }))).toBeLessThanOrEqual(600);
+  });
+
+  it('drops lower priority sections to stay within small budgets', () => {
+    const full = buildTriageContext(patient('P-1024'), { now: NOW, maxTokens: 2000 });
+    [120, 250, 400].forEach(maxTokens => {
+      const context = buildTriageContext(patient('P-1024'), { now: NOW, maxTokens });
+      expect(estimateTokens(context)).toBeLessThanOrEqual(maxTokens);
+      expect(context.startsWith('Patient:\n- Age 58')).toBe(true);
+      expect(context.length).toBeLessThan(full.length);
+    });
+  });
+
+  it('keeps the newest conversation turns when truncating', () => {
+    const base = patient('P-5050');
+    const chatty: Patient = {
+      ...base,
+      messages: Array.from({ length: 6 }, (_, i) => ({
+        id: `m${i}`,
+        sender: 'PATIENT' as const,
+        type: 'TEXT' as const,
+        content: `Message number ${i} ${'x'.repeat(100)}`,
+        timestamp: new Date(NOW.getTime() - (6 - i) * 60 * 1000).toISOString()
+      }))
+    };
+    const full = buildTriageContext(chatty, { now: NOW, maxTokens: 5000 });
+    const context = buildTriageContext(chatty, { now: NOW, maxTokens: estimateTokens(full) - 60 });
+
+    expect(context).toContain('Message number 5');
+    expect(context).not.toContain('Message number 0');
+    expect(context.endsWith('…(truncated)')).toBe(true);
+  });
+});
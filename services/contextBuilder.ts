@@ -0,0 +1,224 @@
+import { Patient, VitalSign } from "../types";
+import { languageLabel } from "./languageService";
+import { PLAN_VITALS, formatFrequency, formatTarget, targetFor, targetStatus } from "./carePlanService";
+import { computeAdherence, DEFAULT_REMINDER_CONFIG } from "./medicationService";
+import { analyzeVitals, describeAnalytics } from "./vitalAnalyticsService";
+
+/**
+ * Builds the longitudinal patient summary passed to `analyzePatientInput`.
+ * Sections are added in priority order until the token budget is spent, so
+ * the prompt stays bounded no matter how long a patient has been enrolled.
+ */
+
+export interface TriageContextOptions {
+  /** Approximate token budget for the whole context block. */
+  maxTokens?: number;
+  /** Number of most recent conversation turns to include. */
+  recentMessages?: number;
+  /** Number of most recent readings per vital used for trends. */
+  trendWindow?: number;
+  /** Reference time for time-relative sections such as adherence. */
+  now?: Date;
+}
+
+interface ContextSection {
+  title: string;
+  lines: string[];
+  /** When truncating, keep the newest lines (end of list) instead of the first. */
+  keepLatest?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TriageContextOptions, 'now'>> = {
+  maxTokens: 600,
+  recentMessages: 6,
+  trendWindow: 5
+};
+
+const TRUNCATION_MARKER = "…(truncated)";
+
+/**
+ * Rough token estimate (~4 characters per token) — good enough for budgeting.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const formatDate = (iso: string) => iso.slice(0, 10);
+
+const formatNumber = (n: number) => Number.isInteger(n) ? `${n}` : n.toFixed(1);
+
+const describeTrend = (readings: VitalSign[]): string => {
+  if (readings.length < 2) return "single reading";
+  const first = readings[0].value;
+  const last = readings[readings.length - 1].value;
+  const change = first === 0 ? 0 : (last - first) / Math.abs(first);
+  if (change > 0.05) return "rising";
+  if (change < -0.05) return "falling";
+  return "stable";
+};
+
+export const summarizeVitals = (vitals: VitalSign[], trendWindow: number): string[] => {
+  const byType = new Map<VitalSign['type'], VitalSign[]>();
+  [...vitals]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(v => byType.set(v.type, [...(byType.get(v.type) || []), v]));
+
+  return Array.from(byType.entries()).map(([type, all]) => {
+    const window = all.slice(-trendWindow);
+    const latest = window[window.length - 1];
+    const previous = window[window.length - 2];
+    const values = window.map(v => v.value);
+    const delta = previous ? `, Δ ${latest.value - previous.value >= 0 ? '+' : ''}${formatNumber(latest.value - previous.value)} vs previous` : '';
+    const range = window.length > 1 ? `, range ${formatNumber(Math.min(...values))}-${formatNumber(Math.max(...values))} over ${window.length} readings` : '';
+    return `${type}: latest ${formatNumber(latest.value)} ${latest.unit} (${formatDate(latest.timestamp)})${delta}${range}, ${describeTrend(window)}`;
+  });
+};
+
+const summarizeCarePlan = (patient: Patient): string[] => {
+  const plan = patient.carePlan;
+  if (!plan) return [];
+  const latest = (type: VitalSign['type']) =>
+    [...patient.vitalsHistory].filter(v => v.type === type).sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+
+  const targets = PLAN_VITALS.flatMap(({ type, unit }) => {
+    const target = targetFor(plan, type);
+    if (!target) return [];
+    const reading = latest(type);
+    const status = reading ? targetStatus(plan, reading) : undefined;
+    const position = status === 'ABOVE' ? 'above target' : status === 'BELOW' ? 'below target' : 'on target';
+    return [`${type} target ${formatTarget(target)} ${unit}${reading ? `, latest ${formatNumber(reading.value)} ${position}` : ''}`];
+  });
+  const frequency = PLAN_VITALS
+    .filter(({ type }) => plan.frequency[type])
+    .map(({ type }) => `${type} ${formatFrequency(plan.frequency[type]!)}`);
+
+  return [
+    ...targets,
+    ...(frequency.length > 0 ? [`Measure: ${frequency.join(', ')}`] : []),
+    ...(plan.goals.dailySteps ? [`Goal: ${plan.goals.dailySteps} steps/day`] : []),
+    ...(plan.goals.sleepHours ? [`Goal: ${plan.goals.sleepHours} h sleep/night`] : [])
+  ];
+};
+
+const summarizeMedications = (patient: Patient, now: Date): string[] => {
+  const { medications, overall } = computeAdherence(patient, now);
+  return [
+    ...medications.map(a => {
+      const med = patient.medications.find(m => m.id === a.medicationId);
+      const schedule = med ? `${med.dosage} at ${med.times.join(', ')}${med.active ? '' : ', stopped'}` : '';
+      const adherence = a.percent === undefined
+        ? 'no doses due yet'
+        : `${a.percent}% taken (${a.taken}/${a.scheduled}, ${a.skipped} skipped, ${a.missed} missed)`;
+      return `${a.name} ${schedule}: ${adherence}`;
+    }),
+    ...(overall !== undefined && medications.length > 1 ? [`Overall adherence: ${overall}%`] : [])
+  ];
+};
+
+const summarizeWearables = (patient: Patient): string[] => {
+  const recent = patient.wearableHistory.slice(-7);
+  const steps = recent.filter(d => d.steps !== undefined);
+  const sleep = recent.filter(d => d.sleepHours !== undefined);
+  const lines: string[] = [];
+  if (steps.length > 0) {
+    const avg = steps.reduce((s, d) => s + d.steps!, 0) / steps.length;
+    const last = steps[steps.length - 1];
+    lines.push(`Steps: avg ${Math.round(avg)}/day over ${steps.length} days, last ${last.steps} (${last.date})`);
+  }
+  if (sleep.length > 0) {
+    const avg = sleep.reduce((s, d) => s + d.sleepHours!, 0) / sleep.length;
+    const last = sleep[sleep.length - 1];
+    lines.push(`Sleep: avg ${avg.toFixed(1)} h over ${sleep.length} days, last ${last.sleepHours} h (${last.date})`);
+  }
+  return lines;
+};
+
+const summarizeFood = (patient: Patient): string[] => {
+  const logs = patient.foodLogs;
+  if (logs.length === 0) return [];
+  const flags = logs.flatMap(l => l.analysis ? [l.analysis.flag] : []).filter(flag => flag !== 'Balanced');
+  const counts = flags.reduce<Record<string, number>>((acc, flag) => {
+    acc[flag] = (acc[flag] || 0) + 1;
+    return acc;
+  }, {});
+  const flagSummary = Object.entries(counts).map(([flag, n]) => `${flag} x${n}`).join(', ');
+  const unanalyzed = logs.filter(l => !l.analysis).length;
+  return [`${logs.length} meal(s) logged, ${flags.length} flagged${flagSummary ? ` (${flagSummary})` : ''}${unanalyzed > 0 ? `, ${unanalyzed} not analyzed` : ''}`];
+};
+
+const summarizeInsight = (patient: Patient): string[] => {
+  const insight = patient.latestInsight;
+  if (!insight) return [];
+  return [
+    `Risk ${insight.riskLevel} (confidence ${insight.confidenceScore}): ${insight.summary}`,
+    ...(insight.themes.length > 0 ? [`Themes: ${insight.themes.join(', ')}`] : []),
+    ...(insight.missingData.length > 0 ? [`Outstanding data: ${insight.missingData.join(', ')}`] : [])
+  ];
+};
+
+const summarizeConversation = (patient: Patient, recentMessages: number): string[] =>
+  patient.messages.slice(-recentMessages).map(m => {
+    const body = m.type === 'TEXT'
+      ? m.content
+      : m.type === 'AUDIO' && m.transcript
+      ? `[Voice note] ${m.transcript}`
+      : `[${m.type}${m.fileName ? `: ${m.fileName}` : ''}]${m.caption ? ` ${m.caption}` : ''}`;
+    return `${m.sender} (${formatDate(m.timestamp)}): ${body.length > 160 ? `${body.slice(0, 157)}...` : body}`;
+  });
+
+const renderSection = (section: ContextSection) => `${section.title}:\n${section.lines.map(l => `- ${l}`).join('\n')}`;
+
+/**
+ * Summarizes a patient into a bounded prompt context. Output is deterministic
+ * for a given patient and `now` so it can be pinned in fixtures.
+ */
+export const buildTriageContext = (patient: Patient, options: TriageContextOptions = {}): string => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const now = options.now ?? new Date();
+
+  // Ordered by clinical priority; lower sections are dropped first when over budget
+  const sections: ContextSection[] = [
+    {
+      title: "Patient",
+      lines: [
+        `Age ${patient.age}`,
+        `Conditions: ${patient.condition.join(', ') || 'none recorded'}`,
+        ...(patient.preferredLanguage ? [`Preferred language: ${languageLabel(patient.preferredLanguage)} (${patient.preferredLanguage})`] : [])
+      ]
+    },
+    { title: "Previous AI Insight", lines: summarizeInsight(patient) },
+    { title: "Vital Trends", lines: summarizeVitals(patient.vitalsHistory, opts.trendWindow) },
+    // A single reading has no trend; Vital Trends already reports it
+    { title: "Trend Analytics", lines: analyzeVitals(patient.vitalsHistory, now).filter(a => a.rollingCount > 1).map(a => describeAnalytics(a)) },
+    { title: "Care Plan", lines: summarizeCarePlan(patient) },
+    { title: `Medication Adherence (${DEFAULT_REMINDER_CONFIG.adherenceDays} days)`, lines: summarizeMedications(patient, now) },
+    { title: "Wearables", lines: summarizeWearables(patient) },
+    { title: "Food Log", lines: summarizeFood(patient) },
+    { title: "Recent Conversation", lines: summarizeConversation(patient, opts.recentMessages), keepLatest: true }
+  ].filter(s => s.lines.length > 0);
+
+  const rendered: string[] = [];
+  let used = 0;
+
+  for (const section of sections) {
+    const full = renderSection(section);
+    const cost = estimateTokens(full) + 1;
+    if (used + cost <= opts.maxTokens) {
+      rendered.push(full);
+      used += cost;
+      continue;
+    }
+
+    // Fit as many lines of this section as the remaining budget allows
+    const kept: string[] = [];
+    const candidates = section.keepLatest ? [...section.lines].reverse() : section.lines;
+    for (const line of candidates) {
+      const next = section.keepLatest ? [line, ...kept] : [...kept, line];
+      const candidate = renderSection({ title: section.title, lines: [...next, TRUNCATION_MARKER] });
+      if (used + estimateTokens(candidate) + 1 > opts.maxTokens) break;
+      kept.splice(0, kept.length, ...next);
+    }
+    if (kept.length > 0) rendered.push(renderSection({ title: section.title, lines: [...kept, TRUNCATION_MARKER] }));
+    break;
+  }
+
+  return rendered.join('\n');
+};
@@ -0,0 +1,9 @@
+/**
+ * Demo mode runs the app entirely on the bundled mock dataset: no Supabase
+ * reads or writes, and offline auth. Enabled explicitly with DEMO_MODE=true
+ * or a `?demo` query parameter.
+ */
+const hasDemoParam = () =>
+  typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('demo');
+
+export const isDemoMode: boolean = process.env.DEMO_MODE === 'true' || hasDemoParam();
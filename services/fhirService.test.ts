@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { Patient, RiskLevel, VitalSign } from '../types';
+import { FhirBundle, FhirCondition, FhirObservation, FhirPatient, VITAL_CODES, exportPatientBundle, importPatientBundle } from './fhirService';
+
+const NOW = new Date('2024-06-15T10:00:00Z');
+
+const vitals: VitalSign[] = [
+  { type: 'BP_SYSTOLIC', value: 142, unit: 'mmHg', timestamp: '2024-06-14T08:00:00.000Z' },
+  { type: 'BP_DIASTOLIC', value: 91, unit: 'mmHg', timestamp: '2024-06-14T08:00:00.000Z' },
+  { type: 'GLUCOSE', value: 155, unit: 'mg/dL', timestamp: '2024-06-14T08:05:00.000Z' },
+  { type: 'HEART_RATE', value: 78, unit: 'bpm', timestamp: '2024-06-14T08:00:00.000Z' },
+  { type: 'SPO2', value: 97, unit: '%', timestamp: '2024-06-14T08:00:00.000Z' },
+  { type: 'WEIGHT', value: 81.5, unit: 'kg', timestamp: '2024-06-13T07:00:00.000Z' },
+  { type: 'TEMP', value: 99.1, unit: '°F', timestamp: '2024-06-13T07:00:00.000Z' },
+  { type: 'URINE_OUTPUT', value: 1400, unit: 'ml', timestamp: '2024-06-13T07:00:00.000Z' },
+  // No diastolic at this time, so it stays a standalone observation
+  { type: 'BP_SYSTOLIC', value: 150, unit: 'mmHg', timestamp: '2024-06-15T08:00:00.000Z' }
+];
+
+const patient: Patient = {
+  id: 'P-1',
+  name: 'Test Patient',
+  age: 60,
+  phoneNumber: '+919800000000',
+  preferredLanguage: 'hi',
+  assignedDoctorId: 'D-1',
+  condition: ['Type 2 Diabetes', 'Hypertension'],
+  lastInteraction: NOW.toISOString(),
+  riskStatus: RiskLevel.LOW,
+  vitalsHistory: vitals,
+  messages: [],
+  insightHistory: [],
+  isFlagged: false,
+  replyDrafts: [],
+  medications: [],
+  doses: [],
+  wearableHistory: [],
+  foodLogs: []
+};
+
+const resources = (bundle: FhirBundle) => (bundle.entry || []).map(e => e.resource!);
+
+const observations = (bundle: FhirBundle) =>
+  resources(bundle).filter((r): r is FhirObservation => r.resourceType === 'Observation');
+
+const loincOf = (observation: FhirObservation) => observation.code.coding?.[0]?.code;
+
+const byTime = (a: VitalSign, b: VitalSign) => a.timestamp.localeCompare(b.timestamp) || a.type.localeCompare(b.type);
+
+describe('exportPatientBundle', () => {
+  const bundle = exportPatientBundle(patient, NOW);
+
+  it('is a collection bundle with the patient first', () => {
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('collection');
+    expect(bundle.timestamp).toBe(NOW.toISOString());
+    expect(bundle.entry!.every(e => e.fullUrl?.startsWith('urn:uuid:'))).toBe(true);
+
+    const fhirPatient = bundle.entry![0].resource as FhirPatient;
+    expect(fhirPatient).toEqual({
+      resourceType: 'Patient',
+      id: 'P-1',
+      name: [{ text: 'Test Patient' }],
+      telecom: [{ system: 'phone', value: '+919800000000', use: 'mobile' }],
+      birthDate: '1964',
+      communication: [{ language: { coding: [{ system: 'urn:ietf:bcp:47', code: 'hi' }] }, preferred: true }]
+    });
+  });
+
+  it('exports active conditions referencing the patient', () => {
+    const patientUrl = bundle.entry![0].fullUrl;
+    const conditions = resources(bundle).filter((r): r is FhirCondition => r.resourceType === 'Condition');
+
+    expect(conditions.map(c => c.code?.text)).toEqual(['Type 2 Diabetes', 'Hypertension']);
+    conditions.forEach(c => {
+      expect(c.subject.reference).toBe(patientUrl);
+      expect(c.clinicalStatus?.coding?.[0]).toEqual({ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' });
+    });
+  });
+
+  it('codes each reading with LOINC and UCUM', () => {
+    const patientUrl = bundle.entry![0].fullUrl;
+    const single = observations(bundle).filter(o => o.valueQuantity);
+
+    expect(single.map(loincOf).sort()).toEqual(['2339-0', '29463-7', '59408-5', '8310-5', '8480-6', '8867-4', '9187-6']);
+    single.forEach(o => {
+      const type = (Object.keys(VITAL_CODES) as VitalSign['type'][]).find(t => VITAL_CODES[t].loinc === loincOf(o))!;
+      expect(o.status).toBe('final');
+      expect(o.subject?.reference).toBe(patientUrl);
+      expect(o.code.coding?.[0].system).toBe('http://loinc.org');
+      expect(o.valueQuantity?.system).toBe('http://unitsofmeasure.org');
+      expect(o.valueQuantity?.code).toBe(VITAL_CODES[type].ucum);
+      expect(o.category?.[0].coding?.[0]).toMatchObject({
+        system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+        code: VITAL_CODES[type].category
+      });
+    });
+
+    const glucose = single.find(o => loincOf(o) === '2339-0')!;
+    expect(glucose.valueQuantity).toEqual({ value: 155, unit: 'mg/dL', system: 'http://unitsofmeasure.org', code: 'mg/dL' });
+    expect(glucose.effectiveDateTime).toBe('2024-06-14T08:05:00.000Z');
+    expect(single.find(o => loincOf(o) === '8310-5')!.valueQuantity?.code).toBe('[degF]');
+    expect(single.find(o => loincOf(o) === '8867-4')!.valueQuantity?.code).toBe('/min');
+  });
+
+  it('pairs systolic and diastolic readings into one blood pressure panel', () => {
+    const panels = observations(bundle).filter(o => loincOf(o) === '85354-9');
+
+    expect(panels).toHaveLength(1);
+    expect(panels[0].valueQuantity).toBeUndefined();
+    expect(panels[0].effectiveDateTime).toBe('2024-06-14T08:00:00.000Z');
+    expect(panels[0].component?.map(c => ({ code: c.code.coding?.[0].code, value: c.valueQuantity?.value, ucum: c.valueQuantity?.code }))).toEqual([
+      { code: '8480-6', value: 142, ucum: 'mm[Hg]' },
+      { code: '8462-4', value: 91, ucum: 'mm[Hg]' }
+    ]);
+    expect(observations(bundle).filter(o => loincOf(o) === '8480-6').map(o => o.valueQuantity?.value)).toEqual([150]);
+  });
+});
+
+describe('importPatientBundle', () => {
+  it('round-trips an exported bundle', () => {
+    const { patient: imported, warnings } = importPatientBundle(exportPatientBundle(patient, NOW), NOW);
+
+    expect(warnings).toEqual([]);
+    expect(imported).toMatchObject({ id: 'P-1', name: 'Test Patient', age: 60, phoneNumber: '+919800000000', preferredLanguage: 'hi' });
+    expect(imported.condition).toEqual(patient.condition);
+    expect([...imported.vitalsHistory].sort(byTime)).toEqual([...patient.vitalsHistory].sort(byTime));
+  });
+
+  it('round-trips through JSON', () => {
+    const json = JSON.parse(JSON.stringify(exportPatientBundle(patient, NOW)));
+    expect(importPatientBundle(json, NOW).patient.vitalsHistory).toHaveLength(vitals.length);
+  });
+
+  it('converts units and skips what it cannot map', () => {
+    const bundle: FhirBundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { fullUrl: 'urn:uuid:p', resource: { resourceType: 'Patient', id: 'X' } },
+        { resource: { resourceType: 'Observation', status: 'final', code: { coding: [{ system: 'http://loinc.org', code: '2339-0' }] }, effectiveDateTime: '2024-06-14T08:00:00Z', valueQuantity: { value: 7, code: 'mmol/L' } } },
+        { resource: { resourceType: 'Observation', status: 'final', code: { coding: [{ system: 'http://loinc.org', code: '8310-5' }] }, effectiveDateTime: '2024-06-14T08:00:00Z', valueQuantity: { value: 37, code: 'Cel' } } },
+        { resource: { resourceType: 'Observation', status: 'final', code: { coding: [{ system: 'http://loinc.org', code: '4548-4' }] }, effectiveDateTime: '2024-06-14T08:00:00Z', valueQuantity: { value: 7.1, code: '%' } } }
+      ]
+    };
+    const { patient: imported, warnings } = importPatientBundle(bundle, NOW);
+
+    expect(imported.vitalsHistory.map(v => [v.type, v.value, v.unit])).toEqual([['GLUCOSE', 126, 'mg/dL'], ['TEMP', 98.6, '°F']]);
+    expect(warnings).toEqual(['Unsupported observation code 4548-4']);
+  });
+
+  it('rejects input that is not a bundle with one patient', () => {
+    expect(() => importPatientBundle({ resourceType: 'Patient' })).toThrow('Not a FHIR Bundle');
+    expect(() => importPatientBundle({ resourceType: 'Bundle', type: 'collection', entry: [] })).toThrow('found 0');
+  });
+});
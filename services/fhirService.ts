@@ -0,0 +1,347 @@
+import { Patient, VitalSign } from "../types";
+import { UNIT_CONVERSIONS } from "./vitalRulesService";
+
+/**
+ * FHIR R4 mapping for exchanging patient records with hospital EHRs.
+ * A patient is exported as a `collection` Bundle holding one Patient, a
+ * Condition per entry in `condition` and an Observation per reading (blood
+ * pressure as a single panel with systolic/diastolic components). Import
+ * accepts the same shape plus standalone systolic/diastolic Observations.
+ */
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CLINICAL = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const BP_PANEL = { code: '85354-9', display: 'Blood pressure panel with all children optional' };
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  name?: { text?: string; given?: string[]; family?: string }[];
+  telecom?: { system?: string; value?: string; use?: string }[];
+  birthDate?: string;
+  communication?: { language: FhirCodeableConcept; preferred?: boolean }[];
+}
+
+export interface FhirCondition {
+  resourceType: 'Condition';
+  id?: string;
+  clinicalStatus?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  subject: FhirReference;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status: string;
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: FhirQuantity;
+  component?: { code: FhirCodeableConcept; valueQuantity?: FhirQuantity }[];
+}
+
+export type FhirResource = FhirPatient | FhirCondition | FhirObservation;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource?: FhirResource | { resourceType: string } }[];
+}
+
+export interface FhirImportResult {
+  patient: Pick<Patient, 'name' | 'age' | 'condition' | 'vitalsHistory'> & Partial<Pick<Patient, 'id' | 'phoneNumber' | 'preferredLanguage'>>;
+  /** Resources or readings that could not be mapped and were skipped. */
+  warnings: string[];
+}
+
+interface VitalCode {
+  loinc: string;
+  display: string;
+  category: 'vital-signs' | 'laboratory';
+  /** UCUM code for the unit the app records the vital in. */
+  ucum: string;
+  unit: string;
+}
+
+/**
+ * LOINC codes and UCUM units per vital. Systolic and diastolic are exported
+ * as components of the blood pressure panel.
+ */
+export const VITAL_CODES: Record<VitalSign['type'], VitalCode> = {
+  BP_SYSTOLIC: { loinc: '8480-6', display: 'Systolic blood pressure', category: 'vital-signs', ucum: 'mm[Hg]', unit: 'mmHg' },
+  BP_DIASTOLIC: { loinc: '8462-4', display: 'Diastolic blood pressure', category: 'vital-signs', ucum: 'mm[Hg]', unit: 'mmHg' },
+  GLUCOSE: { loinc: '2339-0', display: 'Glucose [Mass/volume] in Blood', category: 'laboratory', ucum: 'mg/dL', unit: 'mg/dL' },
+  SPO2: { loinc: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry', category: 'vital-signs', ucum: '%', unit: '%' },
+  HEART_RATE: { loinc: '8867-4', display: 'Heart rate', category: 'vital-signs', ucum: '/min', unit: 'bpm' },
+  WEIGHT: { loinc: '29463-7', display: 'Body weight', category: 'vital-signs', ucum: 'kg', unit: 'kg' },
+  TEMP: { loinc: '8310-5', display: 'Body temperature', category: 'vital-signs', ucum: '[degF]', unit: '°F' },
+  URINE_OUTPUT: { loinc: '9187-6', display: 'Urine output', category: 'vital-signs', ucum: 'mL', unit: 'ml' }
+};
+
+/** Alternative codes accepted on import. */
+const IMPORT_ALIASES: Record<string, VitalSign['type']> = {
+  '2708-6': 'SPO2',
+  '2345-7': 'GLUCOSE',
+  '3141-9': 'WEIGHT'
+};
+
+/** Unit conversions into the app's units, keyed by `${type}:${ucum}`. */
+const CONVERSIONS: Record<string, (value: number) => number> = {
+  'TEMP:Cel': UNIT_CONVERSIONS.celsiusToFahrenheit,
+  'GLUCOSE:mmol/L': UNIT_CONVERSIONS.mmolToMgDl,
+  'WEIGHT:[lb_av]': UNIT_CONVERSIONS.poundsToKg,
+  'URINE_OUTPUT:L': l => l * 1000
+};
+
+const uuid = () => `urn:uuid:${crypto.randomUUID()}`;
+
+const loincConcept = (code: { code: string; display: string }): FhirCodeableConcept => ({
+  coding: [{ system: LOINC, code: code.code, display: code.display }],
+  text: code.display
+});
+
+const quantity = (vital: VitalSign): FhirQuantity => {
+  const code = VITAL_CODES[vital.type];
+  return { value: vital.value, unit: code.unit, system: UCUM, code: code.ucum };
+};
+
+const category = (code: VitalCode): FhirCodeableConcept[] => [{
+  coding: [{ system: OBSERVATION_CATEGORY, code: code.category, display: code.category === 'vital-signs' ? 'Vital Signs' : 'Laboratory' }]
+}];
+
+const time = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Blood pressure panels for systolic readings, paired with the diastolic
+ * reading taken at the same time. Unpaired halves stay standalone.
+ */
+const toObservations = (vitals: VitalSign[], subject: FhirReference): FhirObservation[] => {
+  const diastolic = vitals.filter(v => v.type === 'BP_DIASTOLIC');
+  const paired = new Set<VitalSign>();
+
+  return vitals.flatMap<FhirObservation>(vital => {
+    if (paired.has(vital)) return [];
+    const code = VITAL_CODES[vital.type];
+
+    if (vital.type === 'BP_SYSTOLIC') {
+      const match = diastolic.find(d => !paired.has(d) && time(d.timestamp) === time(vital.timestamp));
+      if (match) {
+        paired.add(match);
+        return [{
+          resourceType: 'Observation',
+          status: 'final',
+          category: category(code),
+          code: loincConcept(BP_PANEL),
+          subject,
+          effectiveDateTime: vital.timestamp,
+          component: [vital, match].map(v => ({
+            code: loincConcept({ code: VITAL_CODES[v.type].loinc, display: VITAL_CODES[v.type].display }),
+            valueQuantity: quantity(v)
+          }))
+        }];
+      }
+    }
+
+    return [{
+      resourceType: 'Observation',
+      status: 'final',
+      category: category(code),
+      code: loincConcept({ code: code.loinc, display: code.display }),
+      subject,
+      effectiveDateTime: vital.timestamp,
+      valueQuantity: quantity(vital)
+    }];
+  });
+};
+
+/**
+ * Exports a patient's demographics, conditions and vitals as a FHIR R4
+ * collection Bundle.
+ */
+export const exportPatientBundle = (patient: Patient, now: Date = new Date()): FhirBundle => {
+  const patientUrl = uuid();
+  const subject = { reference: patientUrl };
+
+  const fhirPatient: FhirPatient = {
+    resourceType: 'Patient',
+    id: patient.id,
+    name: [{ text: patient.name }],
+    ...(patient.phoneNumber ? { telecom: [{ system: 'phone', value: patient.phoneNumber, use: 'mobile' }] } : {}),
+    // Only the age is recorded, so the birth date is a year (a valid FHIR partial date)
+    ...(patient.age ? { birthDate: `${now.getFullYear() - patient.age}` } : {}),
+    ...(patient.preferredLanguage ? { communication: [{ language: { coding: [{ system: 'urn:ietf:bcp:47', code: patient.preferredLanguage }] }, preferred: true }] } : {})
+  };
+
+  const conditions: FhirCondition[] = patient.condition.map(text => ({
+    resourceType: 'Condition',
+    clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: 'active' }] },
+    code: { text },
+    subject
+  }));
+
+  const vitals = [...patient.vitalsHistory].sort((a, b) => time(a.timestamp) - time(b.timestamp));
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: [
+      { fullUrl: patientUrl, resource: fhirPatient },
+      ...conditions.map(resource => ({ fullUrl: uuid(), resource })),
+      ...toObservations(vitals, subject).map(resource => ({ fullUrl: uuid(), resource }))
+    ]
+  };
+};
+
+const vitalTypeFor = (concept?: FhirCodeableConcept): VitalSign['type'] | undefined => {
+  for (const coding of concept?.coding || []) {
+    if (coding.system && coding.system !== LOINC) continue;
+    const type = (Object.keys(VITAL_CODES) as VitalSign['type'][]).find(t => VITAL_CODES[t].loinc === coding.code)
+      ?? (coding.code ? IMPORT_ALIASES[coding.code] : undefined);
+    if (type) return type;
+  }
+  return undefined;
+};
+
+const isBpPanel = (concept?: FhirCodeableConcept) =>
+  !!concept?.coding?.some(c => c.code === BP_PANEL.code || c.code === '55284-4');
+
+const toVital = (type: VitalSign['type'], value: FhirQuantity | undefined, timestamp: string | undefined, warnings: string[]): VitalSign | undefined => {
+  if (typeof value?.value !== 'number' || !timestamp || isNaN(time(timestamp))) {
+    warnings.push(`${type} observation without a numeric value or effectiveDateTime`);
+    return undefined;
+  }
+  const code = VITAL_CODES[type];
+  const unit = value.code ?? value.unit;
+  if (unit && unit !== code.ucum && unit !== code.unit) {
+    const convert = CONVERSIONS[`${type}:${unit}`];
+    if (!convert) {
+      warnings.push(`${type} in unsupported unit ${unit}`);
+      return undefined;
+    }
+    return { type, value: convert(value.value), unit: code.unit, timestamp: new Date(timestamp).toISOString() };
+  }
+  return { type, value: value.value, unit: code.unit, timestamp: new Date(timestamp).toISOString() };
+};
+
+const ageFrom = (birthDate: string | undefined, now: Date) => {
+  const year = birthDate ? Number(birthDate.slice(0, 4)) : NaN;
+  return isNaN(year) ? 0 : now.getFullYear() - year;
+};
+
+/**
+ * Imports a FHIR R4 Bundle containing one Patient. Observations with codes
+ * or units the app does not model are skipped and listed in `warnings`.
+ * Throws when the input is not a Bundle with a Patient.
+ */
+export const importPatientBundle = (bundle: unknown, now: Date = new Date()): FhirImportResult => {
+  const candidate = bundle as FhirBundle | undefined;
+  if (!candidate || candidate.resourceType !== 'Bundle' || !Array.isArray(candidate.entry)) {
+    throw new Error('Not a FHIR Bundle');
+  }
+
+  const entries = candidate.entry.filter(e => e.resource);
+  const patients = entries.filter(e => e.resource!.resourceType === 'Patient');
+  if (patients.length !== 1) {
+    throw new Error(`Expected exactly one Patient in the bundle, found ${patients.length}`);
+  }
+
+  const patientEntry = patients[0];
+  const fhirPatient = patientEntry.resource as FhirPatient;
+  // References may use the entry's fullUrl or the relative Patient/{id} form
+  const patientRefs = new Set([patientEntry.fullUrl, fhirPatient.id && `Patient/${fhirPatient.id}`].filter(Boolean));
+  const isForPatient = (subject?: FhirReference) => !subject?.reference || patientRefs.has(subject.reference);
+
+  const warnings: string[] = [];
+  const vitals: VitalSign[] = [];
+  const conditions: string[] = [];
+
+  entries.forEach(({ resource }) => {
+    if (resource!.resourceType === 'Condition') {
+      const condition = resource as FhirCondition;
+      if (!isForPatient(condition.subject)) return;
+      const status = condition.clinicalStatus?.coding?.[0]?.code;
+      if (status && status !== 'active' && status !== 'recurrence' && status !== 'relapse') return;
+      const text = condition.code?.text ?? condition.code?.coding?.[0]?.display;
+      if (text) conditions.push(text);
+      else warnings.push('Condition without a code text or display');
+      return;
+    }
+
+    if (resource!.resourceType !== 'Observation') return;
+    const observation = resource as FhirObservation;
+    if (!isForPatient(observation.subject)) return;
+    if (observation.status === 'entered-in-error' || observation.status === 'cancelled') return;
+
+    if (isBpPanel(observation.code)) {
+      (observation.component || []).forEach(component => {
+        const type = vitalTypeFor(component.code);
+        if (type !== 'BP_SYSTOLIC' && type !== 'BP_DIASTOLIC') return;
+        const vital = toVital(type, component.valueQuantity, observation.effectiveDateTime, warnings);
+        if (vital) vitals.push(vital);
+      });
+      return;
+    }
+
+    const type = vitalTypeFor(observation.code);
+    if (!type) {
+      warnings.push(`Unsupported observation code ${observation.code?.coding?.[0]?.code ?? observation.code?.text ?? '(none)'}`);
+      return;
+    }
+    const vital = toVital(type, observation.valueQuantity, observation.effectiveDateTime, warnings);
+    if (vital) vitals.push(vital);
+  });
+
+  const name = fhirPatient.name?.[0];
+  const language = fhirPatient.communication?.find(c => c.preferred)?.language.coding?.[0]?.code;
+
+  return {
+    patient: {
+      id: fhirPatient.id,
+      name: name?.text ?? [...(name?.given || []), name?.family].filter(Boolean).join(' '),
+      age: ageFrom(fhirPatient.birthDate, now),
+      phoneNumber: fhirPatient.telecom?.find(t => t.system === 'phone')?.value,
+      preferredLanguage: language,
+      condition: Array.from(new Set(conditions)),
+      vitalsHistory: vitals.sort((a, b) => time(a.timestamp) - time(b.timestamp))
+    },
+    warnings
+  };
+};
+
+/**
+ * Readings and conditions from an import that the patient does not already
+ * have. Demographics are left alone: EHR ids and spellings differ from ours.
+ */
+export const newFromImport = (patient: Patient, imported: FhirImportResult['patient']): { vitals: VitalSign[]; conditions: string[] } => ({
+  vitals: imported.vitalsHistory.filter(v => !patient.vitalsHistory.some(existing =>
+    existing.type === v.type && existing.value === v.value && time(existing.timestamp) === time(v.timestamp))),
+  conditions: imported.condition.filter(c => !patient.condition.some(existing => existing.toLowerCase() === c.toLowerCase()))
+});
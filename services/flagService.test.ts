@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { RiskLevel } from '../types';
+import { at, makePatient } from '../test/fixtures';
+import { applyFlagAction, checkEscalation, escalationClaimId, isEscalated, raiseFlag } from './flagService';
+
+describe('raiseFlag', () => {
+  it('opens a flag for HIGH and CRITICAL risk only', () => {
+    expect(raiseFlag(makePatient(), RiskLevel.MEDIUM, at(0))).toBeUndefined();
+    expect(raiseFlag(makePatient(), RiskLevel.HIGH, at(0))).toMatchObject({ status: 'OPEN', riskLevel: RiskLevel.HIGH, escalations: [] });
+  });
+
+  it('re-opens an escalated, acknowledged HIGH flag as a fresh CRITICAL episode', () => {
+    let flag = raiseFlag(makePatient(), RiskLevel.HIGH, at(0))!;
+    flag = { ...flag, escalations: [{ timestamp: at(20).toISOString(), slaMinutes: 15, minutesOpen: 20 }] };
+    flag = applyFlagAction(flag, { type: 'ACKNOWLEDGE', note: 'Called patient' }, 'Dr. A', at(25));
+
+    const reopened = raiseFlag(makePatient({ activeFlag: flag }), RiskLevel.CRITICAL, at(60))!;
+
+    expect(reopened).toMatchObject({ id: flag.id, status: 'OPEN', riskLevel: RiskLevel.CRITICAL, raisedAt: at(60).toISOString(), escalations: [] });
+    expect(reopened.acknowledgedAt).toBeUndefined();
+    expect(reopened.acknowledgedBy).toBeUndefined();
+    expect(reopened.notes).toEqual(flag.notes);
+    expect(isEscalated(reopened)).toBe(false);
+    // The SLA runs from the re-open, not from the first episode
+    expect(checkEscalation(reopened, undefined, at(70))).toBeUndefined();
+    expect(checkEscalation(reopened, undefined, at(75))?.escalations).toHaveLength(1);
+  });
+
+  it('leaves an active flag alone when risk does not escalate', () => {
+    const flag = raiseFlag(makePatient(), RiskLevel.CRITICAL, at(0))!;
+    expect(raiseFlag(makePatient({ activeFlag: flag }), RiskLevel.HIGH, at(5))).toBeUndefined();
+    expect(raiseFlag(makePatient({ activeFlag: flag }), RiskLevel.CRITICAL, at(5))).toBeUndefined();
+  });
+});
+
+describe('escalationClaimId', () => {
+  it('names each missed SLA of an episode once', () => {
+    const flag = raiseFlag(makePatient(), RiskLevel.CRITICAL, at(0))!;
+    const escalated = checkEscalation(flag, undefined, at(20))!;
+    const reopened = { ...escalated, raisedAt: at(60).toISOString(), escalations: [] };
+
+    expect(escalationClaimId(flag)).toBe(escalationClaimId({ ...flag, notes: [{ author: 'Dr. A', timestamp: at(5).toISOString(), text: 'Seen' }] }));
+    expect(escalationClaimId(escalated)).not.toBe(escalationClaimId(flag));
+    expect(escalationClaimId(reopened)).not.toBe(escalationClaimId(flag));
+  });
+});
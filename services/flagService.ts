@@ -0,0 +1,124 @@
+import { FlagNote, Patient, PatientFlag, RiskLevel } from "../types";
+
+/**
+ * Flag lifecycle for HIGH/CRITICAL patients: OPEN → ACKNOWLEDGED → RESOLVED.
+ * All functions are pure; callers persist the returned flag.
+ */
+
+export type FlagAction =
+  | { type: 'ACKNOWLEDGE'; note?: string }
+  | { type: 'RESOLVE'; note?: string }
+  | { type: 'ASSIGN'; assignee: string; note?: string };
+
+export interface EscalationConfig {
+  /** Minutes a flag may stay OPEN (unacknowledged) per risk level. */
+  ackSlaMinutes: Partial<Record<RiskLevel, number>>;
+  /** How often each open doctor dashboard re-checks open flags. */
+  checkIntervalMs: number;
+}
+
+export const DEFAULT_ESCALATION_CONFIG: EscalationConfig = {
+  ackSlaMinutes: { [RiskLevel.CRITICAL]: 15 },
+  checkIntervalMs: 60 * 1000
+};
+
+export const isFlagRisk = (level: RiskLevel) => level === RiskLevel.HIGH || level === RiskLevel.CRITICAL;
+
+export const isFlagActive = (flag?: PatientFlag): flag is PatientFlag => !!flag && flag.status !== 'RESOLVED';
+
+const addNote = (notes: FlagNote[], author: string, text: string | undefined, timestamp: string): FlagNote[] =>
+  text && text.trim() ? [...notes, { author, timestamp, text: text.trim() }] : notes;
+
+/**
+ * Opens a new flag, or raises the risk level of the patient's active one.
+ * Returns undefined when no flag change is needed.
+ */
+export const raiseFlag = (patient: Patient, riskLevel: RiskLevel, now: Date = new Date()): PatientFlag | undefined => {
+  if (!isFlagRisk(riskLevel)) return undefined;
+
+  const current = patient.activeFlag;
+  if (isFlagActive(current)) {
+    if (riskLevel === RiskLevel.CRITICAL && current.riskLevel !== RiskLevel.CRITICAL) {
+      // Escalated risk re-opens the flag as a new episode: it needs a fresh
+      // acknowledgement and its SLA escalations start over. Notes are kept.
+      return {
+        ...current,
+        riskLevel,
+        status: 'OPEN',
+        raisedAt: now.toISOString(),
+        acknowledgedAt: undefined,
+        acknowledgedBy: undefined,
+        escalations: []
+      };
+    }
+    return undefined;
+  }
+
+  return {
+    id: `flag-${patient.id}-${now.getTime()}`,
+    status: 'OPEN',
+    riskLevel,
+    raisedAt: now.toISOString(),
+    notes: [],
+    escalations: []
+  };
+};
+
+export const applyFlagAction = (flag: PatientFlag, action: FlagAction, actor: string, now: Date = new Date()): PatientFlag => {
+  const timestamp = now.toISOString();
+  const notes = addNote(flag.notes, actor, action.note, timestamp);
+
+  switch (action.type) {
+    case 'ACKNOWLEDGE':
+      if (flag.status !== 'OPEN') return { ...flag, notes };
+      return { ...flag, notes, status: 'ACKNOWLEDGED', acknowledgedAt: timestamp, acknowledgedBy: actor };
+    case 'RESOLVE':
+      return {
+        ...flag,
+        notes,
+        status: 'RESOLVED',
+        // Resolving implies the flag was seen
+        acknowledgedAt: flag.acknowledgedAt || timestamp,
+        acknowledgedBy: flag.acknowledgedBy || actor,
+        resolvedAt: timestamp,
+        resolvedBy: actor
+      };
+    case 'ASSIGN':
+      return { ...flag, notes, assignedTo: action.assignee };
+  }
+};
+
+/**
+ * Returns the escalation to record if an OPEN flag has gone unacknowledged
+ * past its SLA since it was raised or last escalated.
+ */
+export const checkEscalation = (flag: PatientFlag, config: EscalationConfig = DEFAULT_ESCALATION_CONFIG, now: Date = new Date()): PatientFlag | undefined => {
+  const sla = config.ackSlaMinutes[flag.riskLevel];
+  if (flag.status !== 'OPEN' || sla === undefined) return undefined;
+
+  const raised = new Date(flag.raisedAt).getTime();
+  const lastEscalation = flag.escalations[flag.escalations.length - 1];
+  const since = lastEscalation ? new Date(lastEscalation.timestamp).getTime() : raised;
+  if (now.getTime() - since < sla * 60 * 1000) return undefined;
+
+  return {
+    ...flag,
+    escalations: [...flag.escalations, {
+      timestamp: now.toISOString(),
+      slaMinutes: sla,
+      minutesOpen: Math.round((now.getTime() - raised) / 60000)
+    }]
+  };
+};
+
+/**
+ * Key of a flag's next missed SLA, claimed before the escalation is saved so
+ * it is recorded once however many dashboards notice it. The raise time is
+ * part of the key because a re-opened flag starts its escalations over.
+ */
+export const escalationClaimId = (flag: PatientFlag) => `${flag.id}:${flag.raisedAt}:${flag.escalations.length}`;
+
+/**
+ * Flags that are still unacknowledged after at least one missed SLA.
+ */
+export const isEscalated = (flag?: PatientFlag) => isFlagActive(flag) && flag.status === 'OPEN' && flag.escalations.length > 0;
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveInitialProvider } from './geminiService';
+
+const storedProvider = (value: string | null) =>
+  vi.stubGlobal('localStorage', { getItem: () => value, setItem: () => {} });
+
+describe('resolveInitialProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers the provider saved in localStorage over the environment', () => {
+    storedProvider('mock');
+    vi.stubEnv('TRIAGE_PROVIDER', 'gemini');
+    vi.stubEnv('API_KEY', 'key');
+
+    expect(resolveInitialProvider()).toBe('mock');
+  });
+
+  it('falls back to TRIAGE_PROVIDER when nothing valid is saved', () => {
+    storedProvider('openai');
+    vi.stubEnv('TRIAGE_PROVIDER', 'mock');
+    vi.stubEnv('API_KEY', 'key');
+
+    expect(resolveInitialProvider()).toBe('mock');
+  });
+
+  it('uses Gemini when an API key is configured and nothing else is chosen', () => {
+    storedProvider(null);
+    vi.stubEnv('TRIAGE_PROVIDER', '');
+    vi.stubEnv('API_KEY', 'key');
+
+    expect(resolveInitialProvider()).toBe('gemini');
+  });
+
+  it('uses the mock provider without an API key', () => {
+    vi.stubEnv('TRIAGE_PROVIDER', '');
+    vi.stubEnv('API_KEY', '');
+
+    expect(resolveInitialProvider()).toBe('mock');
+  });
+});
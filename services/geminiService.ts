@@ -1,15 +1,25 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ClinicalInsight, RiskLevel, VitalSign } from "../types";
+import { FOOD_FLAGS, FoodAnalysis, RiskLevel } from "../types";
+import { TriageAttachment, TriageProvider, TriageProviderId, TriageResult } from "./triageProvider";
+import { mockTriageProvider } from "./mockTriageProvider";
+import { validateFoodAnalysis, validateTriagePayload } from "./triageValidation";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const GEMINI_MODEL = "gemini-3-flash-preview";
+const PROVIDER_STORAGE_KEY = "pajr.triageProvider";
 
-const analysisSchema: Schema = {
+// Gemini client is created lazily so the app can boot without an API key
+let ai: GoogleGenAI | null = null;
+const getGeminiClient = (): GoogleGenAI => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
+
+export const analysisSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     summary: { type: Type.STRING, description: "A concise clinical summary of the patient input." },
     riskLevel: { type: Type.STRING, enum: ["LOW", "MEDIUM", "HIGH", "CRITICAL"], description: "Triage risk level." },
-    confidenceScore: { type: Type.NUMBER, description: "Confidence in the extraction (0.0 to 1.0)." },
+    confidenceScore: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Confidence in the extraction (0.0 to 1.0)." },
     themes: { 
       type: Type.ARRAY, 
       items: { type: Type.STRING }, 
@@ -30,92 +40,274 @@ const analysisSchema: Schema = {
       items: {
         type: Type.OBJECT,
         properties: {
-          type: { type: Type.STRING, enum: ['BP_SYSTOLIC', 'BP_DIASTOLIC', 'GLUCOSE', 'SPO2', 'HEART_RATE', 'WEIGHT', 'TEMP'] },
+          type: { type: Type.STRING, enum: ['BP_SYSTOLIC', 'BP_DIASTOLIC', 'GLUCOSE', 'SPO2', 'HEART_RATE', 'WEIGHT', 'TEMP', 'URINE_OUTPUT'] },
           value: { type: Type.NUMBER },
           unit: { type: Type.STRING }
-        }
+        },
+        required: ["type", "value", "unit"]
       }
     },
     clinicalActionSuggestion: { type: Type.STRING, description: "Suggested workflow action for the care coordinator (e.g., 'Request recent labs', 'Schedule call')." },
-    suggestedResponse: { type: Type.STRING, description: "A short, empathetic, non-diagnostic response to send back to the patient via WhatsApp. Confirm receipt of data." }
+    suggestedResponse: { type: Type.STRING, description: "A short, empathetic, non-diagnostic response to send back to the patient via WhatsApp. Confirm receipt of data. Written in the patient's language." },
+    detectedLanguage: { type: Type.STRING, description: "BCP-47 code of the patient's language: 'en', 'hi', 'te', 'bn', or 'hi-Latn' for Hinglish (Hindi in Latin script)." },
+    englishTranslation: { type: Type.STRING, description: "Faithful English translation of the patient input for the clinician. Omit if the input is English." },
+    suggestedResponseEnglish: { type: Type.STRING, description: "English translation of suggestedResponse. Omit if suggestedResponse is English." }
   },
   required: ["summary", "riskLevel", "confidenceScore", "themes", "reasoning", "extractedVitals", "suggestedResponse"]
 };
 
+export const foodAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    mealType: { type: Type.STRING, enum: ["Breakfast", "Lunch", "Dinner", "Snack"], description: "Most likely meal occasion." },
+    caloriesEstimate: { type: Type.NUMBER, minimum: 0, maximum: 5000, description: "Estimated total kcal for the visible plate." },
+    carbs: { type: Type.STRING, description: "Estimated carbohydrate content with unit, e.g. '45g'." },
+    protein: { type: Type.STRING, description: "Estimated protein content with unit, e.g. '22g'." },
+    flag: { type: Type.STRING, enum: FOOD_FLAGS, description: "Single most relevant dietary flag for a patient with diabetes or hypertension." }
+  },
+  required: ["mealType", "caloriesEstimate", "carbs", "protein", "flag"]
+};
+
+const SYSTEM_INSTRUCTION = "You are a healthcare triage assistant. You extract structured data from informal patient text and act as a communication bridge.";
+
+const buildTriagePrompt = (task: string, patientHistoryContext: string, patientInput: string) => `
+  ROLE: Expert Clinical Safety AI Triage System.
+  TASK: ${task}
+  CONTEXT: Patient History Summary: ${patientHistoryContext}
+  
+  GUARDRAILS for ANALYSIS:
+  1. DO NOT DIAGNOSE.
+  2. Prioritize safety. If symptoms suggest cardiac distress, hypoglycemia, or sepsis, flag HIGH/CRITICAL.
+  3. Be skeptical of outliers but record them.
+  4. Identify core themes (e.g., "Anxiety", "Medication Adherence").
+
+  GUARDRAILS for SUGGESTED RESPONSE:
+  1. Tone: Empathetic, calm, professional (WhatsApp style).
+  2. Action: Confirm data receipt (e.g., "Noted your reading of 150").
+  3. Safety: If HIGH risk, advise them a clinician will review shortly. DO NOT give medical advice (like "take insulin").
+  4. Length: Max 2 sentences.
+  5. Language: Reply in the language and script the patient wrote in (Hinglish gets a Hinglish reply). If the input has no words, reply in the patient's preferred language from the context.
+  
+  ${patientInput}
+`;
+
+const parseTriageResponse = (text: string | undefined): TriageResult => {
+  const data = JSON.parse(text || "{}");
+
+  // Validate against the schema and domain ranges before mapping to domain types
+  const { result, issues } = validateTriagePayload(data, analysisSchema);
+  if (issues.length > 0) {
+    console.warn(`Gemini response failed validation (${issues.length} issues):`, issues);
+  }
+  return result;
+};
+
+const analyzeWithGemini = async (message: string, patientHistoryContext: string): Promise<TriageResult> => {
+  const response = await getGeminiClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: buildTriagePrompt(
+      "Analyze the incoming patient message (from WhatsApp). Extract vitals, identify symptoms, assess risk, and generate a patient reply.",
+      patientHistoryContext,
+      `PATIENT MESSAGE: "${message}"`
+    ),
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: analysisSchema,
+      systemInstruction: SYSTEM_INSTRUCTION,
+    }
+  });
+
+  return parseTriageResponse(response.text);
+};
+
+const analyzeAttachmentWithGemini = async (attachment: TriageAttachment, patientHistoryContext: string): Promise<TriageResult> => {
+  const source = attachment.kind === 'IMAGE'
+    ? "a photo sent by the patient (typically a glucometer, BP monitor, pulse oximeter or thermometer screen)"
+    : "a document sent by the patient (typically a lab report or discharge summary)";
+
+  const response = await getGeminiClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      { inlineData: { mimeType: attachment.mimeType, data: attachment.data } },
+      {
+        text: buildTriagePrompt(
+          `Analyze ${source}. Read every legible measurement with its unit, note anything unreadable in missingData, assess risk, and generate a patient reply.`,
+          patientHistoryContext,
+          `ATTACHMENT: ${attachment.fileName || attachment.kind} (${attachment.mimeType})${attachment.caption ? `\n  PATIENT CAPTION: "${attachment.caption}"` : ''}`
+        )
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: analysisSchema,
+      systemInstruction: SYSTEM_INSTRUCTION,
+    }
+  });
+
+  return parseTriageResponse(response.text);
+};
+
+const analyzeMealWithGemini = async (photo: TriageAttachment): Promise<FoodAnalysis> => {
+  const response = await getGeminiClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      { inlineData: { mimeType: photo.mimeType, data: photo.data } },
+      {
+        text: `
+          TASK: Estimate the nutrition of the meal in this photo, sent by a patient with a chronic condition (commonly diabetes or hypertension).
+          1. Identify the meal occasion and visible foods, including typical Indian home-cooked dishes.
+          2. Estimate calories, carbohydrate and protein for the visible portion.
+          3. Choose the single most relevant flag. Use 'Balanced' only if nothing stands out.
+          4. If the photo is not food, estimate 0 calories and flag 'Balanced'.
+        `
+      }
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: foodAnalysisSchema,
+      systemInstruction: "You are a clinical nutrition assistant. You give conservative, approximate estimates and never give dietary prescriptions.",
+    }
+  });
+
+  const { analysis, issues } = validateFoodAnalysis(JSON.parse(response.text || "{}"), foodAnalysisSchema);
+  if (!analysis) {
+    throw new Error(`Food analysis failed validation: ${issues.map(i => `${i.field} ${i.message}`).join('; ')}`);
+  }
+  return analysis;
+};
+
+const transcribeWithGemini = async (audio: TriageAttachment): Promise<string> => {
+  const response = await getGeminiClient().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      { inlineData: { mimeType: audio.mimeType, data: audio.data } },
+      {
+        text: `
+          TASK: Transcribe this voice note from a patient verbatim, in the language it was spoken.
+          Do not translate, summarize or add commentary. Write [inaudible] for unclear words.
+          If there is no speech, return an empty response.
+        `
+      }
+    ],
+    config: {
+      systemInstruction: "You are a medical transcriptionist. You transcribe exactly what is said, including numbers and units.",
+    }
+  });
+
+  return (response.text || "").trim();
+};
+
+export const geminiTriageProvider: TriageProvider = {
+  id: 'gemini',
+  label: `Google Gemini (${GEMINI_MODEL})`,
+  isAvailable: () => Boolean(process.env.API_KEY),
+  analyze: analyzeWithGemini,
+  analyzeAttachment: analyzeAttachmentWithGemini,
+  analyzeMeal: analyzeMealWithGemini,
+  transcribe: transcribeWithGemini
+};
+
+const PROVIDERS: Record<TriageProviderId, TriageProvider> = {
+  gemini: geminiTriageProvider,
+  mock: mockTriageProvider
+};
+
+const isProviderId = (id: unknown): id is TriageProviderId =>
+  typeof id === 'string' && id in PROVIDERS;
+
+/**
+ * Resolves the provider: a per-browser override saved in localStorage,
+ * then the TRIAGE_PROVIDER env variable, then Gemini if a key is configured.
+ */
+export const resolveInitialProvider = (): TriageProviderId => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+  if (isProviderId(stored)) return stored;
+  const fromEnv = process.env.TRIAGE_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  return geminiTriageProvider.isAvailable() ? 'gemini' : 'mock';
+};
+
+const activeProviderId: TriageProviderId = resolveInitialProvider();
+
+export const getTriageProvider = (): TriageProvider => PROVIDERS[activeProviderId];
+
+// Fallback for safety - never fail silently in healthcare
+const buildFallbackResult = (): TriageResult => {
+  return {
+    insight: {
+      summary: "Error analyzing input. Manual review required.",
+      riskLevel: RiskLevel.MEDIUM, // Default to medium on error for safety
+      confidenceScore: 0,
+      themes: ["System Error"],
+      reasoning: ["AI System Error - Fallback"],
+      missingData: ["Complete analysis failed"],
+      clinicalActionSuggestion: "Manual Review"
+    },
+    vitals: [],
+    suggestedResponse: "We have received your message. A care coordinator will review it shortly."
+  };
+};
+
 export const analyzePatientInput = async (
   message: string, 
   patientHistoryContext: string
-): Promise<{ insight: ClinicalInsight, vitals: VitalSign[], suggestedResponse: string }> => {
-  
+): Promise<TriageResult> => {
+  const provider = getTriageProvider();
+
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `
-        ROLE: Expert Clinical Safety AI Triage System.
-        TASK: Analyze the incoming patient message (from WhatsApp). Extract vitals, identify symptoms, assess risk, and generate a patient reply.
-        CONTEXT: Patient History Summary: ${patientHistoryContext}
-        
-        GUARDRAILS for ANALYSIS:
-        1. DO NOT DIAGNOSE.
-        2. Prioritize safety. If symptoms suggest cardiac distress, hypoglycemia, or sepsis, flag HIGH/CRITICAL.
-        3. Be skeptical of outliers but record them.
-        4. Identify core themes (e.g., "Anxiety", "Medication Adherence").
-
-        GUARDRAILS for SUGGESTED RESPONSE:
-        1. Tone: Empathetic, calm, professional (WhatsApp style).
-        2. Action: Confirm data receipt (e.g., "Noted your reading of 150").
-        3. Safety: If HIGH risk, advise them a clinician will review shortly. DO NOT give medical advice (like "take insulin").
-        4. Length: Max 2 sentences.
-        
-        PATIENT MESSAGE: "${message}"
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: "You are a healthcare triage assistant. You extract structured data from informal patient text and act as a communication bridge.",
-      }
-    });
-
-    const jsonText = response.text || "{}";
-    const data = JSON.parse(jsonText);
-
-    // Map the raw JSON to our domain types
-    const insight: ClinicalInsight = {
-      summary: data.summary,
-      riskLevel: data.riskLevel as RiskLevel,
-      confidenceScore: data.confidenceScore,
-      themes: data.themes || [],
-      reasoning: data.reasoning,
-      missingData: data.missingData || [],
-      clinicalActionSuggestion: data.clinicalActionSuggestion || "Monitor"
-    };
-
-    const vitals: VitalSign[] = (data.extractedVitals || []).map((v: any) => ({
-      ...v,
-      timestamp: new Date().toISOString()
-    }));
-
-    return { 
-      insight, 
-      vitals,
-      suggestedResponse: data.suggestedResponse || "Received. Updating your care log."
-    };
+    return await provider.analyze(message, patientHistoryContext);
+  } catch (error) {
+    console.error(`Triage Analysis Failed (${provider.id}):`, error);
+    return buildFallbackResult();
+  }
+};
 
+/**
+ * Multimodal triage for IMAGE and DOCUMENT messages. Produces the same result
+ * shape as `analyzePatientInput` so callers can share one state update path.
+ */
+export const analyzePatientAttachment = async (
+  attachment: TriageAttachment,
+  patientHistoryContext: string
+): Promise<TriageResult> => {
+  const provider = getTriageProvider();
+
+  try {
+    return await provider.analyzeAttachment(attachment, patientHistoryContext);
+  } catch (error) {
+    console.error(`Attachment Analysis Failed (${provider.id}):`, error);
+    return buildFallbackResult();
+  }
+};
+
+/**
+ * Structured nutrition estimate for a meal photo from the FOOD tab.
+ * Returns null when the photo could not be analyzed, and undefined when the
+ * active provider does not estimate nutrition at all.
+ */
+export const analyzeMealPhoto = async (photo: TriageAttachment): Promise<FoodAnalysis | null | undefined> => {
+  const provider = getTriageProvider();
+
+  try {
+    return await provider.analyzeMeal(photo);
+  } catch (error) {
+    console.error(`Meal Analysis Failed (${provider.id}):`, error);
+    return null;
+  }
+};
+
+/**
+ * Transcript of an AUDIO message. Returns null when the active provider could
+ * not transcribe it, so callers can route the voice note to manual review.
+ */
+export const transcribeVoiceNote = async (audio: TriageAttachment): Promise<string | null> => {
+  const provider = getTriageProvider();
+
+  try {
+    const transcript = await provider.transcribe(audio);
+    return transcript || null;
   } catch (error) {
-    console.error("Gemini Analysis Failed:", error);
-    // Fallback for safety - never fail silently in healthcare
-    return {
-      insight: {
-        summary: "Error analyzing input. Manual review required.",
-        riskLevel: RiskLevel.MEDIUM, // Default to medium on error for safety
-        confidenceScore: 0,
-        themes: ["System Error"],
-        reasoning: ["AI System Error - Fallback"],
-        missingData: ["Complete analysis failed"],
-        clinicalActionSuggestion: "Manual Review"
-      },
-      vitals: [],
-      suggestedResponse: "We have received your message. A care coordinator will review it shortly."
-    };
+    console.error(`Transcription Failed (${provider.id}):`, error);
+    return null;
   }
-};
\ No newline at end of file
+};
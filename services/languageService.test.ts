@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, isEnglish } from './languageService';
+
+describe('detectLanguage', () => {
+  it('detects Hindi, Telugu and Bengali by script', () => {
+    expect(detectLanguage('मुझे आज बहुत चक्कर आ रहा है')).toBe('hi');
+    expect(detectLanguage('నాకు తలనొప్పి ఉంది')).toBe('te');
+    expect(detectLanguage('আমার জ্বর হয়েছে')).toBe('bn');
+  });
+
+  it('goes by script when a message mixes in English words and readings', () => {
+    expect(detectLanguage('BP 150/95 आज सुबह सिर में दर्द')).toBe('hi');
+  });
+
+  it('detects Hinglish written in Latin script', () => {
+    expect(detectLanguage('Mujhe aaj bahut chakkar aa raha hai')).toBe('hi-Latn');
+    expect(detectLanguage('dard hai')).toBe('hi-Latn');
+  });
+
+  it('treats plain English as English', () => {
+    expect(detectLanguage('I feel dizzy since this morning')).toBe('en');
+    // A single Hinglish-looking word in a longer English message is not enough
+    expect(detectLanguage('Took my pills, Dr. ji said to walk more every day')).toBe('en');
+  });
+
+  it('returns undefined for readings without words', () => {
+    expect(detectLanguage('150/95 88')).toBeUndefined();
+  });
+});
+
+describe('isEnglish', () => {
+  it('counts English regional codes and a missing language as English', () => {
+    expect([undefined, 'en', 'en-IN', 'hi-Latn', 'te'].map(isEnglish)).toEqual([true, true, true, false, false]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Patient languages. Codes are BCP-47; Hinglish (Hindi written in Latin
+ * script, often mixed with English) is `hi-Latn`.
+ */
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+}
+
+export const ENGLISH = 'en';
+
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'hi-Latn', label: 'Hinglish' },
+  { code: 'te', label: 'Telugu' },
+  { code: 'bn', label: 'Bengali' }
+];
+
+export const languageLabel = (code: string | undefined) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.label || code || 'Unknown';
+
+export const isEnglish = (code: string | undefined) => !code || code === ENGLISH || code.startsWith(`${ENGLISH}-`);
+
+const SCRIPTS: { code: string; pattern: RegExp }[] = [
+  { code: 'hi', pattern: /[ऀ-ॿ]/g },
+  { code: 'bn', pattern: /[ঀ-৿]/g },
+  { code: 'te', pattern: /[ఀ-౿]/g }
+];
+
+// Common romanized Hindi words that rarely appear in English messages
+const HINGLISH_WORDS = /\b(hai|hain|nahi|nahin|mera|meri|mujhe|aaj|kal|bahut|thoda|kya|kaise|dard|bukhar|chakkar|dawai|dawa|ho raha|ho rahi|lag raha|lag rahi|ji)\b/gi;
+
+/**
+ * Script- and keyword-based language guess. Used by the offline provider and
+ * when the LLM does not report a language. Returns undefined for input with
+ * no words (readings only), so callers fall back to the preferred language.
+ */
+export const detectLanguage = (text: string): string | undefined => {
+  const letters = text.replace(/[\d\s\p{P}\p{S}]/gu, '');
+  if (!letters) return undefined;
+
+  const byScript = SCRIPTS
+    .map(s => ({ code: s.code, count: text.match(s.pattern)?.length || 0 }))
+    .sort((a, b) => b.count - a.count)[0];
+  if (byScript.count > letters.length / 3) return byScript.code;
+
+  const hinglishHits = text.match(HINGLISH_WORDS)?.length || 0;
+  const words = text.split(/\s+/).filter(w => /[a-z]/i.test(w)).length;
+  if (hinglishHits >= 2 || (hinglishHits === 1 && words <= 4)) return 'hi-Latn';
+
+  return /[a-z]/i.test(letters) ? ENGLISH : undefined;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { makePatient } from '../test/fixtures';
+import { computeAdherence, createMedication, dosesForDay, dueReminders, scheduledTimes, stopMedication } from './medicationService';
+
+// vitest.config.ts pins TZ to UTC, so local HH:MM times are UTC here
+const onDay = (day: number, hours: number, minutes = 0) => new Date(Date.UTC(2024, 5, day, hours, minutes));
+
+const metformin = (prescribedAt: Date) =>
+  createMedication({ name: 'Metformin', dosage: '500 mg', times: ['08:00', '20:00'] }, 'Dr. A', prescribedAt);
+
+describe('scheduledTimes', () => {
+  it('starts at the moment of prescription, not at midnight of the start date', () => {
+    const medication = metformin(onDay(15, 14));
+
+    expect(scheduledTimes(medication, onDay(15, 0), onDay(15, 23, 59))).toEqual([onDay(15, 20)]);
+  });
+
+  it('does not report a dose due before the prescription as missed', () => {
+    const patient = makePatient({ medications: [metformin(onDay(15, 14))] });
+
+    expect(dosesForDay(patient, onDay(15, 15)).map(s => s.scheduledFor)).toEqual([onDay(15, 20).toISOString()]);
+    expect(computeAdherence(patient, onDay(15, 15)).medications[0]).toMatchObject({ scheduled: 0, missed: 0, percent: undefined });
+  });
+
+  it('honours a start date later than the prescription', () => {
+    const medication = createMedication({ name: 'Aspirin', dosage: '75 mg', times: ['09:00'], startDate: '2024-06-17' }, 'Dr. A', onDay(15, 14));
+
+    expect(scheduledTimes(medication, onDay(15, 0), onDay(17, 23, 59))).toEqual([onDay(17, 9)]);
+  });
+
+  it('ends at the moment the medication is stopped', () => {
+    const stopped = stopMedication(metformin(onDay(10, 7)), onDay(15, 14));
+
+    expect(stopped).toMatchObject({ active: false, endDate: '2024-06-15', stoppedAt: onDay(15, 14).toISOString() });
+    expect(scheduledTimes(stopped, onDay(15, 0), onDay(16, 23, 59))).toEqual([onDay(15, 8)]);
+  });
+});
+
+describe('stopped medications', () => {
+  it('no longer raise reminders for later doses that day', () => {
+    const patient = makePatient({ medications: [stopMedication(metformin(onDay(10, 7)), onDay(15, 14))] });
+
+    expect(dueReminders(patient, onDay(15, 19, 45))).toEqual([]);
+  });
+
+  it('do not count doses after the stop as missed', () => {
+    const patient = makePatient({ medications: [stopMedication(metformin(onDay(14, 7)), onDay(15, 14))] });
+
+    // Doses due 14th 08:00, 14th 20:00 and 15th 08:00; the 15th 20:00 dose was never due
+    expect(computeAdherence(patient, onDay(16, 12)).medications[0]).toMatchObject({ scheduled: 3, missed: 3 });
+  });
+});
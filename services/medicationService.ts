@@ -0,0 +1,215 @@
+import { Dose, DoseStatus, Medication, Patient } from "../types";
+
+/**
+ * Medication schedules, dose reminders and adherence. Doses are due daily at
+ * each of a medication's local HH:MM times. All functions are pure; callers
+ * persist the returned medication or dose.
+ */
+
+export interface MedicationInput {
+  name: string;
+  dosage: string;
+  times: string[];
+  instructions?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ReminderConfig {
+  /** Minutes before a dose is due that the reminder appears. */
+  leadMinutes: number;
+  /** Minutes after a dose is due that an unanswered dose counts as missed. */
+  missedAfterMinutes: number;
+  /** Days of history used for adherence. */
+  adherenceDays: number;
+}
+
+export const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
+  leadMinutes: 30,
+  missedAfterMinutes: 180,
+  adherenceDays: 7
+};
+
+export interface ScheduledDose {
+  medication: Medication;
+  scheduledFor: string;
+  /** The patient's answer, if any. */
+  dose?: Dose;
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  name: string;
+  /** Doses whose window has closed or that were answered. */
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+  /** Share of scheduled doses taken, 0-100; undefined when none were due. */
+  percent?: number;
+}
+
+export interface AdherenceSummary {
+  medications: MedicationAdherence[];
+  overall?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const pad = (n: number) => `${n}`.padStart(2, '0');
+
+export const toLocalDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfLocalDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Parses "8:00, 20:00" style input into sorted, de-duplicated HH:MM times.
+ * Invalid entries are dropped.
+ */
+export const parseDoseTimes = (input: string): string[] =>
+  Array.from(new Set(
+    input.split(/[,\s]+/)
+      .map(t => t.match(TIME_PATTERN))
+      .filter((m): m is RegExpMatchArray => !!m)
+      .map(m => `${pad(Number(m[1]))}:${m[2]}`)
+  )).sort();
+
+export const createMedication = (input: MedicationInput, prescriber: string, now: Date = new Date()): Medication => ({
+  id: `med-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+  name: input.name.trim(),
+  dosage: input.dosage.trim(),
+  times: [...input.times].sort(),
+  instructions: input.instructions?.trim() || undefined,
+  startDate: input.startDate || toLocalDate(now),
+  endDate: input.endDate || undefined,
+  prescribedBy: prescriber,
+  prescribedAt: now.toISOString(),
+  active: true
+});
+
+/**
+ * Ends a prescription now: later doses today are no longer due. Past doses
+ * still count towards adherence.
+ */
+export const stopMedication = (medication: Medication, now: Date = new Date()): Medication => ({
+  ...medication,
+  active: false,
+  endDate: toLocalDate(now),
+  stoppedAt: now.toISOString()
+});
+
+/**
+ * Scheduled dose instants for one medication within [from, to]. Doses run
+ * from the later of `startDate` and the moment it was prescribed, and stop
+ * at the end of `endDate` or the moment it was stopped, whichever is first.
+ */
+export const scheduledTimes = (medication: Medication, from: Date, to: Date): Date[] => {
+  const start = Math.max(new Date(`${medication.startDate}T00:00:00`).getTime(), new Date(medication.prescribedAt).getTime() || 0);
+  const ends = [
+    ...(medication.endDate ? [new Date(`${medication.endDate}T00:00:00`).getTime() + DAY_MS] : []),
+    ...(medication.stoppedAt ? [new Date(medication.stoppedAt).getTime()] : [])
+  ];
+  const end = ends.length > 0 ? Math.min(...ends) : undefined;
+  const times: Date[] = [];
+
+  for (let day = startOfLocalDay(from); day.getTime() <= to.getTime(); day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    for (const time of medication.times) {
+      const [h, m] = time.split(':').map(Number);
+      const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m);
+      if (at < from || at > to || at.getTime() < start || (end !== undefined && at.getTime() >= end)) continue;
+      times.push(at);
+    }
+  }
+  return times;
+};
+
+/**
+ * Dose ids are derived from the medication and slot so answering the same
+ * dose twice overwrites rather than duplicates.
+ */
+const doseId = (medicationId: string, scheduledFor: string) => `dose-${medicationId}-${new Date(scheduledFor).getTime()}`;
+
+export const recordDose = (medicationId: string, scheduledFor: string, status: DoseStatus, now: Date = new Date()): Dose => ({
+  id: doseId(medicationId, scheduledFor),
+  medicationId,
+  scheduledFor,
+  status,
+  recordedAt: now.toISOString()
+});
+
+/**
+ * Replaces any earlier answer for the same dose.
+ */
+export const upsertDose = (doses: Dose[], dose: Dose): Dose[] =>
+  [...doses.filter(d => d.id !== dose.id), dose];
+
+const findDose = (doses: Dose[], medicationId: string, scheduledFor: Date) =>
+  doses.find(d => d.medicationId === medicationId && new Date(d.scheduledFor).getTime() === scheduledFor.getTime());
+
+/**
+ * Every dose scheduled within [from, to] across the patient's medications,
+ * with the patient's answer where given, in time order.
+ */
+export const scheduledDoses = (patient: Patient, from: Date, to: Date): ScheduledDose[] =>
+  patient.medications
+    .flatMap(medication => scheduledTimes(medication, from, to).map(at => ({
+      medication,
+      scheduledFor: at.toISOString(),
+      dose: findDose(patient.doses, medication.id, at)
+    })))
+    .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+
+/**
+ * Today's schedule for the patient view.
+ */
+export const dosesForDay = (patient: Patient, day: Date = new Date()): ScheduledDose[] => {
+  const start = startOfLocalDay(day);
+  return scheduledDoses(patient, start, new Date(start.getTime() + DAY_MS - 1));
+};
+
+/**
+ * Unanswered doses the patient should be reminded about: due within the
+ * lead time, or overdue but not yet counted as missed.
+ */
+export const dueReminders = (patient: Patient, now: Date = new Date(), config: ReminderConfig = DEFAULT_REMINDER_CONFIG): ScheduledDose[] =>
+  scheduledDoses(
+    patient,
+    new Date(now.getTime() - config.missedAfterMinutes * MINUTE_MS),
+    new Date(now.getTime() + config.leadMinutes * MINUTE_MS)
+  ).filter(s => !s.dose);
+
+export const computeAdherence = (patient: Patient, now: Date = new Date(), config: ReminderConfig = DEFAULT_REMINDER_CONFIG): AdherenceSummary => {
+  const from = new Date(now.getTime() - config.adherenceDays * DAY_MS);
+  const missedBefore = now.getTime() - config.missedAfterMinutes * MINUTE_MS;
+  const counted = scheduledDoses(patient, from, now)
+    // Unanswered doses still inside their window are neither taken nor missed yet
+    .filter(s => s.dose || new Date(s.scheduledFor).getTime() < missedBefore);
+
+  const percent = (taken: number, scheduled: number) => scheduled > 0 ? Math.round((taken / scheduled) * 100) : undefined;
+
+  const medications = patient.medications
+    .map(medication => {
+      const slots = counted.filter(s => s.medication.id === medication.id);
+      const taken = slots.filter(s => s.dose?.status === 'TAKEN').length;
+      const skipped = slots.filter(s => s.dose?.status === 'SKIPPED').length;
+      return {
+        medicationId: medication.id,
+        name: medication.name,
+        scheduled: slots.length,
+        taken,
+        skipped,
+        missed: slots.length - taken - skipped,
+        percent: percent(taken, slots.length)
+      };
+    })
+    .filter(a => a.scheduled > 0 || patient.medications.find(m => m.id === a.medicationId)?.active);
+
+  const scheduled = medications.reduce((s, a) => s + a.scheduled, 0);
+  const taken = medications.reduce((s, a) => s + a.taken, 0);
+  return { medications, overall: percent(taken, scheduled) };
+};
+
+export const activeMedications = (patient: Patient) => patient.medications.filter(m => m.active);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAttachmentWithHeuristics, analyzeWithHeuristics, extractVitalsFromText } from './mockTriageProvider';
+
+describe('analyzeWithHeuristics', () => {
+  it('is 50% confident about recognised readings and symptoms', () => {
+    expect(analyzeWithHeuristics('fasting sugar 118 today').insight.confidenceScore).toBe(0.5);
+    expect(analyzeWithHeuristics('feeling dizzy since morning').insight.confidenceScore).toBe(0.5);
+  });
+
+  it('is 20% confident about messages it could not read', () => {
+    const { insight } = analyzeWithHeuristics('kal se thoda ajeeb lag raha hai');
+
+    expect(insight.confidenceScore).toBe(0.2);
+    expect(insight.missingData).toContain('No numeric readings found in message');
+  });
+});
+
+describe('extractVitalsFromText', () => {
+  const AT = '2024-06-15T09:00:00.000Z';
+  const readings = (message: string) => extractVitalsFromText(message, AT).map(v => [v.type, v.value]);
+
+  it('does not read "hrs" as a heart rate', () => {
+    expect(readings('slept 6 hrs, sugar 140')).toEqual([['GLUCOSE', 140]]);
+    expect(readings('hr 88 after walking')).toEqual([['HEART_RATE', 88]]);
+  });
+
+  it('does not read dates as blood pressure', () => {
+    expect(readings('since 15/06 feeling tired')).toEqual([]);
+    expect(readings('15/06 BP 142/91')).toEqual([['BP_SYSTOLIC', 142], ['BP_DIASTOLIC', 91]]);
+  });
+});
+
+describe('analyzeAttachmentWithHeuristics', () => {
+  it('never reads vitals from an attachment file name', () => {
+    const { insight, vitals } = analyzeAttachmentWithHeuristics({ kind: 'DOCUMENT', mimeType: 'application/pdf', data: '', fileName: 'weight_chart_2024.pdf' });
+
+    expect(vitals).toEqual([]);
+    expect(insight.clinicalActionSuggestion).toBe('Review attachment manually');
+  });
+});
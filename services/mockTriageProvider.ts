@@ -0,0 +1,216 @@
+import { ClinicalInsight, RiskLevel, VitalSign } from "../types";
+import { TriageAttachment, TriageProvider, TriageResult } from "./triageProvider";
+import { detectLanguage, isEnglish, languageLabel } from "./languageService";
+
+/**
+ * Offline heuristic provider. Deterministic for a given message so it can be
+ * used for local development, demos and tests without network access.
+ */
+
+interface VitalPattern {
+  type: VitalSign['type'];
+  unit: string;
+  pattern: RegExp;
+}
+
+// Checked in order; the first match per type wins, so explicit alternate units come first
+const VITAL_PATTERNS: VitalPattern[] = [
+  { type: 'GLUCOSE', unit: 'mmol/L', pattern: /\b(?:sugar|glucose|gluc|rbs|fbs|ppbs)\D{0,12}(\d{1,2}(?:\.\d+)?)\s*mmol/i },
+  { type: 'GLUCOSE', unit: 'mg/dL', pattern: /\b(?:sugar|glucose|gluc|rbs|fbs|ppbs)\D{0,12}(\d{2,3}(?:\.\d+)?)/i },
+  { type: 'SPO2', unit: '%', pattern: /\b(?:spo2|sp02|oxygen|o2 sat|saturation)\D{0,12}(\d{2,3})/i },
+  { type: 'HEART_RATE', unit: 'bpm', pattern: /\b(?:pulse|heart rate|hr|bpm)\b\D{0,12}(\d{2,3})/i },
+  { type: 'TEMP', unit: '°F', pattern: /\b(?:temp|temperature|fever)\D{0,12}(\d{2,3}(?:\.\d+)?)/i },
+  { type: 'WEIGHT', unit: 'lb', pattern: /\b(?:weight|wt)\D{0,12}(\d{2,3}(?:\.\d+)?)\s*(?:lbs?|pounds)\b/i },
+  { type: 'WEIGHT', unit: 'kg', pattern: /\b(?:weight|wt)\D{0,12}(\d{2,3}(?:\.\d+)?)/i },
+  { type: 'URINE_OUTPUT', unit: 'ml', pattern: /\b(?:urine|output)\D{0,12}(\d{2,4})/i }
+];
+
+// Keyword matching is a guess, so its confidence sits exactly at the reply
+// policy's 50% threshold: replies about recognised readings or symptoms go
+// out (unless HIGH/CRITICAL), and anything the keywords missed is held for a
+// clinician. This is intended; offline triage should not answer what it could
+// not read.
+const RECOGNISED_CONFIDENCE = 0.5;
+const UNRECOGNISED_CONFIDENCE = 0.2;
+
+const BP_PATTERN = /\b(\d{2,3})\s*\/\s*(\d{2,3})\b/g;
+
+// Dates such as 15/06 look like fractions too; only a plausible pressure counts
+const isPlausibleBp = (systolic: number, diastolic: number) =>
+  systolic >= 60 && systolic <= 300 && diastolic >= 30 && diastolic < systolic;
+
+interface SymptomRule {
+  level: RiskLevel;
+  theme: string;
+  pattern: RegExp;
+}
+
+const SYMPTOM_RULES: SymptomRule[] = [
+  { level: RiskLevel.CRITICAL, theme: "Possible Cardiac Distress", pattern: /chest pain|chest tight|pressure in (my )?chest/i },
+  { level: RiskLevel.CRITICAL, theme: "Altered Consciousness", pattern: /unconscious|fainted|passed out|seizure|confus/i },
+  { level: RiskLevel.CRITICAL, theme: "Respiratory Distress", pattern: /can'?t breathe|breathless|short(ness)? of breath/i },
+  { level: RiskLevel.HIGH, theme: "Symptom Progression", pattern: /dizz|vomit|sweating|blurred vision|severe/i },
+  { level: RiskLevel.MEDIUM, theme: "Medication Non-Adherence", pattern: /missed|forgot|skipped|ran out/i },
+  { level: RiskLevel.MEDIUM, theme: "Symptom Report", pattern: /pain|headache|tired|weak|swelling|fever/i }
+];
+
+const RISK_ORDER = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+
+export const extractVitalsFromText = (message: string, timestamp: string): VitalSign[] => {
+  const vitals: VitalSign[] = [];
+
+  const bp = Array.from(message.matchAll(BP_PATTERN)).find(m => isPlausibleBp(Number(m[1]), Number(m[2])));
+  if (bp) {
+    vitals.push({ type: 'BP_SYSTOLIC', value: Number(bp[1]), unit: 'mmHg', timestamp });
+    vitals.push({ type: 'BP_DIASTOLIC', value: Number(bp[2]), unit: 'mmHg', timestamp });
+  }
+
+  // Strip the BP fraction so its numbers aren't picked up by other patterns
+  const remainder = bp ? message.replace(bp[0], ' ') : message;
+  VITAL_PATTERNS.forEach(({ type, unit, pattern }) => {
+    if (vitals.some(v => v.type === type)) return;
+    const match = remainder.match(pattern);
+    if (match) vitals.push({ type, value: Number(match[1]), unit, timestamp });
+  });
+
+  return vitals;
+};
+
+// Reply templates for non-English patients; the offline provider cannot translate free text
+const LOCALIZED_REPLIES: Record<string, { noted: (values: string) => string; thanks: string; review: string; logged: string }> = {
+  'hi': {
+    noted: values => `आपकी रीडिंग (${values}) दर्ज कर ली गई है।`,
+    thanks: 'अपडेट के लिए धन्यवाद।',
+    review: 'एक चिकित्सक जल्द ही इसकी समीक्षा करेंगे।',
+    logged: 'हमने इसे आपके केयर लॉग में जोड़ दिया है।'
+  },
+  'hi-Latn': {
+    noted: values => `Aapki reading (${values}) note kar li gayi hai.`,
+    thanks: 'Update ke liye dhanyavaad.',
+    review: 'Ek doctor jaldi hi ise review karenge.',
+    logged: 'Humne ise aapke care log mein add kar diya hai.'
+  },
+  'te': {
+    noted: values => `మీ రీడింగ్ (${values}) నమోదు చేశాము.`,
+    thanks: 'అప్‌డేట్ ఇచ్చినందుకు ధన్యవాదాలు.',
+    review: 'ఒక వైద్యులు త్వరలో దీన్ని పరిశీలిస్తారు.',
+    logged: 'దీన్ని మీ కేర్ లాగ్‌లో చేర్చాము.'
+  },
+  'bn': {
+    noted: values => `আপনার রিডিং (${values}) নথিভুক্ত করা হয়েছে।`,
+    thanks: 'আপডেটের জন্য ধন্যবাদ।',
+    review: 'একজন চিকিৎসক শীঘ্রই এটি দেখবেন।',
+    logged: 'আমরা এটি আপনার কেয়ার লগে যোগ করেছি।'
+  }
+};
+
+const buildReply = (vitals: VitalSign[], riskLevel: RiskLevel, language?: string): string => {
+  const localized = language ? LOCALIZED_REPLIES[language] : undefined;
+  const urgent = riskLevel === RiskLevel.HIGH || riskLevel === RiskLevel.CRITICAL;
+  if (localized) {
+    const noted = vitals.length > 0 ? localized.noted(vitals.map(v => `${v.value} ${v.unit}`).join(', ')) : localized.thanks;
+    return `${noted} ${urgent ? localized.review : localized.logged}`;
+  }
+
+  const noted = vitals.length > 0
+    ? `Noted your reading${vitals.length > 1 ? 's' : ''} of ${vitals.map(v => `${v.value} ${v.unit}`).join(', ')}.`
+    : "Thank you for the update.";
+  const followUp = urgent
+    ? "A clinician will review this shortly."
+    : "We have added this to your care log.";
+  return `${noted} ${followUp}`;
+};
+
+// Reads the "Preferred language: Hindi (hi)" line written by the context builder
+const preferredLanguageFromContext = (context: string) => context.match(/Preferred language: .*\(([\w-]+)\)/)?.[1];
+
+export const analyzeWithHeuristics = (message: string, patientHistoryContext: string = ''): TriageResult => {
+  const timestamp = new Date().toISOString();
+  const vitals = extractVitalsFromText(message, timestamp);
+  const matched = SYMPTOM_RULES.filter(r => r.pattern.test(message));
+
+  const riskLevel = matched.reduce(
+    (lvl, r) => RISK_ORDER.indexOf(r.level) > RISK_ORDER.indexOf(lvl) ? r.level : lvl,
+    RiskLevel.LOW
+  );
+
+  const language = detectLanguage(message) || preferredLanguageFromContext(patientHistoryContext);
+
+  const missingData: string[] = [];
+  if (vitals.length === 0) missingData.push("No numeric readings found in message");
+  if (!isEnglish(language)) missingData.push(`${languageLabel(language)} message not translated offline; symptom keywords are English-only`);
+
+  const insight: ClinicalInsight = {
+    summary: vitals.length > 0 || matched.length > 0
+      ? `Offline heuristic triage: ${vitals.length} reading(s) extracted, ${matched.length} symptom pattern(s) matched.`
+      : "Offline heuristic triage: no readings or symptoms recognised.",
+    riskLevel,
+    confidenceScore: matched.length > 0 || vitals.length > 0 ? RECOGNISED_CONFIDENCE : UNRECOGNISED_CONFIDENCE,
+    themes: Array.from(new Set(matched.map(r => r.theme))),
+    reasoning: matched.length > 0
+      ? matched.map(r => `Keyword match: ${r.theme} → ${r.level}`)
+      : ["No high-risk keywords detected"],
+    missingData,
+    clinicalActionSuggestion: riskLevel === RiskLevel.CRITICAL || riskLevel === RiskLevel.HIGH
+      ? "Call patient to verify symptoms"
+      : "Monitor"
+  };
+
+  return { insight, vitals, suggestedResponse: buildReply(vitals, riskLevel, language), language };
+};
+
+const unreadAttachmentResult = (attachment: TriageAttachment): TriageResult => ({
+  insight: {
+    summary: `${attachment.kind === 'IMAGE' ? 'Photo' : 'Document'} received (${attachment.fileName || attachment.mimeType}). Offline provider cannot read attachment content.`,
+    riskLevel: RiskLevel.MEDIUM,
+    confidenceScore: 0.1,
+    themes: [],
+    reasoning: ["Attachment content not analysed offline"],
+    missingData: ["Attachment content not machine-read"],
+    clinicalActionSuggestion: "Review attachment manually"
+  },
+  vitals: [],
+  suggestedResponse: "We have received your file. A care coordinator will review it shortly."
+});
+
+/**
+ * The offline provider cannot read pixels or PDFs, so the attachment always
+ * goes to a clinician. Nothing is extracted from the file name: names like
+ * `weight_chart_2024.pdf` are not readings. A caption is ordinary patient
+ * text and is triaged like a message; it can only raise the risk level.
+ */
+export const analyzeAttachmentWithHeuristics = (attachment: TriageAttachment, patientHistoryContext: string = ''): TriageResult => {
+  const unread = unreadAttachmentResult(attachment);
+  if (!attachment.caption) return unread;
+
+  const caption = analyzeWithHeuristics(attachment.caption, patientHistoryContext);
+  const riskLevel = RISK_ORDER.indexOf(caption.insight.riskLevel) > RISK_ORDER.indexOf(unread.insight.riskLevel)
+    ? caption.insight.riskLevel
+    : unread.insight.riskLevel;
+  return {
+    ...caption,
+    insight: {
+      ...unread.insight,
+      summary: `${unread.insight.summary} Caption: ${caption.insight.summary}`,
+      riskLevel,
+      themes: caption.insight.themes,
+      reasoning: [...unread.insight.reasoning, ...caption.insight.reasoning],
+      clinicalActionSuggestion: riskLevel === RiskLevel.CRITICAL || riskLevel === RiskLevel.HIGH
+        ? caption.insight.clinicalActionSuggestion
+        : unread.insight.clinicalActionSuggestion
+    },
+    suggestedResponse: unread.suggestedResponse
+  };
+};
+
+export const mockTriageProvider: TriageProvider = {
+  id: 'mock',
+  label: 'Offline Heuristic (Mock)',
+  isAvailable: () => true,
+  analyze: async (message, patientHistoryContext) => analyzeWithHeuristics(message, patientHistoryContext),
+  analyzeAttachment: async (attachment, patientHistoryContext) => analyzeAttachmentWithHeuristics(attachment, patientHistoryContext),
+  // The photo is not inspected offline; an invented estimate would be logged as real
+  analyzeMeal: async () => undefined,
+  // No offline speech recognition: voice notes go to manual review untranscribed
+  transcribe: async () => ''
+};
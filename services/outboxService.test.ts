@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Message } from '../types';
+import { at, makePatient } from '../test/fixtures';
+import { saveMessage } from './supabaseService';
+import { MAX_ATTEMPTS, OutboxEvent, backoffDelay, enqueueMessage, mergePendingMessages, retryMessage, startOutbox, subscribeToOutbox, updateQueuedMessage } from './outboxService';
+
+vi.mock('./supabaseService', () => ({
+  saveMessage: vi.fn(),
+  saveVitals: vi.fn()
+}));
+
+const message = (id: string) => ({ id, sender: 'PATIENT', type: 'TEXT', content: 'BP 150/95', timestamp: at(0).toISOString() } as const);
+
+/** Queues a message whose every attempt fails, and runs it until it is marked failed. */
+const failToLimit = async (id: string) => {
+  vi.mocked(saveMessage).mockResolvedValue(null);
+  await enqueueMessage('P-1', message(id));
+  for (let attempts = 1; attempts < MAX_ATTEMPTS; attempts++) {
+    await vi.advanceTimersByTimeAsync(backoffDelay(attempts));
+  }
+};
+
+describe('outboxService', () => {
+  const events: OutboxEvent[] = [];
+  let subscription: { unsubscribe: () => void };
+  let online: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at(0));
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => store.set(key, value) });
+    vi.stubGlobal('window', {
+      addEventListener: (_: string, handler: () => void) => { online = handler; },
+      removeEventListener: () => { online = undefined; }
+    });
+    events.length = 0;
+    subscription = subscribeToOutbox(event => events.push(event));
+  });
+
+  afterEach(() => {
+    subscription.unsubscribe();
+    vi.mocked(saveMessage).mockReset();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('doubles the retry delay up to a five minute cap', () => {
+    expect([1, 2, 3, 5, 20].map(backoffDelay)).toEqual([2000, 4000, 8000, 32000, 5 * 60 * 1000]);
+  });
+
+  it('marks a message failed after MAX_ATTEMPTS and stops retrying it', async () => {
+    await failToLimit('m-1');
+
+    expect(saveMessage).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(events).toEqual([{ type: 'MESSAGE_FAILED', patientId: 'P-1', localId: 'm-1', attempts: MAX_ATTEMPTS }]);
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(saveMessage).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(mergePendingMessages(makePatient()).messages).toMatchObject([{ id: 'm-1', syncStatus: 'FAILED' }]);
+  });
+
+  it('re-queues a failed message on a manual retry', async () => {
+    await failToLimit('m-1');
+    const saved: Message = { ...message('m-1') };
+    vi.mocked(saveMessage).mockResolvedValue(saved);
+
+    retryMessage('m-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events[events.length - 1]).toEqual({ type: 'MESSAGE_SENT', patientId: 'P-1', localId: 'm-1', message: saved });
+    expect(mergePendingMessages(makePatient()).messages).toEqual([]);
+  });
+
+  it('re-queues failed messages when the browser comes back online', async () => {
+    await failToLimit('m-1');
+    const stop = startOutbox();
+    await vi.advanceTimersByTimeAsync(0);
+    vi.mocked(saveMessage).mockResolvedValue({ ...message('m-1') });
+
+    online?.();
+    await vi.advanceTimersByTimeAsync(0);
+    stop();
+
+    expect(events.map(e => e.type)).toEqual(['MESSAGE_FAILED', 'MESSAGE_SENT']);
+  });
+
+  it('updates a queued message until it is in flight or sent', async () => {
+    await failToLimit('m-1');
+    expect(updateQueuedMessage('m-1', { translation: 'I feel dizzy' })).toBe(true);
+
+    let resolveSave: (saved: Message) => void = () => {};
+    vi.mocked(saveMessage).mockReturnValue(new Promise(resolve => { resolveSave = resolve; }));
+    retryMessage('m-1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(updateQueuedMessage('m-1', { language: 'hi' })).toBe(false);
+    expect(saveMessage).toHaveBeenLastCalledWith('P-1', expect.objectContaining({ translation: 'I feel dizzy' }));
+
+    resolveSave({ ...message('m-1') });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(updateQueuedMessage('m-1', { language: 'hi' })).toBe(false);
+  });
+
+  it('does not re-attach queued messages the server already has', async () => {
+    await failToLimit('m-1');
+    await failToLimit('m-2');
+
+    const patient = mergePendingMessages(makePatient({ messages: [message('m-1')] }));
+
+    expect(patient.messages.map(m => [m.id, m.syncStatus])).toEqual([['m-1', undefined], ['m-2', 'FAILED']]);
+  });
+});
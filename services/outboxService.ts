@@ -0,0 +1,230 @@
+import { Message, Patient, VitalSign } from '../types';
+import { saveMessage, saveVitals } from './supabaseService';
+
+/**
+ * Durable outbound queue for messages and vitals.
+ * Every write is recorded in localStorage before it is attempted, so nothing
+ * sent from a clinic with patchy connectivity is lost on failure or reload.
+ * Failed writes are retried with exponential backoff.
+ *
+ * Messages and vitals carry client-generated ids that the server stores as
+ * is, so a retry of a write that landed but timed out is a no-op rather than
+ * a second row. Tabs share the queue, so entries are only sent under a cross-tab lock.
+ */
+
+type OutboxEntry =
+  | { kind: 'MESSAGE'; id: string; patientId: string; attempts: number; nextAttemptAt: number; failed: boolean; message: Partial<Message> & { id: string } }
+  | { kind: 'VITALS'; id: string; patientId: string; attempts: number; nextAttemptAt: number; failed: boolean; vitals: (VitalSign & { id: string })[] };
+
+export type OutboxEvent =
+  | { type: 'MESSAGE_SENT'; patientId: string; localId: string; message: Message }
+  | { type: 'MESSAGE_FAILED'; patientId: string; localId: string; attempts: number };
+
+const STORAGE_KEY = 'pajr.outbox';
+const LOCK_NAME = 'pajr.outbox';
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+/** Attempts before an entry is marked failed and waits for a manual or online retry. */
+export const MAX_ATTEMPTS = 5;
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let processing = false;
+const inFlight = new Set<string>();
+
+const readQueue = (): OutboxEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeQueue = (queue: OutboxEntry[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+
+const updateEntry = (id: string, update: (entry: OutboxEntry) => OutboxEntry | null) => {
+  const next = readQueue()
+    .map(e => e.id === id ? update(e) : e)
+    .filter((e): e is OutboxEntry => e !== null);
+  writeQueue(next);
+};
+
+const emit = (event: OutboxEvent) => listeners.forEach(l => l(event));
+
+/**
+ * Runs `task` holding the outbox lock shared by every tab of this origin.
+ * Without the Web Locks API it runs unlocked; idempotent ids keep that safe.
+ */
+const withLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(LOCK_NAME, task)
+    : task();
+
+/**
+ * Id for a new outbound message. Generated on the client so the optimistic
+ * message, its queue entry and the stored row share one id.
+ */
+export const newMessageId = () => crypto.randomUUID();
+
+export const backoffDelay = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+
+/**
+ * Attempts a single entry. Returns the persisted message for MESSAGE entries.
+ */
+const attempt = async (entry: OutboxEntry): Promise<Message | boolean> => {
+  if (entry.kind === 'MESSAGE') {
+    const saved = await saveMessage(entry.patientId, entry.message);
+    return saved || false;
+  }
+  return saveVitals(entry.patientId, entry.vitals);
+};
+
+const scheduleNext = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const due = readQueue().filter(e => !e.failed).map(e => e.nextAttemptAt);
+  if (due.length === 0) return;
+  timer = setTimeout(() => { processOutbox(); }, Math.max(0, Math.min(...due) - Date.now()));
+};
+
+const runEntry = async (queued: OutboxEntry): Promise<Message | null> => {
+  // Another tab may have sent it already; re-read for late updates such as translations
+  const entry = readQueue().find(e => e.id === queued.id);
+  if (!entry || inFlight.has(entry.id)) return null;
+  inFlight.add(entry.id);
+  let result: Message | boolean;
+  try {
+    result = await attempt(entry);
+  } finally {
+    inFlight.delete(entry.id);
+  }
+
+  if (result) {
+    updateEntry(entry.id, () => null);
+    if (entry.kind === 'MESSAGE' && typeof result !== 'boolean') {
+      emit({ type: 'MESSAGE_SENT', patientId: entry.patientId, localId: entry.id, message: result });
+      return result;
+    }
+    return null;
+  }
+
+  const attempts = entry.attempts + 1;
+  const failed = attempts >= MAX_ATTEMPTS;
+  updateEntry(entry.id, e => ({ ...e, attempts, failed, nextAttemptAt: Date.now() + backoffDelay(attempts) }));
+  if (entry.kind === 'MESSAGE' && failed) {
+    emit({ type: 'MESSAGE_FAILED', patientId: entry.patientId, localId: entry.id, attempts });
+  }
+  return null;
+};
+
+/**
+ * Sends every entry that is due. Safe to call repeatedly.
+ */
+export const processOutbox = async () => {
+  if (processing) return;
+  processing = true;
+  try {
+    await withLock(async () => {
+      const due = readQueue().filter(e => !e.failed && !inFlight.has(e.id) && e.nextAttemptAt <= Date.now());
+      for (const entry of due) {
+        await runEntry(entry);
+      }
+    });
+  } finally {
+    processing = false;
+    scheduleNext();
+  }
+};
+
+const enqueue = async (entry: OutboxEntry): Promise<Message | null> => {
+  writeQueue([...readQueue(), entry]);
+  // First attempt happens immediately; retries are picked up by the scheduler
+  const result = await withLock(() => runEntry(entry));
+  scheduleNext();
+  return result;
+};
+
+/**
+ * Queues a message for persistence. `message.id` (see `newMessageId`) is kept
+ * by the server; resolves to the server message if the first attempt succeeded.
+ */
+export const enqueueMessage = (patientId: string, message: Partial<Message> & { id: string }) =>
+  enqueue({ kind: 'MESSAGE', id: message.id, patientId, attempts: 0, nextAttemptAt: Date.now(), failed: false, message });
+
+/**
+ * Queues readings for persistence. Each reading keeps its id or gets a new
+ * one, which the server stores, so retries never duplicate a reading.
+ */
+export const enqueueVitals = (patientId: string, vitals: VitalSign[]) =>
+  enqueue({
+    kind: 'VITALS',
+    id: `vitals-${crypto.randomUUID()}`,
+    patientId,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    failed: false,
+    vitals: vitals.map(v => ({ ...v, id: v.id ?? crypto.randomUUID() }))
+  });
+
+/**
+ * Merges late-arriving fields (translation, language) into a message that is
+ * still queued. Returns false once the message has left the queue.
+ */
+export const updateQueuedMessage = (localId: string, changes: Partial<Message>): boolean => {
+  let found = false;
+  updateEntry(localId, e => {
+    if (e.kind !== 'MESSAGE' || inFlight.has(localId)) return e;
+    found = true;
+    return { ...e, message: { ...e.message, ...changes } };
+  });
+  return found;
+};
+
+/**
+ * Moves a failed message back into the queue and retries it now.
+ */
+export const retryMessage = (localId: string) => {
+  updateEntry(localId, e => ({ ...e, failed: false, attempts: 0, nextAttemptAt: Date.now() }));
+  processOutbox();
+};
+
+/**
+ * Re-attaches queued messages to a freshly loaded patient so pending and
+ * failed badges survive a reload.
+ */
+export const mergePendingMessages = (patient: Patient): Patient => {
+  const pending = readQueue()
+    .filter((e): e is Extract<OutboxEntry, { kind: 'MESSAGE' }> => e.kind === 'MESSAGE' && e.patientId === patient.id)
+    .filter(e => !patient.messages.some(m => m.id === e.id))
+    .map(e => ({ ...e.message, syncStatus: e.failed ? 'FAILED' : 'PENDING' } as Message));
+  if (pending.length === 0) return patient;
+
+  const messages = [...patient.messages, ...pending]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return { ...patient, messages };
+};
+
+export const subscribeToOutbox = (listener: (event: OutboxEvent) => void) => {
+  listeners.add(listener);
+  return { unsubscribe: () => { listeners.delete(listener); } };
+};
+
+/**
+ * Starts background retries and re-queues failed entries when the browser
+ * comes back online. Returns a cleanup function.
+ */
+export const startOutbox = () => {
+  const handleOnline = () => {
+    writeQueue(readQueue().map(e => e.failed ? { ...e, failed: false, attempts: 0, nextAttemptAt: Date.now() } : e));
+    processOutbox();
+  };
+
+  window.addEventListener('online', handleOnline);
+  processOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+};
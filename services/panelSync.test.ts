@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { RiskLevel } from '../types';
+import { makePatient } from '../test/fixtures';
+import { PanelEvent, applyPanelEvent } from './panelSync';
+
+const AT = '2024-06-15T09:00:00.000Z';
+
+const message = { id: 'm-1', sender: 'PATIENT', type: 'TEXT', content: 'Feeling dizzy', timestamp: AT, deliveredAt: AT } as const;
+
+const events: PanelEvent[] = [
+  { type: 'MESSAGE', patientId: 'P-1', message },
+  { type: 'RECEIPT', patientId: 'P-1', messageId: 'm-1', readAt: AT },
+  { type: 'VITAL', patientId: 'P-1', vital: { id: 'v-1', type: 'GLUCOSE', value: 190, unit: 'mg/dL', timestamp: AT } },
+  { type: 'VITAL', patientId: 'P-1', vital: { type: 'SPO2', value: 93, unit: '%', timestamp: AT } },
+  {
+    type: 'INSIGHT',
+    patientId: 'P-1',
+    record: {
+      id: 'i-1', timestamp: AT, summary: 'High glucose', riskLevel: RiskLevel.HIGH, confidenceScore: 0.8,
+      reasoning: [], themes: [], missingData: [], clinicalActionSuggestion: 'Call patient'
+    }
+  },
+  { type: 'FLAG', patientId: 'P-1', flag: { id: 'flag-1', status: 'OPEN', riskLevel: RiskLevel.HIGH, raisedAt: AT, notes: [], escalations: [] } },
+  {
+    type: 'DRAFT',
+    patientId: 'P-1',
+    draft: {
+      id: 'd-1', channel: 'APP', status: 'PENDING_REVIEW', reason: 'High risk', riskLevel: RiskLevel.HIGH,
+      confidenceScore: 0.8, originalText: 'Please rest', createdAt: AT
+    }
+  },
+  {
+    type: 'MEDICATION',
+    patientId: 'P-1',
+    medication: { id: 'med-1', name: 'Metformin', dosage: '500 mg', times: ['08:00'], startDate: '2024-06-15', prescribedBy: 'D-1', prescribedAt: AT, active: true }
+  },
+  { type: 'DOSE', patientId: 'P-1', dose: { id: 'dose-1', medicationId: 'med-1', scheduledFor: AT, status: 'TAKEN', recordedAt: AT } },
+  { type: 'WEARABLE', patientId: 'P-1', day: { date: '2024-06-15', steps: 4200 } },
+  { type: 'PATIENT', patientId: 'P-1', riskStatus: RiskLevel.HIGH, lastInteraction: AT }
+];
+
+describe('applyPanelEvent', () => {
+  it.each(events.map(event => [event.type, event] as const))('applies a repeated %s event once', (_, event) => {
+    const patient = makePatient({ messages: [{ ...message, id: 'm-0', timestamp: '2024-06-15T08:00:00.000Z' }] });
+    const once = applyPanelEvent(patient, event);
+
+    expect(applyPanelEvent(once, event)).toEqual(once);
+  });
+
+  it('applies a whole replayed batch once', () => {
+    const once = events.reduce(applyPanelEvent, makePatient());
+    const twice = events.reduce(applyPanelEvent, once);
+
+    expect(twice).toEqual(once);
+    expect(twice.messages).toHaveLength(1);
+    expect(twice.vitalsHistory).toHaveLength(2);
+    expect(twice.messages[0].readAt).toBe(AT);
+  });
+
+  it('marks an echoed optimistic message sent instead of adding it again', () => {
+    const patient = makePatient({ messages: [{ ...message, deliveredAt: undefined, syncStatus: 'PENDING' }] });
+    const event = events[0];
+
+    const echoed = applyPanelEvent(applyPanelEvent(patient, event), event);
+
+    expect(echoed.messages).toEqual([{ ...message, syncStatus: 'SENT' }]);
+  });
+});
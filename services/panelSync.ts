@@ -0,0 +1,120 @@
+import { CarePlan, Dose, InsightRecord, Medication, Message, Patient, PatientFlag, ReplyDraft, RiskLevel, VitalSign, WearableDay } from '../types';
+import { toClinicalInsight } from './patientMapper';
+import { isFlagActive } from './flagService';
+import { upsertDose } from './medicationService';
+import { mergeWearableDays } from './wearableImportService';
+
+/**
+ * Realtime changes for a doctor's panel, merged into local patient state.
+ * Every event can arrive more than once (own writes echo back, reconnects
+ * replay), so merging is idempotent.
+ */
+
+export type PanelEvent =
+  | { type: 'MESSAGE'; patientId: string; message: Message }
+  | { type: 'RECEIPT'; patientId: string; messageId: string; deliveredAt?: string; readAt?: string }
+  | { type: 'VITAL'; patientId: string; vital: VitalSign }
+  | { type: 'INSIGHT'; patientId: string; record: InsightRecord }
+  | { type: 'FLAG'; patientId: string; flag: PatientFlag }
+  | { type: 'DRAFT'; patientId: string; draft: ReplyDraft }
+  | { type: 'MEDICATION'; patientId: string; medication: Medication }
+  | { type: 'DOSE'; patientId: string; dose: Dose }
+  | { type: 'WEARABLE'; patientId: string; day: WearableDay }
+  | { type: 'PATIENT'; patientId: string; riskStatus?: RiskLevel; lastInteraction?: string; carePlan?: CarePlan };
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const byTimestamp = <T extends { timestamp: string }>(a: T, b: T) => time(a.timestamp) - time(b.timestamp);
+
+const sameVital = (a: VitalSign, b: VitalSign) =>
+  (a.id !== undefined && a.id === b.id) ||
+  a.type === b.type && a.value === b.value && time(a.timestamp) === time(b.timestamp);
+
+const laterOf = (a: string, b: string) => time(a) >= time(b) ? a : b;
+
+export const applyPanelEvent = (patient: Patient, event: PanelEvent): Patient => {
+  if (patient.id !== event.patientId) return patient;
+
+  switch (event.type) {
+    case 'MESSAGE': {
+      const known = patient.messages.find(m => m.id === event.message.id);
+      if (known) {
+        // Our optimistic copy, possibly sent from another tab's outbox
+        if (!known.syncStatus || known.syncStatus === 'SENT') return patient;
+        return {
+          ...patient,
+          messages: patient.messages.map(m => m.id === known.id ? { ...m, syncStatus: 'SENT', deliveredAt: event.message.deliveredAt } : m)
+        };
+      }
+      return {
+        ...patient,
+        messages: [...patient.messages, event.message].sort(byTimestamp),
+        // Only the patient's own messages count, matching the persisted `last_interaction`;
+        // counting check-ins or replies would hide the silence they report
+        lastInteraction: event.message.sender === 'PATIENT' ? laterOf(patient.lastInteraction, event.message.timestamp) : patient.lastInteraction
+      };
+    }
+    case 'RECEIPT':
+      return {
+        ...patient,
+        messages: patient.messages.map(m => m.id === event.messageId
+          ? { ...m, deliveredAt: m.deliveredAt ?? event.deliveredAt, readAt: m.readAt ?? event.readAt }
+          : m)
+      };
+    case 'VITAL': {
+      if (patient.vitalsHistory.some(v => sameVital(v, event.vital))) return patient;
+      return { ...patient, vitalsHistory: [...patient.vitalsHistory, event.vital].sort(byTimestamp) };
+    }
+    case 'INSIGHT': {
+      const known = patient.insightHistory.some(r => r.id === event.record.id);
+      // A known record changes only when a data gap is added to it
+      const insightHistory = known
+        ? patient.insightHistory.map(r => r.id === event.record.id ? event.record : r)
+        : [...patient.insightHistory, event.record].sort(byTimestamp);
+      const latest = insightHistory[insightHistory.length - 1];
+      if (latest !== event.record) return { ...patient, insightHistory };
+      return {
+        ...patient,
+        insightHistory,
+        latestInsight: toClinicalInsight(event.record),
+        riskStatus: event.record.riskLevel
+      };
+    }
+    case 'FLAG': {
+      const current = patient.activeFlag;
+      // Ignore changes to flags that were already superseded locally
+      if (current && current.id !== event.flag.id && time(current.raisedAt) > time(event.flag.raisedAt)) return patient;
+      const activeFlag = isFlagActive(event.flag) ? event.flag : undefined;
+      return { ...patient, activeFlag, isFlagged: !!activeFlag };
+    }
+    case 'DRAFT': {
+      const exists = patient.replyDrafts.some(d => d.id === event.draft.id);
+      return {
+        ...patient,
+        replyDrafts: exists
+          ? patient.replyDrafts.map(d => d.id === event.draft.id ? event.draft : d)
+          : [...patient.replyDrafts, event.draft]
+      };
+    }
+    case 'MEDICATION': {
+      const exists = patient.medications.some(m => m.id === event.medication.id);
+      return {
+        ...patient,
+        medications: exists
+          ? patient.medications.map(m => m.id === event.medication.id ? event.medication : m)
+          : [...patient.medications, event.medication]
+      };
+    }
+    case 'DOSE':
+      return { ...patient, doses: upsertDose(patient.doses, event.dose) };
+    case 'WEARABLE':
+      return { ...patient, wearableHistory: mergeWearableDays(patient.wearableHistory, [event.day]) };
+    case 'PATIENT':
+      return {
+        ...patient,
+        riskStatus: event.riskStatus ?? patient.riskStatus,
+        carePlan: event.carePlan ?? patient.carePlan,
+        lastInteraction: event.lastInteraction ? laterOf(patient.lastInteraction, event.lastInteraction) : patient.lastInteraction
+      };
+  }
+};
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Message, RiskLevel } from '../types';
+import { makePatient } from '../test/fixtures';
+import { DEFAULT_FILTERS, daysSinceContact, filterPatients, filtersFromSearch, loadPresets } from './patientFilterService';
+
+const NOW = new Date('2024-06-15T10:00:00Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const message = (sender: Message['sender'], timestamp: string): Message => ({ id: `m-${sender}`, sender, type: 'TEXT', content: 'Hello', timestamp });
+
+// Stored lastInteraction is ten days old, but the patient messaged an hour ago
+const recentlyActive = makePatient({ id: 'P-1', lastInteraction: daysAgo(10), messages: [message('PATIENT', daysAgo(1 / 24))] });
+const quiet = makePatient({ id: 'P-2', lastInteraction: daysAgo(5), messages: [message('SYSTEM', daysAgo(1 / 24))] });
+
+describe('daysSinceContact', () => {
+  it('counts from the latest patient message, not the stored lastInteraction', () => {
+    expect(daysSinceContact(recentlyActive, NOW)).toBe(0);
+  });
+
+  it('ignores messages the patient did not send', () => {
+    expect(daysSinceContact(quiet, NOW)).toBe(5);
+  });
+});
+
+describe('filterPatients', () => {
+  it('leaves recently active patients out of the no-contact filter', () => {
+    const result = filterPatients([recentlyActive, quiet], { ...DEFAULT_FILTERS, noContactDays: 3 }, NOW);
+
+    expect(result.map(p => p.id)).toEqual(['P-2']);
+  });
+
+  it('sorts by last contact using the latest activity', () => {
+    const result = filterPatients([quiet, recentlyActive], { ...DEFAULT_FILTERS, sort: 'LAST_INTERACTION' }, NOW);
+
+    expect(result.map(p => p.id)).toEqual(['P-1', 'P-2']);
+  });
+});
+
+describe('filtersFromSearch', () => {
+  it('ignores values it does not recognise', () => {
+    expect(filtersFromSearch('?risk=HIGH&risk=SEVERE&flag=MAYBE&stale=-3&sort=toString')).toEqual({ ...DEFAULT_FILTERS, risk: [RiskLevel.HIGH] });
+  });
+});
+
+describe('loadPresets', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('validates stored filters the way URL filters are validated', () => {
+    const stored = [
+      { id: 'preset-1', name: 'Stale CKD', filters: { conditions: ['CKD', 4], risk: ['CRITICAL', 'SEVERE'], flag: 'MAYBE', noContactDays: 2.5, sort: 'NEWEST' } },
+      { id: 'preset-2', name: 'Old format' },
+      'stray',
+      { name: 'No id', filters: {} }
+    ];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+
+    expect(loadPresets('D-1')).toEqual([
+      { id: 'preset-1', name: 'Stale CKD', filters: { ...DEFAULT_FILTERS, conditions: ['CKD'], risk: [RiskLevel.CRITICAL] } },
+      { id: 'preset-2', name: 'Old format', filters: DEFAULT_FILTERS }
+    ]);
+  });
+
+  it('sorts a preset with an unknown sort by priority', () => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify([{ id: 'preset-1', name: 'Newest', filters: { sort: 'NEWEST' } }]) });
+
+    const [preset] = loadPresets('D-1');
+
+    expect(preset.filters.sort).toBe('PRIORITY');
+    expect(filterPatients([recentlyActive, quiet], preset.filters, NOW)).toHaveLength(2);
+  });
+});
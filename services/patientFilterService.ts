@@ -0,0 +1,231 @@
+import { Patient, RiskLevel } from "../types";
+import { isEscalated } from "./flagService";
+import { hasDataGap, lastActivityAt } from "./checkInService";
+import { unreadCount } from "./receiptService";
+
+/**
+ * Doctor patient list filtering: facets over conditions, insight themes,
+ * flag state, risk and staleness, alternate sorts, URL round-tripping and
+ * per-doctor saved presets. Everything except preset storage is pure.
+ */
+
+export type PatientSort = 'PRIORITY' | 'LAST_INTERACTION' | 'CONFIDENCE' | 'UNREAD';
+
+export type FlagFilter = 'ANY' | 'FLAGGED' | 'UNFLAGGED';
+
+export interface PatientFilters {
+  query: string;
+  /** Patients with any of these conditions. */
+  conditions: string[];
+  /** Patients whose latest insight has any of these themes. */
+  themes: string[];
+  risk: RiskLevel[];
+  flag: FlagFilter;
+  /** Only patients with no interaction for at least this many days. */
+  noContactDays?: number;
+  sort: PatientSort;
+}
+
+export const DEFAULT_FILTERS: PatientFilters = {
+  query: '',
+  conditions: [],
+  themes: [],
+  risk: [],
+  flag: 'ANY',
+  sort: 'PRIORITY'
+};
+
+export const SORT_LABELS: Record<PatientSort, string> = {
+  PRIORITY: 'Priority',
+  LAST_INTERACTION: 'Last contact',
+  CONFIDENCE: 'Lowest AI confidence',
+  UNREAD: 'Most unread'
+};
+
+export const NO_CONTACT_OPTIONS = [1, 3, 7, 14, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RISK_WEIGHT: Record<RiskLevel, number> = {
+  [RiskLevel.CRITICAL]: 4,
+  [RiskLevel.HIGH]: 3,
+  [RiskLevel.MEDIUM]: 2,
+  [RiskLevel.LOW]: 1
+};
+
+/**
+ * Whole days since the patient last messaged or sent a reading. Uses the
+ * messages and vitals on hand as well as `lastInteraction`, which may lag
+ * behind them until the panel is reloaded.
+ */
+export const daysSinceContact = (patient: Patient, now: Date = new Date()): number =>
+  Math.floor((now.getTime() - lastActivityAt(patient)) / DAY_MS);
+
+const matches = (patient: Patient, filters: PatientFilters, now: Date): boolean => {
+  const query = filters.query.trim().toLowerCase();
+  if (query && !patient.name.toLowerCase().includes(query) && !patient.id.toLowerCase().includes(query)) return false;
+  if (filters.conditions.length > 0 && !patient.condition.some(c => filters.conditions.includes(c))) return false;
+  if (filters.themes.length > 0 && !patient.latestInsight?.themes.some(t => filters.themes.includes(t))) return false;
+  if (filters.risk.length > 0 && !filters.risk.includes(patient.riskStatus)) return false;
+  if (filters.flag === 'FLAGGED' && !patient.isFlagged) return false;
+  if (filters.flag === 'UNFLAGGED' && patient.isFlagged) return false;
+  if (filters.noContactDays !== undefined && daysSinceContact(patient, now) < filters.noContactDays) return false;
+  return true;
+};
+
+const byPriority = (a: Patient, b: Patient) =>
+  Number(isEscalated(b.activeFlag)) - Number(isEscalated(a.activeFlag)) ||
+  Number(hasDataGap(b)) - Number(hasDataGap(a)) ||
+  RISK_WEIGHT[b.riskStatus] - RISK_WEIGHT[a.riskStatus];
+
+const COMPARATORS: Record<PatientSort, (a: Patient, b: Patient) => number> = {
+  PRIORITY: byPriority,
+  LAST_INTERACTION: (a, b) => lastActivityAt(b) - lastActivityAt(a),
+  // Patients without an assessment sort last
+  CONFIDENCE: (a, b) => (a.latestInsight?.confidenceScore ?? Infinity) - (b.latestInsight?.confidenceScore ?? Infinity),
+  UNREAD: (a, b) => unreadCount(b) - unreadCount(a)
+};
+
+export const filterPatients = (patients: Patient[], filters: PatientFilters, now: Date = new Date()): Patient[] =>
+  patients
+    .filter(p => matches(p, filters, now))
+    .sort((a, b) => COMPARATORS[filters.sort](a, b) || byPriority(a, b));
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+const countValues = (values: string[]): FacetOption[] => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Condition and theme values present on the panel, most common first.
+ */
+export const patientFacets = (patients: Patient[]): { conditions: FacetOption[]; themes: FacetOption[] } => ({
+  conditions: countValues(patients.flatMap(p => Array.from(new Set(p.condition)))),
+  themes: countValues(patients.flatMap(p => Array.from(new Set(p.latestInsight?.themes ?? []))))
+});
+
+export const activeFilterCount = (filters: PatientFilters): number =>
+  filters.conditions.length + filters.themes.length + filters.risk.length +
+  Number(filters.flag !== 'ANY') + Number(filters.noContactDays !== undefined);
+
+// --- URL ---
+
+const PARAMS = {
+  query: 'q',
+  conditions: 'condition',
+  themes: 'theme',
+  risk: 'risk',
+  flag: 'flag',
+  noContactDays: 'stale',
+  sort: 'sort'
+} as const;
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// An own-key check: `in` would also accept inherited names such as "toString"
+const isSort = (value: unknown): value is PatientSort =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(COMPARATORS, value);
+
+/**
+ * Keeps the filter values this app recognises and defaults the rest. Both
+ * URL parameters and stored presets are untrusted, so both come through here.
+ */
+const toFilters = (raw: Partial<Record<keyof PatientFilters, unknown>>): PatientFilters => {
+  const stale = Number(raw.noContactDays);
+  return {
+    query: typeof raw.query === 'string' ? raw.query : '',
+    conditions: strings(raw.conditions),
+    themes: strings(raw.themes),
+    risk: strings(raw.risk).filter((r): r is RiskLevel => RISK_LEVELS.includes(r)),
+    flag: raw.flag === 'FLAGGED' || raw.flag === 'UNFLAGGED' ? raw.flag : 'ANY',
+    noContactDays: Number.isInteger(stale) && stale > 0 ? stale : undefined,
+    sort: isSort(raw.sort) ? raw.sort : 'PRIORITY'
+  };
+};
+
+/**
+ * Reads filters from a query string, ignoring values it doesn't recognise.
+ */
+export const filtersFromSearch = (search: string): PatientFilters => {
+  const params = new URLSearchParams(search);
+  return toFilters({
+    query: params.get(PARAMS.query),
+    conditions: params.getAll(PARAMS.conditions),
+    themes: params.getAll(PARAMS.themes),
+    risk: params.getAll(PARAMS.risk),
+    flag: params.get(PARAMS.flag),
+    noContactDays: params.get(PARAMS.noContactDays),
+    sort: params.get(PARAMS.sort)
+  });
+};
+
+/**
+ * Writes non-default filters into a query string, keeping unrelated
+ * parameters such as `demo`.
+ */
+export const filtersToSearch = (filters: PatientFilters, search: string = ''): string => {
+  const params = new URLSearchParams(search);
+  Object.values(PARAMS).forEach(key => params.delete(key));
+  if (filters.query) params.set(PARAMS.query, filters.query);
+  filters.conditions.forEach(c => params.append(PARAMS.conditions, c));
+  filters.themes.forEach(t => params.append(PARAMS.themes, t));
+  filters.risk.forEach(r => params.append(PARAMS.risk, r));
+  if (filters.flag !== 'ANY') params.set(PARAMS.flag, filters.flag);
+  if (filters.noContactDays !== undefined) params.set(PARAMS.noContactDays, String(filters.noContactDays));
+  if (filters.sort !== 'PRIORITY') params.set(PARAMS.sort, filters.sort);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// --- Presets ---
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: PatientFilters;
+}
+
+const presetKey = (doctorId: string) => `pajr.filterPresets.${doctorId}`;
+
+export const loadPresets = (doctorId: string): FilterPreset[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(presetKey(doctorId)) || '[]');
+    // Presets saved by an older version may hold values this one no longer knows
+    return Array.isArray(stored)
+      ? stored
+        .filter(isRecord)
+        .filter(p => typeof p.id === 'string' && typeof p.name === 'string')
+        .map(p => ({ id: String(p.id), name: String(p.name), filters: toFilters(isRecord(p.filters) ? p.filters : {}) }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (doctorId: string, presets: FilterPreset[]) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(presetKey(doctorId), JSON.stringify(presets));
+};
+
+/**
+ * Adds a preset, replacing one with the same name.
+ */
+export const upsertPreset = (presets: FilterPreset[], name: string, filters: PatientFilters, now: Date = new Date()): FilterPreset[] => {
+  const existing = presets.find(p => p.name === name);
+  const preset = { id: existing?.id ?? `preset-${now.getTime()}`, name, filters };
+  return existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset];
+};
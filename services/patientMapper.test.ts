@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { RiskLevel } from '../types';
+import { toCarePlan, toPatient, toPatientFlag } from './patientMapper';
+
+describe('toPatient', () => {
+  it('maps a row with embedded relations, turning nulls into absent fields', () => {
+    const patient = toPatient({
+      id: 7,
+      name: 'Asha Rao',
+      age: '61',
+      assigned_doctor_id: 'D-1',
+      condition: ['CKD'],
+      last_interaction: '2024-06-15T08:00:00Z',
+      risk_status: 'HIGH',
+      vitals: [
+        { id: 'v-2', type: 'GLUCOSE', value: '180', unit: 'mg/dL', timestamp: '2024-06-15T08:00:00Z' },
+        { id: 'v-1', type: 'GLUCOSE', value: 140, unit: 'mg/dL', timestamp: '2024-06-14T08:00:00Z' }
+      ],
+      messages: [{ id: 1, sender: 'PATIENT', content: null, file_name: null, type: 'TEXT', timestamp: '2024-06-15T08:00:00Z' }]
+    });
+
+    expect(patient).toMatchObject({ id: '7', age: 61, riskStatus: RiskLevel.HIGH, condition: ['CKD'] });
+    expect(patient.vitalsHistory.map(v => [v.id, v.value])).toEqual([['v-1', 140], ['v-2', 180]]);
+    expect(patient.messages[0]).toMatchObject({ id: '1', content: '', fileName: undefined });
+    expect(patient.foodLogs).toEqual([]);
+  });
+
+  it('reads message receipts from the stored row', () => {
+    const patient = toPatient({
+      id: 'P-1',
+      messages: [
+        { id: 'm-1', sender: 'PATIENT', type: 'TEXT', kind: null, timestamp: '2024-06-15T08:00:00Z', created_at: '2024-06-15T08:00:01Z' },
+        { id: 'm-2', sender: 'SYSTEM', type: 'TEXT', kind: 'CHECK_IN', timestamp: '2024-06-15T09:00:00Z', delivered_at: '2024-06-15T09:00:02Z', created_at: '2024-06-15T09:00:01Z', read_at: '2024-06-15T09:05:00Z' }
+      ]
+    });
+
+    expect(patient.messages[0]).toMatchObject({ kind: undefined, deliveredAt: '2024-06-15T08:00:01Z', readAt: undefined });
+    expect(patient.messages[1]).toMatchObject({ kind: 'CHECK_IN', deliveredAt: '2024-06-15T09:00:02Z', readAt: '2024-06-15T09:05:00Z' });
+  });
+
+  it('skips vitals of unknown types and ignores relations that are not arrays', () => {
+    const patient = toPatient({
+      id: 'P-1',
+      vitals: [{ type: 'CHOLESTEROL', value: 5, unit: 'mmol/L', timestamp: '2024-06-15T08:00:00Z' }],
+      messages: 'not a relation'
+    });
+
+    expect(patient.vitalsHistory).toEqual([]);
+    expect(patient.messages).toEqual([]);
+  });
+});
+
+describe('toPatientFlag', () => {
+  it('falls back for unknown enum values and narrows jsonb notes', () => {
+    const flag = toPatientFlag({
+      id: 'flag-1',
+      status: 'SNOOZED',
+      risk_level: 'SEVERE',
+      raised_at: '2024-06-15T08:00:00Z',
+      notes: [{ author: 'D-1', timestamp: '2024-06-15T08:05:00Z', text: 'Called patient' }, 'stray'],
+      escalations: null
+    });
+
+    expect(flag.status).toBe('OPEN');
+    expect(flag.riskLevel).toBe(RiskLevel.HIGH);
+    expect(flag.notes).toEqual([{ author: 'D-1', timestamp: '2024-06-15T08:05:00Z', text: 'Called patient' }]);
+    expect(flag.escalations).toEqual([]);
+  });
+});
+
+describe('toCarePlan', () => {
+  it('narrows targets, frequencies and goals and drops what does not fit', () => {
+    const plan = toCarePlan({
+      targets: { GLUCOSE: { min: '80', max: 180 }, BP_SYSTOLIC: { max: 'high' }, CHOLESTEROL: { max: 5 }, SPO2: 94 },
+      frequency: { GLUCOSE: { times: 2, period: 'DAY' }, WEIGHT: { times: 1, period: 'MONTH' } },
+      goals: { dailySteps: '6000', sleepHours: null },
+      updatedBy: 'Dr. A'
+    });
+
+    expect(plan?.targets).toEqual({ GLUCOSE: { min: 80, max: 180 }, BP_SYSTOLIC: { min: undefined, max: undefined } });
+    expect(plan?.frequency).toEqual({ GLUCOSE: { times: 2, period: 'DAY' } });
+    expect(plan?.goals).toEqual({ dailySteps: 6000, sleepHours: undefined });
+    expect(plan?.updatedBy).toBe('Dr. A');
+  });
+
+  it('fills in sections missing from older rows and ignores non-objects', () => {
+    expect(toCarePlan({})).toMatchObject({ targets: {}, frequency: {}, goals: {} });
+    expect(toCarePlan(null)).toBeUndefined();
+    expect(toCarePlan([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,453 @@
+import {
+  CarePlan,
+  ClinicalInsight,
+  Dose,
+  DraftStatus,
+  FlagStatus,
+  FOOD_FLAGS,
+  FoodEntry,
+  InsightRecord,
+  MeasurementFrequency,
+  Medication,
+  Message,
+  Patient,
+  PatientFlag,
+  ReplyDraft,
+  RiskLevel,
+  VitalSign,
+  WearableDay
+} from '../types';
+import type { CheckInSubject } from './checkInService';
+
+/**
+ * Row <-> domain mapping for Supabase tables.
+ * The database uses snake_case columns; the app uses the camelCase domain
+ * types from `types.ts`. Nothing outside supabaseService should see raw rows.
+ */
+
+export type Row = Record<string, unknown>;
+
+// Narrowing helpers: columns arrive untyped, so every field is checked or
+// converted rather than trusted.
+
+const isRow = (value: unknown): value is Row => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Embedded relation or jsonb array of objects; anything else reads as empty. */
+const rows = (value: unknown): Row[] => Array.isArray(value) ? value.filter(isRow) : [];
+
+const text = (value: unknown, fallback = ''): string => value === null || value === undefined ? fallback : String(value);
+
+const optionalText = (value: unknown): string | undefined => value === null || value === undefined ? undefined : String(value);
+
+const texts = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+const optionalNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): T | undefined => values.find(v => v === value);
+
+const RISK_LEVELS = Object.values(RiskLevel);
+
+const toRiskLevel = (value: unknown, fallback: RiskLevel = RiskLevel.LOW): RiskLevel =>
+  oneOf(RISK_LEVELS, value) ?? fallback;
+
+const SENDERS: Message['sender'][] = ['PATIENT', 'SYSTEM', 'DOCTOR'];
+const MESSAGE_TYPES: Message['type'][] = ['TEXT', 'IMAGE', 'AUDIO', 'DOCUMENT'];
+const VITAL_TYPES: VitalSign['type'][] = ['BP_SYSTOLIC', 'BP_DIASTOLIC', 'GLUCOSE', 'SPO2', 'HEART_RATE', 'WEIGHT', 'TEMP', 'URINE_OUTPUT'];
+const FLAG_STATUSES: FlagStatus[] = ['OPEN', 'ACKNOWLEDGED', 'RESOLVED'];
+const DRAFT_STATUSES: DraftStatus[] = ['PENDING_REVIEW', 'APPROVED', 'REJECTED'];
+const FREQUENCY_PERIODS: MeasurementFrequency['period'][] = ['DAY', 'WEEK'];
+
+const byTimestamp = <T extends { timestamp: string }>(a: T, b: T) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+// --- Messages ---
+
+export const toMessage = (row: Row): Message => ({
+  id: text(row.id),
+  sender: oneOf(SENDERS, row.sender) ?? 'SYSTEM',
+  content: text(row.content),
+  fileName: optionalText(row.file_name),
+  caption: optionalText(row.caption),
+  timestamp: text(row.timestamp),
+  type: oneOf(MESSAGE_TYPES, row.type) ?? 'TEXT',
+  transcript: optionalText(row.transcript),
+  language: optionalText(row.language),
+  translation: optionalText(row.translation),
+  kind: oneOf(['CHECK_IN'], row.kind),
+  whatsappMessageId: optionalText(row.whatsapp_message_id),
+  // Delivery is stamped by the database (a `delivered_at` default, else the
+  // row's `created_at`), never by the sending device's clock
+  deliveredAt: optionalText(row.delivered_at ?? row.created_at),
+  readAt: optionalText(row.read_at)
+});
+
+export const fromMessage = (patientId: string, message: Partial<Message>) => ({
+  // Client-generated ids make retried writes idempotent; the server assigns one otherwise
+  ...(message.id ? { id: message.id } : {}),
+  patient_id: patientId,
+  sender: message.sender,
+  content: message.content,
+  type: message.type,
+  file_name: message.fileName,
+  caption: message.caption,
+  transcript: message.transcript,
+  language: message.language,
+  translation: message.translation,
+  kind: message.kind,
+  whatsapp_message_id: message.whatsappMessageId,
+  read_at: message.readAt,
+  timestamp: message.timestamp || new Date().toISOString()
+});
+
+// --- Vitals ---
+
+/**
+ * Returns undefined for a row whose vital type this app does not know.
+ */
+export const toVital = (row: Row): VitalSign | undefined => {
+  const type = oneOf(VITAL_TYPES, row.type);
+  return type && {
+    id: optionalText(row.id),
+    type,
+    value: Number(row.value),
+    unit: text(row.unit),
+    timestamp: text(row.timestamp)
+  };
+};
+
+export const fromVital = (patientId: string, vital: VitalSign) => ({
+  ...(vital.id ? { id: vital.id } : {}),
+  patient_id: patientId,
+  type: vital.type,
+  value: vital.value,
+  unit: vital.unit,
+  timestamp: vital.timestamp
+});
+
+// --- Food logs ---
+
+// Meals logged without an estimate have null nutrition columns
+export const toFoodEntry = (row: Row): FoodEntry => {
+  const flag = oneOf(FOOD_FLAGS, row.flag);
+  return {
+    id: text(row.id),
+    imageUrl: text(row.image_url),
+    timestamp: text(row.timestamp),
+    analysis: flag && {
+      mealType: text(row.meal_type),
+      caloriesEstimate: Number(row.calories_estimate) || 0,
+      carbs: text(row.carbs, 'n/a'),
+      protein: text(row.protein, 'n/a'),
+      flag
+    }
+  };
+};
+
+export const fromFoodEntry = (patientId: string, entry: FoodEntry) => ({
+  patient_id: patientId,
+  image_url: entry.imageUrl,
+  timestamp: entry.timestamp,
+  meal_type: entry.analysis?.mealType ?? null,
+  calories_estimate: entry.analysis?.caloriesEstimate ?? null,
+  carbs: entry.analysis?.carbs ?? null,
+  protein: entry.analysis?.protein ?? null,
+  flag: entry.analysis?.flag ?? null
+});
+
+// --- Insights ---
+
+export const toInsightRecord = (row: Row): InsightRecord => ({
+  id: text(row.id),
+  messageId: optionalText(row.message_id),
+  timestamp: text(row.timestamp),
+  summary: text(row.summary),
+  riskLevel: toRiskLevel(row.risk_level, RiskLevel.MEDIUM),
+  confidenceScore: Number(row.confidence_score) || 0,
+  reasoning: texts(row.reasoning),
+  themes: texts(row.themes),
+  missingData: texts(row.missing_data),
+  clinicalActionSuggestion: text(row.clinical_action_suggestion)
+});
+
+export const toClinicalInsight = (record: InsightRecord): ClinicalInsight => ({
+  summary: record.summary,
+  riskLevel: record.riskLevel,
+  confidenceScore: record.confidenceScore,
+  reasoning: record.reasoning,
+  themes: record.themes,
+  missingData: record.missingData,
+  clinicalActionSuggestion: record.clinicalActionSuggestion
+});
+
+export const fromInsight = (patientId: string, messageId: string | undefined, insight: ClinicalInsight, timestamp: string) => ({
+  patient_id: patientId,
+  message_id: messageId,
+  summary: insight.summary,
+  risk_level: insight.riskLevel,
+  confidence_score: insight.confidenceScore,
+  reasoning: insight.reasoning,
+  themes: insight.themes,
+  missing_data: insight.missingData,
+  clinical_action_suggestion: insight.clinicalActionSuggestion,
+  timestamp
+});
+
+// --- Flags ---
+
+export const toPatientFlag = (row: Row): PatientFlag => ({
+  id: text(row.id),
+  status: oneOf(FLAG_STATUSES, row.status) ?? 'OPEN',
+  riskLevel: toRiskLevel(row.risk_level, RiskLevel.HIGH),
+  raisedAt: text(row.raised_at),
+  acknowledgedAt: optionalText(row.acknowledged_at),
+  acknowledgedBy: optionalText(row.acknowledged_by),
+  resolvedAt: optionalText(row.resolved_at),
+  resolvedBy: optionalText(row.resolved_by),
+  assignedTo: optionalText(row.assigned_to),
+  notes: rows(row.notes).map(note => ({ author: text(note.author), timestamp: text(note.timestamp), text: text(note.text) })),
+  escalations: rows(row.escalations).map(e => ({
+    timestamp: text(e.timestamp),
+    slaMinutes: Number(e.slaMinutes) || 0,
+    minutesOpen: Number(e.minutesOpen) || 0
+  }))
+});
+
+export const fromPatientFlag = (patientId: string, flag: PatientFlag) => ({
+  id: flag.id,
+  patient_id: patientId,
+  status: flag.status,
+  risk_level: flag.riskLevel,
+  raised_at: flag.raisedAt,
+  // Explicit nulls so a re-opened flag clears its previous acknowledgement
+  acknowledged_at: flag.acknowledgedAt ?? null,
+  acknowledged_by: flag.acknowledgedBy ?? null,
+  resolved_at: flag.resolvedAt ?? null,
+  resolved_by: flag.resolvedBy ?? null,
+  assigned_to: flag.assignedTo ?? null,
+  notes: flag.notes,
+  escalations: flag.escalations
+});
+
+// --- Reply drafts ---
+
+export const toReplyDraft = (row: Row): ReplyDraft => ({
+  id: text(row.id),
+  messageId: optionalText(row.message_id),
+  channel: row.channel === 'WHATSAPP' ? 'WHATSAPP' : 'APP',
+  status: oneOf(DRAFT_STATUSES, row.status) ?? 'PENDING_REVIEW',
+  reason: text(row.reason),
+  riskLevel: toRiskLevel(row.risk_level, RiskLevel.MEDIUM),
+  confidenceScore: Number(row.confidence_score) || 0,
+  originalText: text(row.original_text),
+  finalText: optionalText(row.final_text),
+  language: optionalText(row.language),
+  translation: optionalText(row.translation),
+  createdAt: text(row.created_at),
+  reviewedAt: optionalText(row.reviewed_at),
+  reviewedBy: optionalText(row.reviewed_by),
+  reviewNote: optionalText(row.review_note)
+});
+
+export const fromReplyDraft = (patientId: string, draft: ReplyDraft) => ({
+  id: draft.id,
+  patient_id: patientId,
+  message_id: draft.messageId,
+  channel: draft.channel,
+  status: draft.status,
+  reason: draft.reason,
+  risk_level: draft.riskLevel,
+  confidence_score: draft.confidenceScore,
+  original_text: draft.originalText,
+  final_text: draft.finalText,
+  language: draft.language,
+  translation: draft.translation,
+  created_at: draft.createdAt,
+  reviewed_at: draft.reviewedAt,
+  reviewed_by: draft.reviewedBy,
+  review_note: draft.reviewNote
+});
+
+// --- Medications ---
+
+export const toMedication = (row: Row): Medication => ({
+  id: text(row.id),
+  name: text(row.name),
+  dosage: text(row.dosage),
+  times: texts(row.times),
+  instructions: optionalText(row.instructions),
+  startDate: text(row.start_date),
+  endDate: optionalText(row.end_date),
+  stoppedAt: optionalText(row.stopped_at),
+  prescribedBy: text(row.prescribed_by),
+  prescribedAt: text(row.prescribed_at),
+  active: row.active !== false
+});
+
+export const fromMedication = (patientId: string, medication: Medication) => ({
+  id: medication.id,
+  patient_id: patientId,
+  name: medication.name,
+  dosage: medication.dosage,
+  times: medication.times,
+  instructions: medication.instructions,
+  start_date: medication.startDate,
+  end_date: medication.endDate,
+  stopped_at: medication.stoppedAt,
+  prescribed_by: medication.prescribedBy,
+  prescribed_at: medication.prescribedAt,
+  active: medication.active
+});
+
+export const toDose = (row: Row): Dose => ({
+  id: text(row.id),
+  medicationId: text(row.medication_id),
+  scheduledFor: text(row.scheduled_for),
+  status: row.status === 'SKIPPED' ? 'SKIPPED' : 'TAKEN',
+  recordedAt: text(row.recorded_at)
+});
+
+export const fromDose = (patientId: string, dose: Dose) => ({
+  id: dose.id,
+  patient_id: patientId,
+  medication_id: dose.medicationId,
+  scheduled_for: dose.scheduledFor,
+  status: dose.status,
+  recorded_at: dose.recordedAt
+});
+
+// --- Wearable days ---
+
+export const toWearableDay = (row: Row): WearableDay => ({
+  date: text(row.date).slice(0, 10),
+  steps: optionalNumber(row.steps),
+  sleepHours: optionalNumber(row.sleep_hours),
+  source: optionalText(row.source)
+});
+
+export const fromWearableDay = (patientId: string, day: WearableDay) => ({
+  patient_id: patientId,
+  date: day.date,
+  steps: day.steps ?? null,
+  sleep_hours: day.sleepHours ?? null,
+  source: day.source ?? null
+});
+
+// --- Care plans ---
+
+/** Entries of a jsonb object keyed by vital type; unknown types and entries that do not map are dropped. */
+const byVitalType = <T>(value: unknown, map: (entry: Row) => T | undefined): Partial<Record<VitalSign['type'], T>> => {
+  if (!isRow(value)) return {};
+  return Object.fromEntries(VITAL_TYPES.flatMap(type => {
+    const entry = value[type];
+    const mapped = isRow(entry) ? map(entry) : undefined;
+    return mapped ? [[type, mapped]] : [];
+  }));
+};
+
+/**
+ * `patients.care_plan` is a jsonb column holding the CarePlan; this fills in
+ * sections missing from older rows.
+ */
+export const toCarePlan = (value: unknown): CarePlan | undefined => {
+  if (!isRow(value)) return undefined;
+  const goals = isRow(value.goals) ? value.goals : {};
+  return {
+    targets: byVitalType(value.targets, target => ({ min: optionalNumber(target.min), max: optionalNumber(target.max) })),
+    frequency: byVitalType(value.frequency, frequency => {
+      const period = oneOf(FREQUENCY_PERIODS, frequency.period);
+      return period && { times: Number(frequency.times) || 0, period };
+    }),
+    goals: { dailySteps: optionalNumber(goals.dailySteps), sleepHours: optionalNumber(goals.sleepHours) },
+    updatedAt: optionalText(value.updatedAt),
+    updatedBy: optionalText(value.updatedBy)
+  };
+};
+
+// --- Patients ---
+
+/**
+ * Maps the scalar columns of an updated `patients` row (no relations).
+ */
+export const toPatientChanges = (row: Row): { riskStatus?: RiskLevel; lastInteraction?: string; carePlan?: CarePlan } => ({
+  riskStatus: oneOf(RISK_LEVELS, row.risk_status),
+  lastInteraction: optionalText(row.last_interaction),
+  carePlan: toCarePlan(row.care_plan)
+});
+
+/**
+ * Maps patient activity to the `patients` columns the doctor panel sorts and
+ * filters on.
+ */
+export const fromPatientActivity = (activity: { riskStatus?: RiskLevel; lastInteraction?: string }) => ({
+  ...(activity.riskStatus ? { risk_status: activity.riskStatus } : {}),
+  ...(activity.lastInteraction ? { last_interaction: activity.lastInteraction } : {})
+});
+
+/**
+ * Maps a `patients` row with its embedded relations (messages, vitals,
+ * food_logs, insights, patient_flags, reply_drafts, medications,
+ * medication_doses, wearable_days) to a fully-populated Patient.
+ */
+export const toPatient = (row: Row): Patient => {
+  const insightHistory = rows(row.insights).map(toInsightRecord).sort(byTimestamp);
+  const flags = rows(row.patient_flags).map(toPatientFlag)
+    .sort((a, b) => new Date(a.raisedAt).getTime() - new Date(b.raisedAt).getTime());
+  const activeFlag = [...flags].reverse().find(f => f.status !== 'RESOLVED');
+  const latest = insightHistory[insightHistory.length - 1];
+
+  return {
+    id: text(row.id),
+    name: text(row.name),
+    age: Number(row.age) || 0,
+    phoneNumber: optionalText(row.phone_number),
+    preferredLanguage: optionalText(row.preferred_language),
+    assignedDoctorId: text(row.assigned_doctor_id),
+    condition: texts(row.condition),
+    lastInteraction: text(row.last_interaction || row.created_at, new Date(0).toISOString()),
+    riskStatus: toRiskLevel(row.risk_status, latest?.riskLevel),
+    vitalsHistory: rows(row.vitals).flatMap(v => toVital(v) ?? []).sort(byTimestamp),
+    messages: rows(row.messages).map(toMessage).sort(byTimestamp),
+    latestInsight: latest ? toClinicalInsight(latest) : undefined,
+    insightHistory,
+    isFlagged: !!activeFlag,
+    activeFlag,
+    replyDrafts: rows(row.reply_drafts).map(toReplyDraft)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+    carePlan: toCarePlan(row.care_plan),
+    medications: rows(row.medications).map(toMedication),
+    doses: rows(row.medication_doses).map(toDose),
+    wearableHistory: rows(row.wearable_days).map(toWearableDay)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    foodLogs: rows(row.food_logs).map(toFoodEntry).sort(byTimestamp).reverse()
+  };
+};
+
+/**
+ * Maps a `patients` row selected for the check-in scheduler: scalar columns
+ * plus `latest_vitals` (type and timestamp of each vital's newest reading),
+ * recent CHECK_IN `messages` and the latest of `insights`.
+ */
+export const toCheckInSubject = (row: Row): CheckInSubject => {
+  const insightHistory = rows(row.insights).map(toInsightRecord).sort(byTimestamp);
+  const latest = insightHistory[insightHistory.length - 1];
+
+  return {
+    id: text(row.id),
+    name: text(row.name),
+    preferredLanguage: optionalText(row.preferred_language),
+    riskStatus: toRiskLevel(row.risk_status, latest?.riskLevel),
+    lastInteraction: text(row.last_interaction || row.created_at, new Date(0).toISOString()),
+    carePlan: toCarePlan(row.care_plan),
+    vitalsHistory: rows(row.latest_vitals).flatMap(v => {
+      const type = oneOf(VITAL_TYPES, v.type);
+      return type ? [{ type, timestamp: text(v.timestamp) }] : [];
+    }),
+    messages: rows(row.messages).map(toMessage).sort(byTimestamp),
+    latestInsight: latest ? toClinicalInsight(latest) : undefined,
+    insightHistory
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Message, ReplyDraft, RiskLevel } from '../types';
+import { at, makePatient } from '../test/fixtures';
+import { answeredMessages, markRead, receiptState, unreadMessages } from './receiptService';
+
+const iso = (minutes: number) => at(minutes).toISOString();
+
+const message = (id: string, sender: Message['sender'], minutes: number, extra: Partial<Message> = {}): Message =>
+  ({ id, sender, content: id, timestamp: iso(minutes), type: 'TEXT', ...extra });
+
+const draft = (id: string, status: ReplyDraft['status'], reviewedMinutes: number): ReplyDraft => ({
+  id,
+  channel: 'APP',
+  status,
+  reason: 'High risk',
+  riskLevel: RiskLevel.HIGH,
+  confidenceScore: 0.8,
+  originalText: 'Please rest',
+  createdAt: iso(0),
+  reviewedAt: iso(reviewedMinutes)
+});
+
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+describe('unreadMessages', () => {
+  it('keeps a patient message unread after an automatic AI reply', () => {
+    const patient = makePatient({ messages: [message('m1', 'PATIENT', 0), message('m2', 'SYSTEM', 1)] });
+
+    expect(ids(unreadMessages(patient, 'DOCTOR'))).toEqual(['m1']);
+  });
+
+  it('keeps a patient message unread after a check-in', () => {
+    const patient = makePatient({ messages: [message('m1', 'PATIENT', 0), message('m2', 'SYSTEM', 1, { kind: 'CHECK_IN' })] });
+
+    expect(ids(unreadMessages(patient, 'DOCTOR'))).toEqual(['m1']);
+  });
+
+  it('treats a doctor reply as having read earlier messages', () => {
+    const patient = makePatient({ messages: [message('m1', 'PATIENT', 0), message('m2', 'DOCTOR', 1), message('m3', 'PATIENT', 2)] });
+
+    expect(ids(unreadMessages(patient, 'DOCTOR'))).toEqual(['m3']);
+  });
+
+  it('treats an approved draft as having read earlier messages', () => {
+    const patient = makePatient({
+      messages: [message('m1', 'PATIENT', 0), message('m2', 'SYSTEM', 5), message('m3', 'PATIENT', 6)],
+      replyDrafts: [draft('d1', 'APPROVED', 5), draft('d2', 'REJECTED', 10)]
+    });
+
+    expect(ids(unreadMessages(patient, 'DOCTOR'))).toEqual(['m3']);
+  });
+
+  it('lets the doctor mark a message answered by the AI as read', () => {
+    const patient = makePatient({ messages: [message('m1', 'PATIENT', 0), message('m2', 'SYSTEM', 1)] });
+    const read = markRead(patient, ids(unreadMessages(patient, 'DOCTOR')), iso(3));
+
+    expect(read.messages[0].readAt).toBe(iso(3));
+    expect(unreadMessages(read, 'DOCTOR')).toEqual([]);
+  });
+});
+
+describe('answeredMessages', () => {
+  it('returns what a clinician reply answers, so marking it read shows the patient a read receipt', () => {
+    const patient = makePatient({ messages: [message('m1', 'PATIENT', 0), message('m2', 'SYSTEM', 1), message('m3', 'PATIENT', 4)] });
+
+    const answered = answeredMessages(patient, iso(3));
+    const read = markRead(patient, ids(answered), iso(3));
+
+    expect(ids(answered)).toEqual(['m1']);
+    expect(receiptState(read.messages[0])).toBe('READ');
+    expect(read.messages[0].readAt).toBe(iso(3));
+    expect(ids(unreadMessages(read, 'DOCTOR'))).toEqual(['m3']);
+  });
+});
@@ -0,0 +1,59 @@
+import { Message, Patient } from "../types";
+
+/**
+ * Delivery and read receipts. A message is delivered once the server has
+ * stored it and read once the other side opens the conversation: the doctor
+ * reads the patient's messages, the patient reads clinician and system
+ * messages. All functions are pure; callers persist `readAt`.
+ */
+
+export type Reader = 'DOCTOR' | 'PATIENT';
+
+export type ReceiptState = 'PENDING' | 'FAILED' | 'DELIVERED' | 'READ';
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const writtenFor = (message: Message, reader: Reader) =>
+  reader === 'DOCTOR' ? message.sender === 'PATIENT' : message.sender !== 'PATIENT';
+
+export const receiptState = (message: Message): ReceiptState => {
+  if (message.syncStatus === 'PENDING' || message.syncStatus === 'FAILED') return message.syncStatus;
+  return message.readAt ? 'READ' : 'DELIVERED';
+};
+
+/**
+ * Last time a clinician answered: a doctor message or an approved draft.
+ * AI replies and check-ins are sent without a clinician opening the chat.
+ */
+const lastClinicianReply = (patient: Patient): number => Math.max(0,
+  ...patient.messages.filter(m => m.sender === 'DOCTOR').map(m => time(m.timestamp)),
+  ...patient.replyDrafts.filter(d => d.status === 'APPROVED' && d.reviewedAt).map(d => time(d.reviewedAt!)));
+
+/**
+ * Messages the reader has not opened yet. Queued messages are skipped since
+ * they have no server row to mark. For the doctor, a clinician reply also
+ * counts as having read everything before it: the app records that as
+ * `readAt` when the reply is sent (see answeredMessages), and the rule still
+ * covers messages from before receipts were recorded.
+ */
+export const unreadMessages = (patient: Patient, reader: Reader): Message[] => {
+  const lastReply = reader === 'DOCTOR' ? lastClinicianReply(patient) : 0;
+  return patient.messages.filter(m =>
+    writtenFor(m, reader) && !m.readAt && m.syncStatus !== 'PENDING' && m.syncStatus !== 'FAILED' && time(m.timestamp) > lastReply);
+};
+
+export const unreadCount = (patient: Patient, reader: Reader = 'DOCTOR'): number =>
+  unreadMessages(patient, reader).length;
+
+/**
+ * Messages a clinician reply sent at `repliedAt` answers. Callers mark them
+ * read at the reply time, so the receipts the patient sees agree with the
+ * doctor's unread count.
+ */
+export const answeredMessages = (patient: Patient, repliedAt: string): Message[] =>
+  unreadMessages(patient, 'DOCTOR').filter(m => time(m.timestamp) <= time(repliedAt));
+
+export const markRead = (patient: Patient, messageIds: string[], readAt: string): Patient => ({
+  ...patient,
+  messages: patient.messages.map(m => messageIds.includes(m.id) && !m.readAt ? { ...m, readAt } : m)
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ClinicalInsight, RiskLevel } from '../types';
+import { at } from '../test/fixtures';
+import { analyzeWithHeuristics } from './mockTriageProvider';
+import { applyDraftReview, createReplyDraft, isPendingReview, reviewReason, wasEdited } from './replyPolicyService';
+
+const insight = (riskLevel: RiskLevel, confidenceScore: number): ClinicalInsight => ({
+  summary: 'Glucose reading shared.',
+  riskLevel,
+  confidenceScore,
+  themes: [],
+  reasoning: [],
+  missingData: [],
+  clinicalActionSuggestion: 'Monitor'
+});
+
+describe('reviewReason', () => {
+  it.each([RiskLevel.HIGH, RiskLevel.CRITICAL])('holds %s replies however confident the model is', riskLevel => {
+    expect(reviewReason(insight(riskLevel, 0.99))).toBe(`Risk level ${riskLevel} requires clinician review`);
+  });
+
+  it('holds replies below 50% confidence', () => {
+    expect(reviewReason(insight(RiskLevel.LOW, 0.49))).toBe('Confidence 49% is below the 50% threshold');
+  });
+
+  it.each([[RiskLevel.LOW, 0.5], [RiskLevel.MEDIUM, 0.9]])('sends %s replies at %s confidence', (riskLevel, confidence) => {
+    expect(reviewReason(insight(riskLevel, confidence))).toBeUndefined();
+  });
+
+  it('sends offline replies about recognised readings and holds the ones the heuristics could not read', () => {
+    expect(reviewReason(analyzeWithHeuristics('fasting sugar 118 today').insight)).toBeUndefined();
+    expect(reviewReason(analyzeWithHeuristics('kal se thoda ajeeb lag raha hai').insight)).toBe('Confidence 20% is below the 50% threshold');
+  });
+});
+
+describe('draft review', () => {
+  const draft = createReplyDraft(insight(RiskLevel.HIGH, 0.8), { text: 'Please check your sugar again. ' }, 'High risk', 'WHATSAPP', 'm-1', at(0));
+
+  it('keeps the original AI text and records the sent text separately', () => {
+    const approved = applyDraftReview(draft, { type: 'APPROVE', text: ' Please check your sugar again and call us. ', note: ' edited ' }, 'Dr. A', at(5));
+
+    expect(isPendingReview(draft)).toBe(true);
+    expect(approved).toMatchObject({
+      status: 'APPROVED',
+      originalText: 'Please check your sugar again. ',
+      finalText: 'Please check your sugar again and call us.',
+      reviewedAt: at(5).toISOString(),
+      reviewedBy: 'Dr. A',
+      reviewNote: 'edited'
+    });
+    expect(wasEdited(approved)).toBe(true);
+  });
+
+  it('does not count an approval of the unchanged text as an edit', () => {
+    expect(wasEdited(applyDraftReview(draft, { type: 'APPROVE', text: draft.originalText }, 'Dr. A', at(5)))).toBe(false);
+  });
+
+  it('sends nothing for a rejected draft', () => {
+    const rejected = applyDraftReview(draft, { type: 'REJECT' }, 'Dr. A', at(5));
+
+    expect(rejected).toMatchObject({ status: 'REJECTED', finalText: undefined, reviewNote: undefined });
+    expect(isPendingReview(rejected)).toBe(false);
+  });
+});
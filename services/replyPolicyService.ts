@@ -0,0 +1,74 @@
+import { ClinicalInsight, ReplyDraft, RiskLevel } from "../types";
+
+/**
+ * Human-in-the-loop policy for AI replies. Replies for risky or uncertain
+ * assessments are held as drafts until a clinician approves or rejects them.
+ * All functions are pure; callers persist the returned draft.
+ */
+
+export interface ReplyPolicy {
+  /** Risk levels whose replies always need review. */
+  holdRiskLevels: RiskLevel[];
+  /** Replies below this confidence need review. */
+  minConfidence: number;
+}
+
+export const DEFAULT_REPLY_POLICY: ReplyPolicy = {
+  holdRiskLevels: [RiskLevel.HIGH, RiskLevel.CRITICAL],
+  minConfidence: 0.5
+};
+
+export type DraftReview =
+  | { type: 'APPROVE'; text: string; note?: string }
+  | { type: 'REJECT'; note?: string };
+
+/**
+ * Returns why the reply must be reviewed, or undefined if it can be sent.
+ */
+export const reviewReason = (insight: ClinicalInsight, policy: ReplyPolicy = DEFAULT_REPLY_POLICY): string | undefined => {
+  if (policy.holdRiskLevels.includes(insight.riskLevel)) {
+    return `Risk level ${insight.riskLevel} requires clinician review`;
+  }
+  if (insight.confidenceScore < policy.minConfidence) {
+    return `Confidence ${Math.round(insight.confidenceScore * 100)}% is below the ${Math.round(policy.minConfidence * 100)}% threshold`;
+  }
+  return undefined;
+};
+
+export const createReplyDraft = (
+  insight: ClinicalInsight,
+  reply: { text: string; language?: string; translation?: string },
+  reason: string,
+  channel: ReplyDraft['channel'],
+  messageId?: string,
+  now: Date = new Date()
+): ReplyDraft => ({
+  id: `draft-${now.getTime()}-${Math.random().toString(36).slice(2, 6)}`,
+  messageId,
+  channel,
+  status: 'PENDING_REVIEW',
+  reason,
+  riskLevel: insight.riskLevel,
+  confidenceScore: insight.confidenceScore,
+  originalText: reply.text,
+  language: reply.language,
+  translation: reply.translation,
+  createdAt: now.toISOString()
+});
+
+export const applyDraftReview = (draft: ReplyDraft, review: DraftReview, actor: string, now: Date = new Date()): ReplyDraft => ({
+  ...draft,
+  status: review.type === 'APPROVE' ? 'APPROVED' : 'REJECTED',
+  finalText: review.type === 'APPROVE' ? review.text.trim() : undefined,
+  reviewedAt: now.toISOString(),
+  reviewedBy: actor,
+  reviewNote: review.note?.trim() || undefined
+});
+
+export const isPendingReview = (draft: ReplyDraft) => draft.status === 'PENDING_REVIEW';
+
+/**
+ * Whether the clinician changed the AI text before approving.
+ */
+export const wasEdited = (draft: ReplyDraft) =>
+  draft.status === 'APPROVED' && draft.finalText !== undefined && draft.finalText !== draft.originalText.trim();
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RiskLevel } from '../types';
+import { makePatient } from '../test/fixtures';
+import { analyzeAttachmentWithHeuristics, analyzeWithHeuristics } from './mockTriageProvider';
+import { analyzePatientAttachment, analyzePatientInput } from './geminiService';
+import { attachmentInput, triagePatientInput, voiceNoteInput } from './triagePipeline';
+
+vi.mock('./geminiService', () => ({
+  analyzePatientInput: vi.fn(),
+  analyzePatientAttachment: vi.fn()
+}));
+
+const patient = makePatient({ condition: ['Type 2 Diabetes'] });
+
+describe('triagePatientInput', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(analyzePatientInput).mockImplementation(async text => analyzeWithHeuristics(text));
+    vi.mocked(analyzePatientAttachment).mockImplementation(async attachment => analyzeAttachmentWithHeuristics(attachment));
+  });
+
+  it('stores glucose reported in mmol/L as mg/dL without escalating', async () => {
+    const outcome = await triagePatientInput(patient, { kind: 'TEXT', text: 'fasting sugar 7 mmol' });
+
+    expect(outcome.vitals).toMatchObject([{ type: 'GLUCOSE', value: 126, unit: 'mg/dL' }]);
+    expect(outcome.insight.riskLevel).toBe(RiskLevel.LOW);
+    expect(outcome.raisedFlag).toBeUndefined();
+  });
+
+  it('stores weight reported in pounds as kg', async () => {
+    const outcome = await triagePatientInput(patient, { kind: 'TEXT', text: 'weight 180 lbs today' });
+    expect(outcome.vitals).toMatchObject([{ type: 'WEIGHT', value: 81.6, unit: 'kg' }]);
+  });
+
+  it('escalates a converted reading that breaches a threshold', async () => {
+    const outcome = await triagePatientInput(patient, { kind: 'TEXT', text: 'sugar 2.5 mmol/L' });
+
+    expect(outcome.vitals).toMatchObject([{ type: 'GLUCOSE', value: 45, unit: 'mg/dL' }]);
+    expect(outcome.insight.riskLevel).toBe(RiskLevel.CRITICAL);
+  });
+
+  it('never reads vitals from an attachment file name', async () => {
+    const outcome = await triagePatientInput(patient, {
+      kind: 'ATTACHMENT',
+      attachment: { kind: 'DOCUMENT', mimeType: 'application/pdf', data: '', fileName: 'weight_chart_2024.pdf' }
+    });
+
+    expect(outcome.vitals).toEqual([]);
+    expect(outcome.insight.clinicalActionSuggestion).toBe('Review attachment manually');
+  });
+
+  it('triages the caption sent with an attachment', async () => {
+    const outcome = await triagePatientInput(patient, {
+      kind: 'ATTACHMENT',
+      attachment: { kind: 'IMAGE', mimeType: 'image/jpeg', data: '', fileName: 'meter.jpg', caption: 'sugar 320, feeling dizzy' }
+    });
+
+    expect(outcome.vitals).toMatchObject([{ type: 'GLUCOSE', value: 320, unit: 'mg/dL' }]);
+    expect(outcome.insight.riskLevel).toBe(RiskLevel.HIGH);
+    expect(outcome.insight.themes).toContain('Symptom Progression');
+  });
+
+  it('routes a voice note without a transcript to manual review', async () => {
+    const outcome = await triagePatientInput(patient, voiceNoteInput(null));
+
+    expect(analyzePatientInput).not.toHaveBeenCalled();
+    expect(outcome.insight).toMatchObject({
+      summary: 'Voice note received but could not be transcribed. Manual review required.',
+      missingData: ['Voice note not transcribed'],
+      clinicalActionSuggestion: 'Manual Review'
+    });
+  });
+
+  it('routes an attachment that cannot be read to manual review', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    const input = await attachmentInput('blob:gone', 'IMAGE', 'glucometer.jpg');
+    const outcome = await triagePatientInput(patient, input);
+
+    expect(input.kind).toBe('MANUAL_REVIEW');
+    expect(analyzePatientAttachment).not.toHaveBeenCalled();
+    expect(outcome.vitals).toEqual([]);
+    expect(outcome.insight).toMatchObject({
+      summary: 'Photo received (glucometer.jpg) but could not be read. Manual review required.',
+      riskLevel: RiskLevel.MEDIUM,
+      confidenceScore: 0,
+      missingData: ['Attachment unreadable: Failed to fetch'],
+      clinicalActionSuggestion: 'Manual Review'
+    });
+  });
+});
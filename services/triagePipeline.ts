@@ -0,0 +1,90 @@
+import { Patient, PatientFlag, RiskLevel } from '../types';
+import { TriageAttachment, TriageResult } from './triageProvider';
+import { analyzePatientAttachment, analyzePatientInput } from './geminiService';
+import { buildTriageContext } from './contextBuilder';
+import { loadAttachment } from './attachmentService';
+import { applyVitalSafetyNet, normalizeVital } from './vitalRulesService';
+import { raiseFlag } from './flagService';
+
+/**
+ * The triage steps shared by every inbound channel (in-app chat, WhatsApp):
+ * build context, run the active provider, convert readings to canonical
+ * units, apply the vital safety net and decide on a flag. Persistence is
+ * left to the caller.
+ */
+
+export type TriageInput =
+  | { kind: 'TEXT'; text: string }
+  | { kind: 'ATTACHMENT'; attachment: TriageAttachment }
+  /** Input the provider cannot be given; skips analysis and goes straight to a clinician. */
+  | { kind: 'MANUAL_REVIEW'; summary: string; missingData: string[] };
+
+/**
+ * Voice notes are triaged through their transcript. Without one there is
+ * nothing to analyse, so the note goes straight to a clinician.
+ */
+export const voiceNoteInput = (transcript: string | null | undefined): TriageInput => transcript
+  ? { kind: 'TEXT', text: transcript }
+  : {
+      kind: 'MANUAL_REVIEW',
+      summary: 'Voice note received but could not be transcribed. Manual review required.',
+      missingData: ['Voice note not transcribed']
+    };
+
+const ATTACHMENT_LABELS: Record<TriageAttachment['kind'], string> = {
+  IMAGE: 'Photo',
+  DOCUMENT: 'Document',
+  AUDIO: 'Voice note'
+};
+
+/**
+ * Reads an uploaded attachment for triage. A file that cannot be read is
+ * routed to manual review rather than dropped.
+ */
+export const attachmentInput = async (url: string, kind: TriageAttachment['kind'], fileName?: string): Promise<TriageInput> => {
+  try {
+    return { kind: 'ATTACHMENT', attachment: await loadAttachment(url, kind, fileName) };
+  } catch (error) {
+    console.error('[Triage] Could not read attachment:', error);
+    return {
+      kind: 'MANUAL_REVIEW',
+      summary: `${ATTACHMENT_LABELS[kind]} received${fileName ? ` (${fileName})` : ''} but could not be read. Manual review required.`,
+      missingData: [`Attachment unreadable: ${error instanceof Error ? error.message : 'unknown error'}`]
+    };
+  }
+};
+
+const manualReviewResult = (input: { summary: string; missingData: string[] }): TriageResult => ({
+  insight: {
+    summary: input.summary,
+    riskLevel: RiskLevel.MEDIUM,
+    confidenceScore: 0,
+    themes: ["Manual Review"],
+    reasoning: [],
+    missingData: input.missingData,
+    clinicalActionSuggestion: "Manual Review"
+  },
+  vitals: [],
+  suggestedResponse: "We have received your message. A care coordinator will review it shortly."
+});
+
+export interface TriageOutcome extends TriageResult {
+  /** New or re-opened flag to persist, if the risk level calls for one. */
+  raisedFlag?: PatientFlag;
+}
+
+export const triagePatientInput = async (patient: Patient, input: TriageInput): Promise<TriageOutcome> => {
+  const context = buildTriageContext(patient);
+  // Text goes through the text prompt; photos and documents through the multimodal path
+  const analysis = input.kind === 'TEXT'
+    ? await analyzePatientInput(input.text, context)
+    : input.kind === 'ATTACHMENT'
+    ? await analyzePatientAttachment(input.attachment, context)
+    : manualReviewResult(input);
+  // Readings are stored in canonical units so rules, charts and analytics compare like with like
+  const vitals = analysis.vitals.map(normalizeVital);
+  // Local rules can only escalate the AI risk level, never lower it
+  const insight = applyVitalSafetyNet(analysis.insight, vitals, patient.condition);
+
+  return { ...analysis, vitals, insight, raisedFlag: raiseFlag(patient, insight.riskLevel) };
+};
@@ -0,0 +1,46 @@
+import { ClinicalInsight, FoodAnalysis, VitalSign } from "../types";
+
+export type TriageProviderId = 'gemini' | 'mock';
+
+export interface TriageResult {
+  insight: ClinicalInsight;
+  vitals: VitalSign[];
+  suggestedResponse: string;
+  /** Detected language of the patient input (BCP-47). */
+  language?: string;
+  /** English translation of the patient input, when it was not in English. */
+  translation?: string;
+  /** English translation of `suggestedResponse`, when it was not written in English. */
+  responseTranslation?: string;
+}
+
+/**
+ * Binary attachment sent alongside a message (glucometer photo, lab PDF,
+ * voice note). `data` is base64 without the data-URL prefix.
+ */
+export interface TriageAttachment {
+  kind: 'IMAGE' | 'DOCUMENT' | 'AUDIO';
+  mimeType: string;
+  data: string;
+  fileName?: string;
+  /** Text the patient sent with the file, e.g. a WhatsApp caption. */
+  caption?: string;
+}
+
+/**
+ * Contract every triage backend implements. `analyzePatientInput` dispatches
+ * through whichever provider is active, so the rest of the app never talks to
+ * a specific LLM vendor directly.
+ */
+export interface TriageProvider {
+  id: TriageProviderId;
+  label: string;
+  /** Whether the provider can run in this environment (API key present, etc). */
+  isAvailable: () => boolean;
+  analyze: (message: string, patientHistoryContext: string) => Promise<TriageResult>;
+  analyzeAttachment: (attachment: TriageAttachment, patientHistoryContext: string) => Promise<TriageResult>;
+  /** Nutrition estimate for a meal photo; undefined when the provider cannot make one. */
+  analyzeMeal: (photo: TriageAttachment) => Promise<FoodAnalysis | undefined>;
+  /** Verbatim transcript of a voice note; empty when nothing could be transcribed. */
+  transcribe: (audio: TriageAttachment) => Promise<string>;
+}
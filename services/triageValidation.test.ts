@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { RiskLevel } from '../types';
+import { analysisSchema, foodAnalysisSchema } from './geminiService';
+import { validateFoodAnalysis, validateTriagePayload, validateVital } from './triageValidation';
+
+const TIMESTAMP = '2024-06-15T08:00:00.000Z';
+
+const payload = (overrides: Record<string, unknown> = {}) => ({
+  summary: 'Pulse slightly raised after a walk.',
+  riskLevel: 'LOW',
+  confidenceScore: 0.9,
+  themes: ['Vitals Update'],
+  reasoning: ['Heart rate within expected range after exertion.'],
+  extractedVitals: [],
+  suggestedResponse: 'Thanks, your reading is logged.',
+  ...overrides
+});
+
+describe('validateVital', () => {
+  it.each([
+    ['HEART_RATE', 88, 'BPM'],
+    ['HEART_RATE', 88, 'beats per minute'],
+    ['HEART_RATE', 88, 'Beats/Min.'],
+    ['BP_SYSTOLIC', 142, 'mm Hg'],
+    ['GLUCOSE', 7.2, 'mmol'],
+    ['GLUCOSE', 130, 'MG/DL'],
+    ['SPO2', 96, 'percent'],
+    ['WEIGHT', 71, 'Kgs'],
+    ['TEMP', 38.2, 'ºC'],
+    ['TEMP', 99.1, 'Fahrenheit']
+  ])('accepts %s %s %s', (type, value, unit) => {
+    expect(validateVital({ type, value, unit }, '$')).toEqual([]);
+  });
+
+  it.each([
+    [{ type: 'HEART_RATE', value: 88, unit: 'mmHg' }, '$.unit'],
+    [{ type: 'HEART_RATE', value: 880, unit: 'bpm' }, '$.value'],
+    [{ type: 'GLUCOSE', value: 130, unit: 'mmol/L' }, '$.value'],
+    [{ type: 'CHOLESTEROL', value: 5, unit: 'mmol/L' }, '$.type'],
+    [{ type: 'SPO2', value: '96', unit: '%' }, '$.value'],
+    [{ type: 'SPO2', value: 96, unit: ' ' }, '$.unit']
+  ])('rejects %j', (vital, field) => {
+    expect(validateVital(vital, '$').map(issue => issue.field)).toEqual([field]);
+  });
+});
+
+describe('validateTriagePayload', () => {
+  it('maps a valid response and stores units in their standard spelling', () => {
+    const { result, issues } = validateTriagePayload(
+      payload({ extractedVitals: [{ type: 'HEART_RATE', value: 96, unit: 'beats per minute' }] }),
+      analysisSchema,
+      TIMESTAMP
+    );
+
+    expect(issues).toEqual([]);
+    expect(result.insight).toMatchObject({ riskLevel: RiskLevel.LOW, confidenceScore: 0.9, clinicalActionSuggestion: 'Monitor' });
+    expect(result.vitals).toEqual([{ type: 'HEART_RATE', value: 96, unit: 'bpm', timestamp: TIMESTAMP }]);
+    expect(result.suggestedResponse).toBe('Thanks, your reading is logged.');
+  });
+
+  it('falls back to manual review on a schema failure, keeping the vitals that passed', () => {
+    const { result, issues } = validateTriagePayload(
+      payload({
+        riskLevel: 'URGENT',
+        extractedVitals: [
+          { type: 'GLUCOSE', value: 180, unit: 'mg/dL' },
+          { type: 'BP_SYSTOLIC', value: 1420, unit: 'mmHg' }
+        ]
+      }),
+      analysisSchema,
+      TIMESTAMP
+    );
+
+    expect(issues.map(issue => issue.field)).toEqual(['$.riskLevel', '$.extractedVitals[1].value']);
+    expect(result.insight).toMatchObject({
+      riskLevel: RiskLevel.MEDIUM,
+      confidenceScore: 0,
+      themes: ['Validation Failure'],
+      clinicalActionSuggestion: 'Manual Review'
+    });
+    expect(result.insight.missingData).toHaveLength(2);
+    expect(result.vitals).toEqual([{ type: 'GLUCOSE', value: 180, unit: 'mg/dL', timestamp: TIMESTAMP }]);
+    expect(result.suggestedResponse).toBe('We have received your message. A care coordinator will review it shortly.');
+  });
+
+  it('keeps a HIGH or CRITICAL model risk when falling back to manual review', () => {
+    const { result } = validateTriagePayload(payload({ riskLevel: 'CRITICAL', confidenceScore: 'high' }), analysisSchema, TIMESTAMP);
+
+    expect(result.insight.riskLevel).toBe(RiskLevel.CRITICAL);
+    expect(result.insight.summary).toContain('Model summary: Pulse slightly raised after a walk.');
+  });
+
+  it('sends a response that is not an object to manual review', () => {
+    const { result, issues } = validateTriagePayload('not json', analysisSchema, TIMESTAMP);
+
+    expect(issues).toEqual([{ field: '$', message: 'expected object, got string' }]);
+    expect(result.insight.riskLevel).toBe(RiskLevel.MEDIUM);
+    expect(result.vitals).toEqual([]);
+  });
+});
+
+describe('validateFoodAnalysis', () => {
+  const meal = { mealType: 'Lunch', caloriesEstimate: 650, carbs: '80g', protein: '18g', flag: 'High Carb' };
+
+  it('returns the analysis when every field passes', () => {
+    expect(validateFoodAnalysis(meal, foodAnalysisSchema)).toEqual({ analysis: meal, issues: [] });
+  });
+
+  it('returns no analysis for an unknown flag or a missing estimate', () => {
+    const { caloriesEstimate, ...uncounted } = meal;
+
+    expect(validateFoodAnalysis({ ...meal, flag: 'Spicy' }, foodAnalysisSchema).analysis).toBeUndefined();
+    expect(validateFoodAnalysis(uncounted, foodAnalysisSchema).issues.map(issue => issue.field)).toEqual(['$.caloriesEstimate']);
+  });
+});
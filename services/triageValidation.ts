@@ -0,0 +1,276 @@
+import { Type, Schema } from "@google/genai";
+import { ClinicalInsight, FOOD_FLAGS, FoodAnalysis, FoodFlag, RiskLevel, VitalSign } from "../types";
+import { TriageResult } from "./triageProvider";
+
+/**
+ * Runtime validation of structured LLM output.
+ * The response schema is only a hint to the model, so every field is checked
+ * again here before anything reaches patient state or the database.
+ */
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+interface PlausibleRange {
+  /** Spelling stored with accepted readings. */
+  unit: string;
+  /** Accepted spellings, as produced by normalizeUnit. */
+  units: string[];
+  min: number;
+  max: number;
+}
+
+/**
+ * Physiologically possible (not normal) ranges. Values outside these are
+ * almost certainly extraction errors such as misread digits or swapped units.
+ */
+export const VITAL_PLAUSIBILITY: Record<VitalSign['type'], PlausibleRange[]> = {
+  BP_SYSTOLIC: [{ unit: 'mmHg', units: ['mmhg', 'mm/hg', 'mmofhg', 'mm'], min: 50, max: 260 }],
+  BP_DIASTOLIC: [{ unit: 'mmHg', units: ['mmhg', 'mm/hg', 'mmofhg', 'mm'], min: 20, max: 160 }],
+  GLUCOSE: [
+    { unit: 'mg/dL', units: ['mg/dl', 'mgdl', 'mg/100ml', 'mg%'], min: 15, max: 800 },
+    { unit: 'mmol/L', units: ['mmol/l', 'mmol', 'mmolperl', 'mmolperlitre', 'mmolperliter'], min: 0.8, max: 45 }
+  ],
+  SPO2: [{ unit: '%', units: ['%', 'percent', 'pct'], min: 50, max: 100 }],
+  HEART_RATE: [{ unit: 'bpm', units: ['bpm', 'beats/min', 'beats/minute', 'beatsperminute', '/min', 'perminute'], min: 20, max: 250 }],
+  WEIGHT: [
+    { unit: 'kg', units: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'], min: 2, max: 350 },
+    { unit: 'lb', units: ['lb', 'lbs', 'pound', 'pounds'], min: 5, max: 770 }
+  ],
+  TEMP: [
+    { unit: '°F', units: ['°f', 'f', 'degf', 'degreesf', 'fahrenheit', '°fahrenheit', 'degreesfahrenheit'], min: 86, max: 113 },
+    { unit: '°C', units: ['°c', 'c', 'degc', 'degreesc', 'celsius', '°celsius', 'degreescelsius', 'centigrade'], min: 30, max: 45 }
+  ],
+  URINE_OUTPUT: [{ unit: 'mL', units: ['ml', 'ml/day', 'ml/24h', 'ml/24hr', 'ml/24hrs', 'millilitres', 'milliliters', 'cc'], min: 0, max: 10000 }]
+};
+
+const VITAL_TYPES = Object.keys(VITAL_PLAUSIBILITY) as VitalSign['type'][];
+
+/**
+ * Case, spacing, trailing dots and degree-sign variants do not change a
+ * unit: "BPM", "beats per minute" and "Beats/Min." all read as heart rate.
+ */
+const normalizeUnit = (unit: string) =>
+  unit.trim().toLowerCase().replace(/[º˚]/g, '°').replace(/\.+$/, '').replace(/\s+/g, '');
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/** Fields of a plain object; anything else reads as having none. */
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeOf(value) === 'object' ? value as Record<string, unknown> : {};
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const isVitalType = (value: unknown): value is VitalSign['type'] =>
+  typeof value === 'string' && (VITAL_TYPES as string[]).includes(value);
+
+/**
+ * Recursively checks a value against a Gemini `Schema` (types, enums and
+ * required properties). Returns one issue per failing path.
+ */
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = '$'): ValidationIssue[] => {
+  if (value === undefined || value === null) {
+    return schema.nullable ? [] : [{ field: path, message: 'missing value' }];
+  }
+
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return [{ field: path, message: `expected string, got ${typeOf(value)}` }];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ field: path, message: `"${value}" is not one of ${schema.enum.join(', ')}` }];
+      }
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ field: path, message: `expected number, got ${typeOf(value)}` }];
+      }
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [{ field: path, message: 'expected integer' }];
+      if (schema.minimum !== undefined && value < schema.minimum) return [{ field: path, message: `below minimum ${schema.minimum}` }];
+      if (schema.maximum !== undefined && value > schema.maximum) return [{ field: path, message: `above maximum ${schema.maximum}` }];
+      return [];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [{ field: path, message: `expected boolean, got ${typeOf(value)}` }];
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return [{ field: path, message: `expected array, got ${typeOf(value)}` }];
+      return schema.items
+        ? value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`))
+        : [];
+    case Type.OBJECT: {
+      if (typeOf(value) !== 'object') return [{ field: path, message: `expected object, got ${typeOf(value)}` }];
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined || record[key] === null) issues.push({ field: `${path}.${key}`, message: 'required field missing' });
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          issues.push(...validateAgainstSchema(record[key], propSchema, `${path}.${key}`));
+        }
+      });
+      return issues;
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Checks one extracted vital and returns it typed with its unit spelled the
+ * standard way, or the issues found.
+ */
+const parseVital = (raw: unknown, path: string): Omit<VitalSign, 'timestamp'> | ValidationIssue[] => {
+  const { type, unit, value } = asRecord(raw);
+  if (!isVitalType(type)) {
+    return [{ field: `${path}.type`, message: `unknown vital type "${type}"` }];
+  }
+  if (typeof unit !== 'string' || unit.trim() === '') {
+    return [{ field: `${path}.unit`, message: `${type} has no unit` }];
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return [{ field: `${path}.value`, message: `${type} value is not a number` }];
+  }
+
+  const range = VITAL_PLAUSIBILITY[type].find(r => r.units.includes(normalizeUnit(unit)));
+  if (!range) {
+    return [{ field: `${path}.unit`, message: `"${unit}" is not a valid unit for ${type}` }];
+  }
+  if (value < range.min || value > range.max) {
+    return [{ field: `${path}.value`, message: `${type} ${value} ${unit} outside plausible range ${range.min}-${range.max}` }];
+  }
+  return { type, value, unit: range.unit };
+};
+
+/**
+ * Domain checks for a single extracted vital: known type, unit compatible with
+ * that type, and a physiologically plausible value.
+ */
+export const validateVital = (raw: unknown, path: string): ValidationIssue[] => {
+  const parsed = parseVital(raw, path);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const describeIssue = (issue: ValidationIssue) => `Validation: ${issue.field.replace(/^\$\./, '')} - ${issue.message}`;
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+const isRiskLevel = (value: unknown): value is RiskLevel =>
+  typeof value === 'string' && RISK_LEVELS.includes(value);
+
+/**
+ * Converts a failed response into an insight that forces clinician review.
+ * The model's risk level is kept if it was valid and higher than MEDIUM.
+ */
+export const buildManualReviewInsight = (data: unknown, issues: ValidationIssue[]): ClinicalInsight => {
+  const { riskLevel: rawRisk, summary, reasoning } = asRecord(data);
+  const modelRisk = isRiskLevel(rawRisk) ? rawRisk : RiskLevel.MEDIUM;
+  const riskLevel = modelRisk === RiskLevel.HIGH || modelRisk === RiskLevel.CRITICAL ? modelRisk : RiskLevel.MEDIUM;
+
+  return {
+    summary: `AI output failed validation (${issues.length} issue${issues.length === 1 ? '' : 's'}). Manual review required.${typeof summary === 'string' ? ` Model summary: ${summary}` : ''}`,
+    riskLevel,
+    confidenceScore: 0,
+    themes: ["Validation Failure"],
+    reasoning: strings(reasoning),
+    missingData: issues.map(describeIssue),
+    clinicalActionSuggestion: "Manual Review"
+  };
+};
+
+/**
+ * Validates a parsed model response and maps it to domain types. Any failure
+ * downgrades the whole result to a manual-review insight; only vitals that
+ * passed their own checks are kept, and the rejected ones are listed in
+ * `missingData`.
+ */
+export const validateTriagePayload = (
+  data: unknown,
+  schema: Schema,
+  timestamp: string = new Date().toISOString()
+): { result: TriageResult; issues: ValidationIssue[] } => {
+  const raw = asRecord(data);
+  const issues = validateAgainstSchema(data, schema);
+
+  const rawVitals: unknown[] = Array.isArray(raw.extractedVitals) ? raw.extractedVitals : [];
+  const vitals: VitalSign[] = [];
+  rawVitals.forEach((v, i) => {
+    const parsed = parseVital(v, `$.extractedVitals[${i}]`);
+    if (Array.isArray(parsed)) {
+      parsed
+        .filter(vi => !issues.some(existing => existing.field === vi.field))
+        .forEach(vi => issues.push(vi));
+      return;
+    }
+    vitals.push({ ...parsed, timestamp });
+  });
+
+  const suggestedResponse = typeof raw.suggestedResponse === 'string' && raw.suggestedResponse.trim()
+    ? raw.suggestedResponse
+    : "Received. Updating your care log.";
+  const optionalText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const language = {
+    language: optionalText(raw.detectedLanguage),
+    translation: optionalText(raw.englishTranslation)
+  };
+
+  if (issues.length > 0) {
+    return {
+      result: {
+        insight: buildManualReviewInsight(raw, issues),
+        vitals,
+        suggestedResponse: "We have received your message. A care coordinator will review it shortly.",
+        ...language
+      },
+      issues
+    };
+  }
+
+  return {
+    result: {
+      // The schema check passed, so these only narrow the types
+      insight: {
+        summary: typeof raw.summary === 'string' ? raw.summary : '',
+        riskLevel: isRiskLevel(raw.riskLevel) ? raw.riskLevel : RiskLevel.MEDIUM,
+        confidenceScore: typeof raw.confidenceScore === 'number' ? raw.confidenceScore : 0,
+        themes: strings(raw.themes),
+        reasoning: strings(raw.reasoning),
+        missingData: strings(raw.missingData),
+        clinicalActionSuggestion: optionalText(raw.clinicalActionSuggestion) || "Monitor"
+      },
+      vitals,
+      suggestedResponse,
+      ...language,
+      responseTranslation: optionalText(raw.suggestedResponseEnglish)
+    },
+    issues
+  };
+};
+
+const isFoodFlag = (value: unknown): value is FoodFlag =>
+  typeof value === 'string' && (FOOD_FLAGS as string[]).includes(value);
+
+/**
+ * Validates a parsed meal-photo response. The analysis is returned only when
+ * every field passed the schema; otherwise the issues explain why.
+ */
+export const validateFoodAnalysis = (data: unknown, schema: Schema): { analysis?: FoodAnalysis; issues: ValidationIssue[] } => {
+  const issues = validateAgainstSchema(data, schema);
+  if (issues.length > 0) return { issues };
+
+  const raw = asRecord(data);
+  return {
+    // The schema check passed, so these only narrow the types
+    analysis: {
+      mealType: typeof raw.mealType === 'string' ? raw.mealType : 'Snack',
+      caloriesEstimate: typeof raw.caloriesEstimate === 'number' ? raw.caloriesEstimate : 0,
+      carbs: typeof raw.carbs === 'string' ? raw.carbs : '',
+      protein: typeof raw.protein === 'string' ? raw.protein : '',
+      flag: isFoodFlag(raw.flag) ? raw.flag : 'Balanced'
+    },
+    issues
+  };
+};
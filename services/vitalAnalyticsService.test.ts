@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { VitalSign } from '../types';
+import { analyticsAlerts, analyzeVitals } from './vitalAnalyticsService';
+
+const NOW = new Date('2024-06-15T10:00:00Z');
+
+const glucose = (daysAgo: number, value: number, now: Date = NOW): VitalSign => ({
+  type: 'GLUCOSE',
+  value,
+  unit: 'mg/dL',
+  timestamp: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString()
+});
+
+const rising = [glucose(6, 110), glucose(4, 140), glucose(2, 170), glucose(1, 200)];
+
+describe('analyzeVitals', () => {
+  it('reports a recent rising trend', () => {
+    const [analytics] = analyzeVitals(rising, NOW);
+
+    expect(analytics).toMatchObject({ type: 'GLUCOSE', rollingCount: 4, direction: 'RISING' });
+    expect(analyticsAlerts([analytics]).map(a => a.label)).toContain('Glucose ↑');
+  });
+
+  it('anchors windows at now, so months-old readings raise no badge', () => {
+    const monthsLater = new Date('2024-10-15T10:00:00Z');
+
+    expect(analyzeVitals(rising, monthsLater)).toEqual([]);
+    expect(analyticsAlerts(analyzeVitals(rising, monthsLater))).toEqual([]);
+  });
+
+  it('keeps only readings inside the rolling window in the average', () => {
+    const [analytics] = analyzeVitals([glucose(20, 300), glucose(3, 120), glucose(1, 130)], NOW);
+
+    expect(analytics).toMatchObject({ rollingAverage: 125, rollingCount: 2, previousAverage: undefined });
+  });
+});
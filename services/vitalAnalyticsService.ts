@@ -0,0 +1,217 @@
+import { VitalSign } from "../types";
+import { PLAN_VITALS } from "./carePlanService";
+
+/**
+ * Local trend and anomaly detection over a patient's readings: rolling
+ * averages, least-squares slopes, variability and sudden changes per vital.
+ * Windows end at `now`, so every figure describes the recent past; a vital
+ * with no reading in the rolling window is left out rather than reported
+ * from stale data (missed readings are the check-in service's concern).
+ * All functions are pure.
+ */
+
+export interface AnalyticsConfig {
+  /** Days covered by the rolling average, ending now. */
+  rollingDays: number;
+  /** Days of readings the slope is fitted over. */
+  trendDays: number;
+  /** Fewest readings in the trend window for a slope to be reported. */
+  minTrendReadings: number;
+  /** Change across the trend window, as a share of its mean, that counts as rising or falling. */
+  trendThreshold: number;
+  /** Absolute change from the rolling baseline that counts as sudden. */
+  suddenChange: Partial<Record<VitalSign['type'], number>>;
+  /** Coefficient of variation (%) above which readings count as highly variable. */
+  highVariabilityCv: Partial<Record<VitalSign['type'], number>>;
+}
+
+export const DEFAULT_ANALYTICS_CONFIG: AnalyticsConfig = {
+  rollingDays: 7,
+  trendDays: 14,
+  minTrendReadings: 3,
+  trendThreshold: 0.1,
+  suddenChange: {
+    GLUCOSE: 60,
+    BP_SYSTOLIC: 25,
+    BP_DIASTOLIC: 15,
+    HEART_RATE: 25,
+    SPO2: 4,
+    TEMP: 2,
+    WEIGHT: 2,
+    URINE_OUTPUT: 500
+  },
+  highVariabilityCv: {
+    // 36% is the usual threshold for glycaemic variability
+    GLUCOSE: 36,
+    BP_SYSTOLIC: 15,
+    BP_DIASTOLIC: 15,
+    HEART_RATE: 20,
+    SPO2: 3,
+    TEMP: 2,
+    WEIGHT: 3,
+    URINE_OUTPUT: 40
+  }
+};
+
+export type TrendDirection = 'RISING' | 'FALLING' | 'STABLE';
+
+export interface VitalAnalytics {
+  type: VitalSign['type'];
+  unit: string;
+  latest: VitalSign;
+  /** Mean of the readings in the rolling window. */
+  rollingAverage: number;
+  rollingCount: number;
+  /** Mean of the rolling window before that, when it has readings. */
+  previousAverage?: number;
+  /** Units per day, fitted over the trend window. */
+  slopePerDay?: number;
+  direction?: TrendDirection;
+  stdDev?: number;
+  /** Coefficient of variation in percent. */
+  cvPercent?: number;
+  highVariability: boolean;
+  /** Latest reading minus the mean of the rolling window before it. */
+  suddenChange?: { delta: number; baseline: number };
+}
+
+export type AnalyticsAlertKind = 'SUDDEN_CHANGE' | 'TREND' | 'HIGH_VARIABILITY';
+
+export interface AnalyticsAlert {
+  type: VitalSign['type'];
+  kind: AnalyticsAlertKind;
+  /** Short text for a badge. */
+  label: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+};
+
+const within = (readings: VitalSign[], from: number, to: number) =>
+  readings.filter(v => time(v.timestamp) > from && time(v.timestamp) <= to);
+
+/**
+ * Least-squares slope in units per day; undefined when every reading shares
+ * one timestamp.
+ */
+const slopePerDay = (readings: VitalSign[]): number | undefined => {
+  const xs = readings.map(v => time(v.timestamp) / DAY_MS);
+  const ys = readings.map(v => v.value);
+  const mx = mean(xs);
+  const my = mean(ys);
+  const denominator = xs.reduce((sum, x) => sum + (x - mx) ** 2, 0);
+  if (denominator === 0) return undefined;
+  return xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / denominator;
+};
+
+const analyzeType = (type: VitalSign['type'], sorted: VitalSign[], end: number, config: AnalyticsConfig): VitalAnalytics | undefined => {
+  const rollingMs = config.rollingDays * DAY_MS;
+  const rolling = within(sorted, end - rollingMs, end);
+  if (rolling.length === 0) return undefined;
+
+  const latest = rolling[rolling.length - 1];
+  const previous = within(sorted, end - 2 * rollingMs, end - rollingMs);
+  const trend = within(sorted, end - config.trendDays * DAY_MS, end);
+  const values = rolling.map(v => v.value);
+
+  let slope: number | undefined;
+  let direction: TrendDirection | undefined;
+  if (trend.length >= config.minTrendReadings) {
+    slope = slopePerDay(trend);
+    if (slope !== undefined) {
+      const spanDays = (time(trend[trend.length - 1].timestamp) - time(trend[0].timestamp)) / DAY_MS;
+      const trendMean = mean(trend.map(v => v.value));
+      const relative = trendMean === 0 ? 0 : (slope * spanDays) / Math.abs(trendMean);
+      direction = relative >= config.trendThreshold ? 'RISING' : relative <= -config.trendThreshold ? 'FALLING' : 'STABLE';
+    }
+  }
+
+  const sd = values.length >= 2 ? stdDev(values) : undefined;
+  const average = mean(values);
+  const cv = sd !== undefined && average !== 0 ? (sd / Math.abs(average)) * 100 : undefined;
+  const cvLimit = config.highVariabilityCv[type];
+
+  // Baseline excludes the latest reading so a spike can't dilute itself
+  const baselineReadings = rolling.filter(v => v !== latest);
+  const baseline = baselineReadings.length > 0 ? mean(baselineReadings.map(v => v.value)) : undefined;
+  const delta = baseline !== undefined ? latest.value - baseline : undefined;
+  const suddenLimit = config.suddenChange[type];
+
+  return {
+    type,
+    unit: latest.unit,
+    latest,
+    rollingAverage: average,
+    rollingCount: rolling.length,
+    previousAverage: previous.length > 0 ? mean(previous.map(v => v.value)) : undefined,
+    slopePerDay: slope,
+    direction,
+    stdDev: sd,
+    cvPercent: cv,
+    highVariability: cv !== undefined && cvLimit !== undefined && values.length >= config.minTrendReadings && cv > cvLimit,
+    suddenChange: delta !== undefined && suddenLimit !== undefined && Math.abs(delta) >= suddenLimit
+      ? { delta, baseline: baseline! }
+      : undefined
+  };
+};
+
+/**
+ * Analytics for every vital type with a reading in the rolling window ending
+ * at `now`, in care plan order.
+ */
+export const analyzeVitals = (vitals: VitalSign[], now: Date = new Date(), config: AnalyticsConfig = DEFAULT_ANALYTICS_CONFIG): VitalAnalytics[] =>
+  PLAN_VITALS.flatMap(({ type }) => {
+    const sorted = vitals.filter(v => v.type === type).sort((a, b) => time(a.timestamp) - time(b.timestamp));
+    const analytics = analyzeType(type, sorted, now.getTime(), config);
+    return analytics ? [analytics] : [];
+  });
+
+const formatNumber = (n: number) => Number.isInteger(n) ? `${n}` : n.toFixed(1);
+
+const signed = (n: number) => `${n >= 0 ? '+' : ''}${formatNumber(n)}`;
+
+const labelFor = (type: VitalSign['type']) => PLAN_VITALS.find(v => v.type === type)?.label ?? type;
+
+/**
+ * Findings worth surfacing, most urgent first: sudden changes, then rising or
+ * falling trends, then high variability.
+ */
+export const analyticsAlerts = (analytics: VitalAnalytics[]): AnalyticsAlert[] => [
+  ...analytics.filter(a => a.suddenChange).map(a => ({
+    type: a.type,
+    kind: 'SUDDEN_CHANGE' as const,
+    label: `${labelFor(a.type)} ${a.suddenChange!.delta > 0 ? 'jump' : 'drop'} ${signed(a.suddenChange!.delta)}`
+  })),
+  ...analytics.filter(a => a.direction === 'RISING' || a.direction === 'FALLING').map(a => ({
+    type: a.type,
+    kind: 'TREND' as const,
+    label: `${labelFor(a.type)} ${a.direction === 'RISING' ? '↑' : '↓'}`
+  })),
+  ...analytics.filter(a => a.highVariability).map(a => ({
+    type: a.type,
+    kind: 'HIGH_VARIABILITY' as const,
+    label: `${labelFor(a.type)} variable`
+  }))
+];
+
+/**
+ * One line of facts for the triage prompt.
+ */
+export const describeAnalytics = (a: VitalAnalytics, config: AnalyticsConfig = DEFAULT_ANALYTICS_CONFIG): string => {
+  const parts = [
+    `${config.rollingDays}-day avg ${formatNumber(a.rollingAverage)} ${a.unit} (${a.rollingCount} reading${a.rollingCount === 1 ? '' : 's'})`,
+    ...(a.previousAverage !== undefined ? [`prior ${config.rollingDays} days ${formatNumber(a.previousAverage)}`] : []),
+    ...(a.slopePerDay !== undefined ? [`slope ${signed(a.slopePerDay)}/day over ${config.trendDays} days (${a.direction?.toLowerCase()})`] : []),
+    ...(a.stdDev !== undefined ? [`SD ${formatNumber(a.stdDev)}${a.cvPercent !== undefined ? `, CV ${Math.round(a.cvPercent)}%` : ''}${a.highVariability ? ' (high variability)' : ''}`] : []),
+    ...(a.suddenChange ? [`SUDDEN CHANGE: latest ${formatNumber(a.latest.value)} is ${signed(a.suddenChange.delta)} vs baseline ${formatNumber(a.suddenChange.baseline)}`] : [])
+  ];
+  return `${a.type}: ${parts.join(', ')}`;
+};
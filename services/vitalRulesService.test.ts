@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ClinicalInsight, RiskLevel, VitalSign } from '../types';
+import { applyVitalSafetyNet, evaluateVitals, normalizeVital } from './vitalRulesService';
+
+const timestamp = '2024-06-15T08:00:00.000Z';
+
+const reading = (type: VitalSign['type'], value: number, unit: string): VitalSign => ({ type, value, unit, timestamp });
+
+const insight: ClinicalInsight = {
+  summary: 'Routine reading',
+  riskLevel: RiskLevel.LOW,
+  confidenceScore: 0.9,
+  themes: [],
+  reasoning: [],
+  missingData: [],
+  clinicalActionSuggestion: 'Monitor'
+};
+
+describe('normalizeVital', () => {
+  it('converts alternate units into the canonical unit', () => {
+    expect(normalizeVital(reading('GLUCOSE', 7, 'mmol/L'))).toEqual(reading('GLUCOSE', 126, 'mg/dL'));
+    expect(normalizeVital(reading('GLUCOSE', 2.5, 'mmol / l'))).toEqual(reading('GLUCOSE', 45, 'mg/dL'));
+    expect(normalizeVital(reading('WEIGHT', 180, 'lbs'))).toEqual(reading('WEIGHT', 81.6, 'kg'));
+    expect(normalizeVital(reading('TEMP', 38.5, '°C'))).toEqual(reading('TEMP', 101.3, '°F'));
+    expect(normalizeVital(reading('TEMP', 37, '°F'))).toEqual(reading('TEMP', 98.6, '°F'));
+  });
+
+  it('leaves canonical readings unchanged', () => {
+    const glucose = reading('GLUCOSE', 126, 'mg/dL');
+    expect(normalizeVital(glucose)).toBe(glucose);
+    expect(normalizeVital(reading('WEIGHT', 81.6, 'kg'))).toEqual(reading('WEIGHT', 81.6, 'kg'));
+  });
+});
+
+describe('evaluateVitals', () => {
+  // Regression: 7 mmol/L was compared raw against mg/dL thresholds and fired "Severe hypoglycemia"
+  it('compares mmol/L glucose against mg/dL thresholds after conversion', () => {
+    expect(evaluateVitals([reading('GLUCOSE', 7, 'mmol/L')], ['Type 2 Diabetes'])).toEqual([]);
+    expect(evaluateVitals([reading('GLUCOSE', 2.5, 'mmol/L')], [])[0].threshold.label).toBe('Severe hypoglycemia');
+    expect(evaluateVitals([reading('GLUCOSE', 25, 'mmol/L')], [])[0].threshold.label).toBe('Severe hyperglycemia');
+  });
+
+  it('applies condition overrides', () => {
+    const vitals = [reading('GLUCOSE', 200, 'mg/dL')];
+    expect(evaluateVitals(vitals, [])[0].threshold.level).toBe(RiskLevel.MEDIUM);
+    expect(evaluateVitals(vitals, ['Type 2 Diabetes'])[0].threshold.label).toBe('Above diabetic target');
+  });
+});
+
+describe('applyVitalSafetyNet', () => {
+  it('does not escalate a normal mmol/L reading', () => {
+    expect(applyVitalSafetyNet(insight, [reading('GLUCOSE', 7, 'mmol/L')], [])).toBe(insight);
+  });
+
+  it('escalates but never lowers the AI risk level', () => {
+    const escalated = applyVitalSafetyNet(insight, [reading('SPO2', 86, '%')], []);
+    expect(escalated.riskLevel).toBe(RiskLevel.CRITICAL);
+    expect(escalated.themes).toContain('Rule-Based Escalation');
+
+    const critical = { ...insight, riskLevel: RiskLevel.CRITICAL };
+    expect(applyVitalSafetyNet(critical, [reading('GLUCOSE', 200, 'mg/dL')], [])).toBe(critical);
+  });
+});
@@ -0,0 +1,225 @@
+import { ClinicalInsight, RiskLevel, VitalSign } from "../types";
+
+/**
+ * Deterministic safety net for AI triage.
+ * Every extracted vital is scored against local thresholds so that a model
+ * under-calling a dangerous reading can never lower the final risk level.
+ */
+
+export interface VitalThreshold {
+  level: RiskLevel;
+  below?: number;
+  above?: number;
+  label: string;
+}
+
+export type VitalRuleSet = Partial<Record<VitalSign['type'], VitalThreshold[]>>;
+
+export interface ConditionRuleOverride {
+  /** Matched case-insensitively against entries of `Patient.condition`. */
+  match: RegExp;
+  rules: VitalRuleSet;
+}
+
+export interface VitalRuleConfig {
+  defaults: VitalRuleSet;
+  conditionOverrides: ConditionRuleOverride[];
+}
+
+export interface FiredRule {
+  vital: VitalSign;
+  threshold: VitalThreshold;
+}
+
+const RISK_WEIGHT: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 1,
+  [RiskLevel.MEDIUM]: 2,
+  [RiskLevel.HIGH]: 3,
+  [RiskLevel.CRITICAL]: 4
+};
+
+export const DEFAULT_VITAL_RULES: VitalRuleSet = {
+  GLUCOSE: [
+    { level: RiskLevel.CRITICAL, below: 54, label: "Severe hypoglycemia" },
+    { level: RiskLevel.HIGH, below: 70, label: "Hypoglycemia" },
+    { level: RiskLevel.CRITICAL, above: 400, label: "Severe hyperglycemia" },
+    { level: RiskLevel.HIGH, above: 300, label: "Marked hyperglycemia" },
+    { level: RiskLevel.MEDIUM, above: 140, label: "Elevated glucose" }
+  ],
+  SPO2: [
+    { level: RiskLevel.CRITICAL, below: 88, label: "Severe hypoxemia" },
+    { level: RiskLevel.HIGH, below: 92, label: "Hypoxemia" },
+    { level: RiskLevel.MEDIUM, below: 95, label: "Borderline oxygen saturation" }
+  ],
+  BP_SYSTOLIC: [
+    { level: RiskLevel.CRITICAL, above: 180, label: "Hypertensive crisis range" },
+    { level: RiskLevel.HIGH, above: 160, label: "Severely raised systolic BP" },
+    { level: RiskLevel.MEDIUM, above: 140, label: "Raised systolic BP" },
+    { level: RiskLevel.CRITICAL, below: 80, label: "Severe hypotension" },
+    { level: RiskLevel.HIGH, below: 90, label: "Hypotension" }
+  ],
+  BP_DIASTOLIC: [
+    { level: RiskLevel.CRITICAL, above: 120, label: "Hypertensive crisis range" },
+    { level: RiskLevel.HIGH, above: 100, label: "Severely raised diastolic BP" },
+    { level: RiskLevel.MEDIUM, above: 90, label: "Raised diastolic BP" },
+    { level: RiskLevel.HIGH, below: 50, label: "Low diastolic BP" }
+  ],
+  HEART_RATE: [
+    { level: RiskLevel.CRITICAL, above: 140, label: "Severe tachycardia" },
+    { level: RiskLevel.HIGH, above: 120, label: "Tachycardia" },
+    { level: RiskLevel.MEDIUM, above: 100, label: "Elevated heart rate" },
+    { level: RiskLevel.CRITICAL, below: 40, label: "Severe bradycardia" },
+    { level: RiskLevel.HIGH, below: 50, label: "Bradycardia" }
+  ],
+  TEMP: [
+    { level: RiskLevel.CRITICAL, above: 104, label: "Hyperpyrexia" },
+    { level: RiskLevel.HIGH, above: 102.2, label: "High fever" },
+    { level: RiskLevel.MEDIUM, above: 100.4, label: "Fever" },
+    { level: RiskLevel.CRITICAL, below: 95, label: "Hypothermia" }
+  ],
+  URINE_OUTPUT: [
+    { level: RiskLevel.CRITICAL, below: 100, label: "Anuria" },
+    { level: RiskLevel.HIGH, below: 400, label: "Oliguria" }
+  ]
+};
+
+export const CONDITION_RULE_OVERRIDES: ConditionRuleOverride[] = [
+  {
+    // Diabetic patients run higher day-to-day; only flag sustained hyperglycemia.
+    match: /diabet/i,
+    rules: {
+      GLUCOSE: [
+        { level: RiskLevel.CRITICAL, below: 54, label: "Severe hypoglycemia" },
+        { level: RiskLevel.HIGH, below: 70, label: "Hypoglycemia" },
+        { level: RiskLevel.CRITICAL, above: 400, label: "Severe hyperglycemia" },
+        { level: RiskLevel.HIGH, above: 250, label: "Marked hyperglycemia (diabetic)" },
+        { level: RiskLevel.MEDIUM, above: 180, label: "Above diabetic target" }
+      ]
+    }
+  },
+  {
+    // Chronic lung disease baselines sit lower; targets of 88-92% are common.
+    match: /copd|chronic obstructive|pulmonary fibrosis/i,
+    rules: {
+      SPO2: [
+        { level: RiskLevel.CRITICAL, below: 85, label: "Severe hypoxemia (COPD)" },
+        { level: RiskLevel.HIGH, below: 88, label: "Below COPD target saturation" }
+      ]
+    }
+  },
+  {
+    match: /cardiac|heart failure|ckd|kidney|renal/i,
+    rules: {
+      URINE_OUTPUT: [
+        { level: RiskLevel.CRITICAL, below: 200, label: "Anuria / severe oliguria" },
+        { level: RiskLevel.HIGH, below: 500, label: "Reduced urine output" }
+      ]
+    }
+  }
+];
+
+export const DEFAULT_RULE_CONFIG: VitalRuleConfig = {
+  defaults: DEFAULT_VITAL_RULES,
+  conditionOverrides: CONDITION_RULE_OVERRIDES
+};
+
+export const maxRiskLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  RISK_WEIGHT[b] > RISK_WEIGHT[a] ? b : a;
+
+/**
+ * Resolves the thresholds that apply to a patient. Later condition overrides
+ * replace earlier ones per vital type.
+ */
+export const resolveRuleSet = (conditions: string[], config: VitalRuleConfig = DEFAULT_RULE_CONFIG): VitalRuleSet => {
+  const resolved: VitalRuleSet = { ...config.defaults };
+  config.conditionOverrides
+    .filter(o => conditions.some(c => o.match.test(c)))
+    .forEach(o => Object.assign(resolved, o.rules));
+  return resolved;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Conversions from the alternate units patients report in into the units
+ * thresholds, charts and analytics use (°F, mg/dL, kg).
+ */
+export const UNIT_CONVERSIONS = {
+  celsiusToFahrenheit: (c: number) => round1(c * 9 / 5 + 32),
+  mmolToMgDl: (mmol: number) => Math.round(mmol * 18.016),
+  poundsToKg: (lb: number) => round1(lb * 0.45359237)
+};
+
+const unitKey = (unit: string) => unit.trim().toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Converts a reading into the app's canonical unit for its type. Applied at
+ * ingestion so stored readings are comparable; readings already in the
+ * canonical unit are returned unchanged.
+ */
+export const normalizeVital = (vital: VitalSign): VitalSign => {
+  const unit = unitKey(vital.unit);
+  // Temperatures below 50 can only be °C, whatever unit was extracted
+  if (vital.type === 'TEMP' && (/c/.test(unit) || vital.value < 50)) {
+    return { ...vital, value: UNIT_CONVERSIONS.celsiusToFahrenheit(vital.value), unit: '°F' };
+  }
+  if (vital.type === 'GLUCOSE' && unit === 'mmol/l') {
+    return { ...vital, value: UNIT_CONVERSIONS.mmolToMgDl(vital.value), unit: 'mg/dL' };
+  }
+  if (vital.type === 'WEIGHT' && (unit === 'lb' || unit === 'lbs')) {
+    return { ...vital, value: UNIT_CONVERSIONS.poundsToKg(vital.value), unit: 'kg' };
+  }
+  return vital;
+};
+
+const matches = (value: number, t: VitalThreshold): boolean =>
+  (t.below !== undefined && value < t.below) || (t.above !== undefined && value > t.above);
+
+/**
+ * Scores each vital and returns the highest-severity threshold it breached.
+ */
+export const evaluateVitals = (vitals: VitalSign[], conditions: string[], config: VitalRuleConfig = DEFAULT_RULE_CONFIG): FiredRule[] => {
+  const ruleSet = resolveRuleSet(conditions, config);
+  const fired: FiredRule[] = [];
+
+  vitals.forEach(vital => {
+    const thresholds = ruleSet[vital.type] || [];
+    const { value } = normalizeVital(vital);
+    const worst = thresholds
+      .filter(t => matches(value, t))
+      .sort((a, b) => RISK_WEIGHT[b.level] - RISK_WEIGHT[a.level])[0];
+    if (worst) fired.push({ vital, threshold: worst });
+  });
+
+  return fired;
+};
+
+const describeRule = ({ vital, threshold }: FiredRule): string => {
+  const bound = threshold.below !== undefined ? `< ${threshold.below}` : `> ${threshold.above}`;
+  return `Safety rule: ${threshold.label} (${vital.type} ${vital.value} ${vital.unit}, threshold ${bound}) → ${threshold.level}`;
+};
+
+/**
+ * Escalates an AI-generated insight when a local rule fires at a higher level.
+ * The AI risk level is never lowered.
+ */
+export const applyVitalSafetyNet = (
+  insight: ClinicalInsight,
+  vitals: VitalSign[],
+  conditions: string[],
+  config: VitalRuleConfig = DEFAULT_RULE_CONFIG
+): ClinicalInsight => {
+  const escalating = evaluateVitals(vitals, conditions, config)
+    .filter(f => RISK_WEIGHT[f.threshold.level] > RISK_WEIGHT[insight.riskLevel]);
+
+  if (escalating.length === 0) return insight;
+
+  const riskLevel = escalating.reduce((lvl, f) => maxRiskLevel(lvl, f.threshold.level), insight.riskLevel);
+
+  return {
+    ...insight,
+    riskLevel,
+    reasoning: [...insight.reasoning, ...escalating.map(describeRule)],
+    themes: insight.themes.includes("Rule-Based Escalation") ? insight.themes : [...insight.themes, "Rule-Based Escalation"]
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { VitalSign } from '../types';
+import { at, makePatient } from '../test/fixtures';
+import { buildSeries, inDateRange, pairBloodPressure, resolveDateRange, seriesStats } from './vitalsExplorerService';
+
+const reading = (type: VitalSign['type'], value: number, minutes: number): VitalSign =>
+  ({ type, value, unit: 'mmHg', timestamp: at(minutes).toISOString() });
+
+describe('pairBloodPressure', () => {
+  it('keeps later pairs aligned when systolic and diastolic counts differ', () => {
+    const pairs = pairBloodPressure([
+      reading('BP_SYSTOLIC', 150, 0), reading('BP_DIASTOLIC', 95, 1),
+      reading('BP_SYSTOLIC', 145, 60),
+      reading('BP_SYSTOLIC', 138, 120), reading('BP_DIASTOLIC', 88, 121)
+    ]);
+
+    expect(pairs.map(p => [p.systolic, p.diastolic])).toEqual([[150, 95], [145, undefined], [138, 88]]);
+  });
+
+  it('does not pair readings taken further apart than the tolerance', () => {
+    expect(pairBloodPressure([reading('BP_SYSTOLIC', 150, 0), reading('BP_DIASTOLIC', 95, 11)])).toEqual([
+      { timestamp: at(0).toISOString(), systolic: 150, diastolic: undefined },
+      { timestamp: at(11).toISOString(), diastolic: 95 }
+    ]);
+    expect(pairBloodPressure([reading('BP_SYSTOLIC', 150, 0), reading('BP_DIASTOLIC', 95, 10)])).toEqual([
+      { timestamp: at(0).toISOString(), systolic: 150, diastolic: 95 }
+    ]);
+  });
+
+  it('keeps an unpaired trailing reading on its own', () => {
+    const pairs = pairBloodPressure([reading('BP_DIASTOLIC', 92, 30), reading('BP_SYSTOLIC', 150, 0), reading('BP_DIASTOLIC', 95, 2)]);
+
+    expect(pairs).toEqual([
+      { timestamp: at(0).toISOString(), systolic: 150, diastolic: 95 },
+      { timestamp: at(30).toISOString(), diastolic: 92 }
+    ]);
+  });
+});
+
+describe('resolveDateRange', () => {
+  it('starts preset windows on the day that makes them N days long, today included', () => {
+    expect(resolveDateRange('7D', {}, at(0))).toEqual({ from: '2024-06-09' });
+    expect(resolveDateRange('30D', {}, at(0))).toEqual({ from: '2024-05-17' });
+    expect(resolveDateRange('90D', {}, at(0))).toEqual({ from: '2024-03-18' });
+    expect(resolveDateRange('ALL', {}, at(0))).toEqual({});
+  });
+
+  it('uses the custom bounds as given and leaves blank ones open', () => {
+    expect(resolveDateRange('CUSTOM', { from: '2024-06-01', to: '' }, at(0))).toEqual({ from: '2024-06-01', to: undefined });
+  });
+
+  it('includes both boundary days', () => {
+    const range = { from: '2024-06-09', to: '2024-06-15' };
+
+    expect(['2024-06-08', '2024-06-09', '2024-06-15', '2024-06-16'].map(date => inDateRange(date, range))).toEqual([false, true, true, false]);
+  });
+
+  it('filters series readings by their local date', () => {
+    const patient = makePatient({
+      vitalsHistory: [
+        { type: 'GLUCOSE', value: 120, unit: 'mg/dL', timestamp: '2024-06-08T23:59:00.000Z' },
+        { type: 'GLUCOSE', value: 130, unit: 'mg/dL', timestamp: '2024-06-09T00:00:00.000Z' },
+        { type: 'GLUCOSE', value: 140, unit: 'mg/dL', timestamp: '2024-06-10T23:59:00.000Z' },
+        { type: 'GLUCOSE', value: 150, unit: 'mg/dL', timestamp: '2024-06-11T00:00:00.000Z' }
+      ]
+    });
+
+    const series = buildSeries(patient, 'GLUCOSE', resolveDateRange('CUSTOM', { from: '2024-06-09', to: '2024-06-10' }, at(0)));
+
+    expect(series.metric.label).toBe('Glucose');
+    expect(series.lines[0].points.map(p => p.value)).toEqual([130, 140]);
+  });
+});
+
+describe('seriesStats', () => {
+  const points = (values: number[]) => values.map((value, i) => ({ time: at(i).getTime(), value }));
+
+  it('counts readings on a bound as in range', () => {
+    expect(seriesStats(points([80, 120, 180, 250]), { min: 80, max: 180 })).toEqual({ count: 4, min: 80, max: 250, mean: 157.5, inRangePercent: 75 });
+  });
+
+  it('checks only the bound a one-sided target sets', () => {
+    expect(seriesStats(points([4000, 6000, 9000]), { min: 6000 }).inRangePercent).toBe(67);
+    expect(seriesStats(points([130, 150, 170]), { max: 140 }).inRangePercent).toBe(33);
+  });
+
+  it('has no time in range without a target or readings', () => {
+    expect(seriesStats(points([120])).inRangePercent).toBeUndefined();
+    expect(seriesStats([], { min: 80 })).toEqual({ count: 0 });
+  });
+});
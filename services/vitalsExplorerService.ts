@@ -0,0 +1,210 @@
+import { Patient, VitalSign, VitalTarget } from "../types";
+import { targetFor } from "./carePlanService";
+import { toLocalDate } from "./medicationService";
+import { rangeStart } from "./wearableImportService";
+
+/**
+ * Series and statistics behind the vitals explorer: any vital or wearable
+ * metric over a date range, blood pressure paired by timestamp, and a second
+ * metric overlaid on its own axis. All functions are pure.
+ */
+
+export type ExplorerMetric =
+  | 'GLUCOSE' | 'BP' | 'HEART_RATE' | 'SPO2' | 'TEMP' | 'WEIGHT' | 'URINE_OUTPUT' | 'STEPS' | 'SLEEP';
+
+export interface MetricDefinition {
+  id: ExplorerMetric;
+  label: string;
+  unit: string;
+}
+
+const METRICS: Record<ExplorerMetric, MetricDefinition> = {
+  GLUCOSE: { id: 'GLUCOSE', label: 'Glucose', unit: 'mg/dL' },
+  BP: { id: 'BP', label: 'Blood pressure', unit: 'mmHg' },
+  HEART_RATE: { id: 'HEART_RATE', label: 'Pulse', unit: 'bpm' },
+  SPO2: { id: 'SPO2', label: 'SpO2', unit: '%' },
+  TEMP: { id: 'TEMP', label: 'Temperature', unit: '°F' },
+  WEIGHT: { id: 'WEIGHT', label: 'Weight', unit: 'kg' },
+  URINE_OUTPUT: { id: 'URINE_OUTPUT', label: 'Urine output', unit: 'ml' },
+  STEPS: { id: 'STEPS', label: 'Steps', unit: 'steps' },
+  SLEEP: { id: 'SLEEP', label: 'Sleep', unit: 'h' }
+};
+
+/** Metrics in picker order. */
+export const EXPLORER_METRICS: MetricDefinition[] = Object.values(METRICS);
+
+export const DATE_RANGES = [
+  { id: '7D', label: '7D', days: 7 },
+  { id: '30D', label: '30D', days: 30 },
+  { id: '90D', label: '90D', days: 90 },
+  { id: 'ALL', label: 'All' },
+  { id: 'CUSTOM', label: 'Custom' }
+] as const;
+
+export type DateRangeId = typeof DATE_RANGES[number]['id'];
+
+/**
+ * Inclusive local dates (YYYY-MM-DD); an undefined bound is open.
+ */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export const resolveDateRange = (id: DateRangeId, custom: DateRange = {}, now: Date = new Date()): DateRange => {
+  if (id === 'ALL') return {};
+  if (id === 'CUSTOM') return { from: custom.from || undefined, to: custom.to || undefined };
+  const range = DATE_RANGES.find(r => r.id === id);
+  return { from: rangeStart(range && 'days' in range ? range.days : 7, now) };
+};
+
+export const inDateRange = (date: string, range: DateRange) =>
+  (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+export interface SeriesPoint {
+  time: number;
+  value: number;
+}
+
+export interface SeriesLine {
+  /** Field name for this line in chart rows. */
+  key: string;
+  label: string;
+  color: string;
+  points: SeriesPoint[];
+  target?: VitalTarget;
+}
+
+export interface MetricSeries {
+  metric: MetricDefinition;
+  lines: SeriesLine[];
+}
+
+export interface BpPair {
+  timestamp: string;
+  systolic?: number;
+  diastolic?: number;
+}
+
+/** Readings further apart than this are not one blood pressure measurement. */
+export const BP_PAIR_TOLERANCE_MS = 10 * 60 * 1000;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Pairs each systolic reading with the nearest unpaired diastolic reading
+ * taken within the tolerance. Readings without a partner stay on their own
+ * rather than shifting every later pair out of line.
+ */
+export const pairBloodPressure = (vitals: VitalSign[], toleranceMs: number = BP_PAIR_TOLERANCE_MS): BpPair[] => {
+  const sorted = [...vitals].sort((a, b) => time(a.timestamp) - time(b.timestamp));
+  const unpaired = sorted.filter(v => v.type === 'BP_DIASTOLIC');
+  const pairs: BpPair[] = sorted.filter(v => v.type === 'BP_SYSTOLIC').map(sys => {
+    const nearest = unpaired.reduce<VitalSign | undefined>((best, dia) => {
+      const gap = Math.abs(time(dia.timestamp) - time(sys.timestamp));
+      return gap <= toleranceMs && (!best || gap < Math.abs(time(best.timestamp) - time(sys.timestamp))) ? dia : best;
+    }, undefined);
+    if (nearest) unpaired.splice(unpaired.indexOf(nearest), 1);
+    return { timestamp: sys.timestamp, systolic: sys.value, diastolic: nearest?.value };
+  });
+
+  return [...pairs, ...unpaired.map(dia => ({ timestamp: dia.timestamp, diastolic: dia.value }))]
+    .sort((a, b) => time(a.timestamp) - time(b.timestamp));
+};
+
+// Wearable days are plotted at noon so they sit in the middle of their day
+const noon = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d, 12).getTime();
+};
+
+const vitalPoints = (patient: Patient, type: VitalSign['type'], range: DateRange): SeriesPoint[] =>
+  patient.vitalsHistory
+    .filter(v => v.type === type && inDateRange(toLocalDate(new Date(v.timestamp)), range))
+    .map(v => ({ time: time(v.timestamp), value: v.value }))
+    .sort((a, b) => a.time - b.time);
+
+export const buildSeries = (patient: Patient, metricId: ExplorerMetric, range: DateRange): MetricSeries => {
+  const metric = METRICS[metricId];
+  const plan = patient.carePlan;
+
+  if (metricId === 'BP') {
+    const pairs = pairBloodPressure(patient.vitalsHistory.filter(v =>
+      (v.type === 'BP_SYSTOLIC' || v.type === 'BP_DIASTOLIC') && inDateRange(toLocalDate(new Date(v.timestamp)), range)));
+    const points = (pick: (p: BpPair) => number | undefined) => pairs.flatMap(p => {
+      const value = pick(p);
+      return value === undefined ? [] : [{ time: time(p.timestamp), value }];
+    });
+    return {
+      metric,
+      lines: [
+        { key: 'sys', label: 'Systolic', color: '#f43f5e', points: points(p => p.systolic), target: targetFor(plan, 'BP_SYSTOLIC') },
+        { key: 'dia', label: 'Diastolic', color: '#3b82f6', points: points(p => p.diastolic), target: targetFor(plan, 'BP_DIASTOLIC') }
+      ]
+    };
+  }
+
+  if (metricId === 'STEPS' || metricId === 'SLEEP') {
+    const pick = (d: Patient['wearableHistory'][number]) => metricId === 'STEPS' ? d.steps : d.sleepHours;
+    const goal = metricId === 'STEPS' ? plan?.goals.dailySteps : plan?.goals.sleepHours;
+    return {
+      metric,
+      lines: [{
+        key: 'value',
+        label: metric.label,
+        color: metricId === 'STEPS' ? '#6366f1' : '#a855f7',
+        points: patient.wearableHistory
+          .filter(d => pick(d) !== undefined && inDateRange(d.date, range))
+          .map(d => ({ time: noon(d.date), value: pick(d)! })),
+        target: goal ? { min: goal } : undefined
+      }]
+    };
+  }
+
+  const colors: Partial<Record<ExplorerMetric, string>> = { GLUCOSE: '#10b981', HEART_RATE: '#ec4899', SPO2: '#0ea5e9', TEMP: '#f97316', WEIGHT: '#64748b', URINE_OUTPUT: '#f59e0b' };
+  const type = metricId as VitalSign['type'];
+  return {
+    metric,
+    lines: [{ key: 'value', label: metric.label, color: colors[metricId] ?? '#10b981', points: vitalPoints(patient, type, range), target: targetFor(plan, type) }]
+  };
+};
+
+export type ChartRow = { time: number } & Record<string, number | undefined>;
+
+/**
+ * One row per distinct timestamp, with each line under `${prefix}${key}` so
+ * the primary and overlay series can share a chart.
+ */
+export const chartRows = (series: { prefix: string; series: MetricSeries }[]): ChartRow[] => {
+  const rows = new Map<number, ChartRow>();
+  series.forEach(({ prefix, series: s }) => s.lines.forEach(line => line.points.forEach(point => {
+    const row = rows.get(point.time) ?? { time: point.time };
+    row[`${prefix}${line.key}`] = point.value;
+    rows.set(point.time, row);
+  })));
+  return Array.from(rows.values()).sort((a, b) => a.time - b.time);
+};
+
+export interface SeriesStats {
+  count: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  /** Share of readings within the target, 0–100; undefined without a target. */
+  inRangePercent?: number;
+}
+
+export const seriesStats = (points: SeriesPoint[], target?: VitalTarget): SeriesStats => {
+  if (points.length === 0) return { count: 0 };
+  const values = points.map(p => p.value);
+  const inRange = target
+    ? values.filter(v => (target.min === undefined || v >= target.min) && (target.max === undefined || v <= target.max)).length
+    : undefined;
+  return {
+    count: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+    inRangePercent: inRange === undefined ? undefined : Math.round((inRange / values.length) * 100)
+  };
+};
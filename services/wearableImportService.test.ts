@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { VitalSign } from '../types';
+import { importWearableExport, newDailyVitals } from './wearableImportService';
+
+const appleRecord = (type: string, start: string, end: string, value: string, source = 'Apple Watch') =>
+  `<Record type="${type}" sourceName="${source}" startDate="${start}" endDate="${end}" value="${value}"/>`;
+
+const appleExport = (...records: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<HealthData locale="en_IN">\n${records.join('\n')}\n</HealthData>`;
+
+const SLEEP = 'HKCategoryTypeIdentifierSleepAnalysis';
+const STEPS = 'HKQuantityTypeIdentifierStepCount';
+
+describe('importWearableExport: Apple Health', () => {
+  it('reads timezone offsets, so records land on the day they happened in local time', () => {
+    // 01:00 in India is 19:30 UTC the previous day; tests run in UTC
+    const result = importWearableExport('export.xml', appleExport(
+      appleRecord(STEPS, '2024-06-15 01:00:00 +0530', '2024-06-15 01:10:00 +0530', '800'),
+      appleRecord(STEPS, '2024-06-15 09:00:00 +0000', '2024-06-15 09:30:00 +0000', '1200')
+    ));
+
+    expect(result.format).toBe('APPLE_HEALTH');
+    expect(result.days).toEqual([
+      { date: '2024-06-14', steps: 800, sleepHours: undefined, source: 'Apple Health' },
+      { date: '2024-06-15', steps: 1200, sleepHours: undefined, source: 'Apple Health' }
+    ]);
+  });
+
+  it('counts time asleep over time in bed, and in-bed time only when nothing else was recorded', () => {
+    const result = importWearableExport('export.xml', appleExport(
+      appleRecord(SLEEP, '2024-06-14 22:00:00 +0000', '2024-06-15 06:00:00 +0000', 'HKCategoryValueSleepAnalysisInBed', 'iPhone'),
+      appleRecord(SLEEP, '2024-06-14 23:00:00 +0000', '2024-06-15 03:00:00 +0000', 'HKCategoryValueSleepAnalysisAsleepCore'),
+      appleRecord(SLEEP, '2024-06-15 03:30:00 +0000', '2024-06-15 06:00:00 +0000', 'HKCategoryValueSleepAnalysisAsleepREM'),
+      appleRecord(SLEEP, '2024-06-15 04:00:00 +0000', '2024-06-15 04:20:00 +0000', 'HKCategoryValueSleepAnalysisAwake'),
+      appleRecord(SLEEP, '2024-06-15 23:00:00 +0000', '2024-06-16 06:00:00 +0000', 'HKCategoryValueSleepAnalysisInBed', 'iPhone')
+    ));
+
+    expect(result.days.map(d => [d.date, d.sleepHours])).toEqual([['2024-06-15', 6.5], ['2024-06-16', 7]]);
+  });
+
+  it('takes the larger of phone and watch step counts instead of adding them', () => {
+    const result = importWearableExport('export.xml', appleExport(
+      appleRecord(STEPS, '2024-06-15 09:00:00 +0000', '2024-06-15 10:00:00 +0000', '3000', 'iPhone'),
+      appleRecord(STEPS, '2024-06-15 09:00:00 +0000', '2024-06-15 10:00:00 +0000', '3400', 'Apple Watch')
+    ));
+
+    expect(result.days[0].steps).toBe(3400);
+  });
+
+  it('turns resting heart rate and fractional SpO2 into daily vitals and counts unreadable records', () => {
+    const result = importWearableExport('export.xml', appleExport(
+      appleRecord('HKQuantityTypeIdentifierRestingHeartRate', '2024-06-15 07:00:00 +0000', '2024-06-15 07:00:00 +0000', '62'),
+      appleRecord('HKQuantityTypeIdentifierOxygenSaturation', '2024-06-15 07:00:00 +0000', '2024-06-15 07:00:00 +0000', '0.97'),
+      appleRecord('HKQuantityTypeIdentifierRestingHeartRate', '15/06/2024 07:00', '15/06/2024 07:00', '60')
+    ));
+
+    expect(result.vitals).toEqual([
+      { type: 'HEART_RATE', value: 62, unit: 'bpm', timestamp: '2024-06-15T12:00:00.000Z' },
+      { type: 'SPO2', value: 97, unit: '%', timestamp: '2024-06-15T12:00:00.000Z' }
+    ]);
+    expect(result.skipped).toBe(1);
+  });
+});
+
+describe('importWearableExport: Google Fit', () => {
+  const nanos = (iso: string) => `${new Date(iso).getTime()}000000`;
+  const point = (dataTypeName: string, start: string, end: string, value: { intVal?: number; fpVal?: number }) => ({
+    dataTypeName,
+    startTimeNanos: nanos(start),
+    endTimeNanos: nanos(end),
+    originDataSourceId: 'raw:com.google.step_count.delta:phone',
+    fitValue: [{ value }]
+  });
+
+  it('reads nanosecond timestamps and skips awake sleep segments', () => {
+    const takeout = JSON.stringify({
+      'Data Points': [
+        point('com.google.step_count.delta', '2024-06-15T08:00:00Z', '2024-06-15T08:15:00Z', { intVal: 1500 }),
+        point('com.google.step_count.delta', '2024-06-15T23:50:00Z', '2024-06-16T00:10:00Z', { intVal: 300 }),
+        point('com.google.sleep.segment', '2024-06-15T22:00:00Z', '2024-06-16T04:00:00Z', { intVal: 4 }),
+        point('com.google.sleep.segment', '2024-06-16T04:00:00Z', '2024-06-16T04:30:00Z', { intVal: 1 }),
+        point('com.google.sleep.segment', '2024-06-16T04:30:00Z', '2024-06-16T06:00:00Z', { intVal: 5 })
+      ]
+    });
+
+    const result = importWearableExport('steps.json', takeout);
+
+    expect(result.format).toBe('GOOGLE_FIT');
+    expect(result.days).toEqual([
+      { date: '2024-06-15', steps: 1800, sleepHours: undefined, source: 'Google Fit' },
+      { date: '2024-06-16', steps: undefined, sleepHours: 7.5, source: 'Google Fit' }
+    ]);
+  });
+
+  it('counts points without a readable value as skipped', () => {
+    const takeout = JSON.stringify({
+      'Data Points': [
+        point('com.google.step_count.delta', '2024-06-15T08:00:00Z', '2024-06-15T08:15:00Z', { intVal: 1500 }),
+        { dataTypeName: 'com.google.step_count.delta', startTimeNanos: nanos('2024-06-15T09:00:00Z'), fitValue: [] }
+      ]
+    });
+
+    expect(importWearableExport('steps.json', takeout).skipped).toBe(1);
+  });
+});
+
+describe('importWearableExport: Health Connect', () => {
+  it('sums asleep stages of a sleep session and reads nested percentages', () => {
+    const result = importWearableExport('health.json', JSON.stringify({
+      records: [
+        {
+          recordType: 'SleepSessionRecord',
+          startTime: '2024-06-14T22:00:00Z',
+          endTime: '2024-06-15T06:00:00Z',
+          metadata: { dataOrigin: { packageName: 'com.fitbit' } },
+          stages: [
+            { stage: 4, startTime: '2024-06-14T22:00:00Z', endTime: '2024-06-15T02:00:00Z' },
+            { stage: 1, startTime: '2024-06-15T02:00:00Z', endTime: '2024-06-15T03:00:00Z' },
+            { stage: 6, startTime: '2024-06-15T03:00:00Z', endTime: '2024-06-15T06:00:00Z' }
+          ]
+        },
+        { recordType: 'OxygenSaturationRecord', time: '2024-06-15T07:00:00Z', percentage: { value: 95 } }
+      ]
+    }));
+
+    expect(result.format).toBe('HEALTH_CONNECT');
+    expect(result.days).toEqual([{ date: '2024-06-15', steps: undefined, sleepHours: 7, source: 'Health Connect' }]);
+    expect(result.vitals).toEqual([{ type: 'SPO2', value: 95, unit: '%', timestamp: '2024-06-15T12:00:00.000Z' }]);
+  });
+});
+
+describe('importWearableExport: CSV', () => {
+  it('maps known headers, converts sleep minutes and skips unreadable rows and cells', () => {
+    const csv = [
+      'Date,Step Count,Sleep (minutes),Resting HR,Notes',
+      '2024-06-14,6500,420,61,good day',
+      '2024-06-15,n/a,390,,',
+      'yesterday,5000,400,60,'
+    ].join('\n');
+
+    const result = importWearableExport('daily.csv', csv);
+
+    expect(result.format).toBe('CSV');
+    expect(result.days).toEqual([
+      { date: '2024-06-14', steps: 6500, sleepHours: 7, source: 'CSV' },
+      { date: '2024-06-15', steps: undefined, sleepHours: 6.5, source: 'CSV' }
+    ]);
+    expect(result.vitals).toEqual([{ type: 'HEART_RATE', value: 61, unit: 'bpm', timestamp: '2024-06-14T12:00:00.000Z' }]);
+    expect(result.skipped).toBe(2);
+  });
+
+  it('rejects a CSV without a date column', () => {
+    expect(() => importWearableExport('daily.csv', 'steps,sleep\n6500,7')).toThrow('CSV needs a "date" column');
+  });
+});
+
+describe('newDailyVitals', () => {
+  it('drops readings already stored for the same type and instant, so re-importing adds nothing', () => {
+    const stored: VitalSign[] = [{ id: 'v-1', type: 'HEART_RATE', value: 62, unit: 'bpm', timestamp: '2024-06-15T12:00:00Z' }];
+    const imported: VitalSign[] = [
+      { type: 'HEART_RATE', value: 62, unit: 'bpm', timestamp: '2024-06-15T12:00:00.000Z' },
+      { type: 'SPO2', value: 97, unit: '%', timestamp: '2024-06-15T12:00:00.000Z' },
+      { type: 'HEART_RATE', value: 64, unit: 'bpm', timestamp: '2024-06-16T12:00:00.000Z' }
+    ];
+
+    const added = newDailyVitals(stored, imported);
+
+    expect(added.map(v => v.type + v.timestamp)).toEqual(['SPO22024-06-15T12:00:00.000Z', 'HEART_RATE2024-06-16T12:00:00.000Z']);
+    expect(newDailyVitals([...stored, ...added], imported)).toEqual([]);
+  });
+});
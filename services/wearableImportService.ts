@@ -0,0 +1,443 @@
+import { VitalSign, WearableDay } from "../types";
+import { toLocalDate } from "./medicationService";
+
+/**
+ * Wearable export importer. Reads an Apple Health `export.xml`, a Google Fit
+ * Takeout / Health Connect JSON export or a CSV (including Google Fit's
+ * "Daily activity metrics.csv") and reduces it to dated daily aggregates:
+ * steps and sleep as WearableDays, resting heart rate and SpO2 as one
+ * HEART_RATE / SPO2 vital per day. All functions are pure; callers persist
+ * the result.
+ */
+
+export type WearableFormat = 'APPLE_HEALTH' | 'GOOGLE_FIT' | 'HEALTH_CONNECT' | 'CSV';
+
+export interface WearableImport {
+  format: WearableFormat;
+  days: WearableDay[];
+  vitals: VitalSign[];
+  /** Records or rows that could not be read. */
+  skipped: number;
+}
+
+export const FORMAT_LABELS: Record<WearableFormat, string> = {
+  APPLE_HEALTH: 'Apple Health',
+  GOOGLE_FIT: 'Google Fit',
+  HEALTH_CONNECT: 'Health Connect',
+  CSV: 'CSV'
+};
+
+type SampleKind = 'STEPS' | 'SLEEP' | 'RESTING_HR' | 'SPO2';
+
+interface Sample {
+  kind: SampleKind;
+  /** Local YYYY-MM-DD the sample counts towards. */
+  date: string;
+  value: number;
+  /** Device or app that recorded it; phone and watch often both count steps. */
+  source: string;
+  /** Sleep only: time in bed rather than asleep. */
+  inBed?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+// --- Apple Health ---
+
+const APPLE_TYPES: Record<string, SampleKind> = {
+  HKQuantityTypeIdentifierStepCount: 'STEPS',
+  HKCategoryTypeIdentifierSleepAnalysis: 'SLEEP',
+  HKQuantityTypeIdentifierRestingHeartRate: 'RESTING_HR',
+  HKQuantityTypeIdentifierOxygenSaturation: 'SPO2'
+};
+
+/**
+ * "2024-01-05 07:30:00 +0530" → Date.
+ */
+const parseAppleDate = (value: string | undefined): Date | undefined => {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const readAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/(\w+)="([^"]*)"/g)) attributes[name] = value;
+  return attributes;
+};
+
+// Exports run to hundreds of megabytes, so records are scanned rather than parsed into a DOM
+const parseAppleHealth = (xml: string): { samples: Sample[]; skipped: number } => {
+  const samples: Sample[] = [];
+  let skipped = 0;
+
+  for (const [tag] of xml.matchAll(/<Record\s[^>]*>/g)) {
+    const kind = APPLE_TYPES[tag.match(/type="([^"]+)"/)?.[1] ?? ''];
+    if (!kind) continue;
+
+    const record = readAttributes(tag);
+    const start = parseAppleDate(record.startDate);
+    const end = parseAppleDate(record.endDate) ?? start;
+    const source = record.sourceName || 'Apple Health';
+    if (!start || !end) { skipped++; continue; }
+
+    if (kind === 'SLEEP') {
+      const asleep = record.value?.startsWith('HKCategoryValueSleepAnalysisAsleep');
+      const inBed = record.value === 'HKCategoryValueSleepAnalysisInBed';
+      if (!asleep && !inBed) continue;
+      // A night counts towards the day the patient wakes up
+      samples.push({ kind, date: toLocalDate(end), value: (end.getTime() - start.getTime()) / HOUR_MS, source, inBed });
+      continue;
+    }
+
+    let value = Number(record.value);
+    if (!isFinite(value)) { skipped++; continue; }
+    // SpO2 is recorded as a fraction with unit "%"
+    if (kind === 'SPO2' && value <= 1) value *= 100;
+    samples.push({ kind, date: toLocalDate(start), value, source });
+  }
+
+  return { samples, skipped };
+};
+
+// --- Google Fit and Health Connect ---
+
+const FIT_TYPES: Record<string, SampleKind> = {
+  'com.google.step_count.delta': 'STEPS',
+  'com.google.sleep.segment': 'SLEEP',
+  'com.google.oxygen_saturation': 'SPO2'
+};
+
+// Sleep stages shared by Google Fit segments and Health Connect sessions
+const AWAKE_STAGES = [1, 3, 7];
+
+const HEALTH_CONNECT_TYPES: Record<string, SampleKind> = {
+  Steps: 'STEPS',
+  SleepSession: 'SLEEP',
+  RestingHeartRate: 'RESTING_HR',
+  OxygenSaturation: 'SPO2'
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** `value[key]` when value is an object; exports omit fields freely. */
+const field = (value: unknown, key: string): unknown => isObject(value) ? value[key] : undefined;
+
+const firstItem = (value: unknown): unknown => Array.isArray(value) ? value[0] : undefined;
+
+const nonEmptyString = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined;
+
+const toDate = (value: unknown) => new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+
+/**
+ * Every object in the document that passes `match`, however deeply nested;
+ * exporters wrap the same records in different envelopes.
+ */
+const collect = (value: unknown, match: (item: JsonObject) => boolean, found: JsonObject[] = []): JsonObject[] => {
+  if (Array.isArray(value)) {
+    value.forEach(item => collect(item, match, found));
+  } else if (isObject(value)) {
+    if (match(value)) found.push(value);
+    else Object.values(value).forEach(item => collect(item, match, found));
+  }
+  return found;
+};
+
+const fromNanos = (nanos: unknown) => new Date(Number(nanos) / 1e6);
+
+const parseGoogleFit = (json: unknown): { samples: Sample[]; skipped: number } => {
+  const samples: Sample[] = [];
+  let skipped = 0;
+
+  collect(json, item => typeof item.dataTypeName === 'string' && item.startTimeNanos !== undefined).forEach(point => {
+    const kind = FIT_TYPES[String(point.dataTypeName)];
+    if (!kind) return;
+
+    // Takeout nests values as fitValue[].value, the REST API as value[]
+    const first = field(firstItem(point.fitValue), 'value') ?? firstItem(point.value);
+    const value = Number(field(first, 'intVal') ?? field(first, 'fpVal'));
+    const start = fromNanos(point.startTimeNanos);
+    const end = fromNanos(point.endTimeNanos ?? point.startTimeNanos);
+    const source = nonEmptyString(point.originDataSourceId) ?? 'Google Fit';
+    if (!isFinite(value) || isNaN(start.getTime()) || isNaN(end.getTime())) { skipped++; return; }
+
+    if (kind === 'SLEEP') {
+      if (AWAKE_STAGES.includes(value)) return;
+      samples.push({ kind, date: toLocalDate(end), value: (end.getTime() - start.getTime()) / HOUR_MS, source });
+      return;
+    }
+    samples.push({ kind, date: toLocalDate(start), value, source });
+  });
+
+  return { samples, skipped };
+};
+
+const recordType = (item: JsonObject) =>
+  String(item.recordType ?? item.type ?? '').replace(/Record$/, '');
+
+const parseHealthConnect = (json: unknown): { samples: Sample[]; skipped: number } => {
+  const samples: Sample[] = [];
+  let skipped = 0;
+
+  collect(json, item => !!HEALTH_CONNECT_TYPES[recordType(item)]).forEach(record => {
+    const kind = HEALTH_CONNECT_TYPES[recordType(record)];
+    const source = nonEmptyString(field(field(record.metadata, 'dataOrigin'), 'packageName'))
+      ?? nonEmptyString(record.dataOrigin) ?? 'Health Connect';
+    const start = toDate(record.startTime ?? record.time);
+    const end = toDate(record.endTime ?? record.time);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) { skipped++; return; }
+
+    if (kind === 'SLEEP') {
+      const stages = Array.isArray(record.stages) ? record.stages.filter(isObject) : [];
+      const asleepMs = stages.length > 0
+        ? stages
+            .filter(s => !AWAKE_STAGES.includes(Number(s.stage)))
+            .reduce((sum, s) => sum + (toDate(s.endTime).getTime() - toDate(s.startTime).getTime() || 0), 0)
+        : end.getTime() - start.getTime();
+      samples.push({ kind, date: toLocalDate(end), value: asleepMs / HOUR_MS, source, inBed: stages.length === 0 });
+      return;
+    }
+
+    const value = Number(
+      kind === 'STEPS' ? record.count
+      : kind === 'RESTING_HR' ? record.beatsPerMinute
+      : field(record.percentage, 'value') ?? record.percentage
+    );
+    if (!isFinite(value)) { skipped++; return; }
+    samples.push({ kind, date: toLocalDate(start), value, source });
+  });
+
+  return { samples, skipped };
+};
+
+// --- CSV ---
+
+type CsvColumn = SampleKind | 'DATE' | 'SLEEP_MS' | 'SLEEP_MINUTES';
+
+// Keys are headers lower-cased with punctuation collapsed to "_"
+const CSV_COLUMNS: Record<string, CsvColumn> = {
+  date: 'DATE',
+  day: 'DATE',
+  steps: 'STEPS',
+  step_count: 'STEPS',
+  sleep: 'SLEEP',
+  sleep_hours: 'SLEEP',
+  sleep_h: 'SLEEP',
+  sleep_minutes: 'SLEEP_MINUTES',
+  sleep_duration_ms: 'SLEEP_MS',
+  resting_hr: 'RESTING_HR',
+  resting_heart_rate: 'RESTING_HR',
+  resting_heart_rate_bpm: 'RESTING_HR',
+  spo2: 'SPO2',
+  oxygen_saturation: 'SPO2'
+};
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+/**
+ * One row per day with a date column and any of steps, sleep, resting heart
+ * rate and SpO2. Unknown columns are ignored.
+ */
+const parseCsv = (text: string): { samples: Sample[]; skipped: number } => {
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+  const columns = splitCsvLine(header ?? '').map(h => CSV_COLUMNS[normalizeHeader(h)]);
+  const dateColumn = columns.indexOf('DATE');
+  if (dateColumn < 0) throw new Error('CSV needs a "date" column');
+  if (!columns.some(c => c && c !== 'DATE')) throw new Error('CSV has no steps, sleep, resting_hr or spo2 column');
+
+  const samples: Sample[] = [];
+  let skipped = 0;
+
+  rows.forEach(line => {
+    const cells = splitCsvLine(line);
+    const date = cells[dateColumn]?.match(DATE_PATTERN)?.[0];
+    if (!date) { skipped++; return; }
+
+    columns.forEach((column, i) => {
+      if (!column || column === 'DATE' || cells[i] === undefined || cells[i] === '') return;
+      const value = Number(cells[i]);
+      if (!isFinite(value)) { skipped++; return; }
+
+      if (column === 'SLEEP_MS') samples.push({ kind: 'SLEEP', date, value: value / HOUR_MS, source: 'csv' });
+      else if (column === 'SLEEP_MINUTES') samples.push({ kind: 'SLEEP', date, value: value / 60, source: 'csv' });
+      else samples.push({ kind: column, date, value, source: 'csv' });
+    });
+  });
+
+  return { samples, skipped };
+};
+
+// --- Aggregation ---
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(key(item), [...(groups.get(key(item)) ?? []), item]));
+  return groups;
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const mean = (values: number[]) => sum(values) / values.length;
+
+/**
+ * Per-source daily total, then the largest source: summing phone and watch
+ * would count the same steps (or the same night) twice. Time in bed only
+ * counts as sleep when no source recorded time asleep.
+ */
+const dailyTotal = (samples: Sample[]): number => {
+  const asleep = samples.filter(s => !s.inBed);
+  const counted = asleep.length > 0 ? asleep : samples;
+  return Math.max(...Array.from(groupBy(counted, s => s.source).values()).map(fromSource => sum(fromSource.map(s => s.value))));
+};
+
+/**
+ * Noon on the day, so a daily aggregate never drifts onto a neighbouring day
+ * when shown in another timezone.
+ */
+const dailyTimestamp = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d, 12).toISOString();
+};
+
+const aggregate = (samples: Sample[], format: WearableFormat): { days: WearableDay[]; vitals: VitalSign[] } => {
+  const days: WearableDay[] = [];
+  const vitals: VitalSign[] = [];
+
+  Array.from(groupBy(samples, s => s.date).entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, onDay]) => {
+      const steps = onDay.filter(s => s.kind === 'STEPS');
+      const sleep = onDay.filter(s => s.kind === 'SLEEP');
+      const restingHr = onDay.filter(s => s.kind === 'RESTING_HR');
+      const spo2 = onDay.filter(s => s.kind === 'SPO2');
+
+      if (steps.length > 0 || sleep.length > 0) {
+        days.push({
+          date,
+          steps: steps.length > 0 ? Math.round(dailyTotal(steps)) : undefined,
+          sleepHours: sleep.length > 0 ? Math.round(dailyTotal(sleep) * 10) / 10 : undefined,
+          source: FORMAT_LABELS[format]
+        });
+      }
+      if (restingHr.length > 0) {
+        vitals.push({ type: 'HEART_RATE', value: Math.round(mean(restingHr.map(s => s.value))), unit: 'bpm', timestamp: dailyTimestamp(date) });
+      }
+      if (spo2.length > 0) {
+        vitals.push({ type: 'SPO2', value: Math.round(mean(spo2.map(s => s.value))), unit: '%', timestamp: dailyTimestamp(date) });
+      }
+    });
+
+  return { days, vitals };
+};
+
+// --- Import ---
+
+export const detectFormat = (fileName: string, text: string): WearableFormat => {
+  const head = text.slice(0, 4096).trimStart();
+  if (head.startsWith('<')) {
+    if (head.includes('<HealthData')) return 'APPLE_HEALTH';
+    throw new Error('Unrecognised XML file; expected an Apple Health export.xml');
+  }
+  if (head.startsWith('{') || head.startsWith('[')) {
+    return /dataTypeName|Data Points/.test(head) ? 'GOOGLE_FIT' : 'HEALTH_CONNECT';
+  }
+  if (/\.csv$/i.test(fileName) || head.includes(',')) {
+    const header = normalizeHeader(head.split(/\r?\n/)[0]);
+    return header.includes('move_minutes_count') ? 'GOOGLE_FIT' : 'CSV';
+  }
+  throw new Error('Unsupported file; expected Apple Health XML, Google Fit or Health Connect JSON, or CSV');
+};
+
+/**
+ * Parses an export file into daily aggregates. Throws when the file is not a
+ * supported format or holds no steps, sleep, resting heart rate or SpO2.
+ */
+export const importWearableExport = (fileName: string, text: string): WearableImport => {
+  const format = detectFormat(fileName, text);
+  const isJson = /^\s*[{[]/.test(text);
+
+  let parsed: { samples: Sample[]; skipped: number };
+  if (format === 'APPLE_HEALTH') {
+    parsed = parseAppleHealth(text);
+  } else if (isJson) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    parsed = format === 'GOOGLE_FIT' ? parseGoogleFit(json) : parseHealthConnect(json);
+  } else {
+    parsed = parseCsv(text);
+  }
+
+  if (parsed.samples.length === 0) {
+    throw new Error(`No steps, sleep, resting heart rate or SpO2 found in this ${FORMAT_LABELS[format]} file`);
+  }
+  return { format, ...aggregate(parsed.samples, format), skipped: parsed.skipped };
+};
+
+// --- Merging and ranges ---
+
+/**
+ * Imported days replace the stored values they carry; a day imported with
+ * only steps keeps its existing sleep.
+ */
+export const mergeWearableDays = (existing: WearableDay[], incoming: WearableDay[]): WearableDay[] => {
+  const byDate = new Map(existing.map(day => [day.date, day]));
+  incoming.forEach(day => {
+    const current = byDate.get(day.date);
+    byDate.set(day.date, {
+      ...current,
+      ...day,
+      steps: day.steps ?? current?.steps,
+      sleepHours: day.sleepHours ?? current?.sleepHours
+    });
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Imported daily vitals not already in the history, so re-importing the same
+ * export adds nothing.
+ */
+export const newDailyVitals = (existing: VitalSign[], incoming: VitalSign[]): VitalSign[] =>
+  incoming.filter(v => !existing.some(e => e.type === v.type && new Date(e.timestamp).getTime() === new Date(v.timestamp).getTime()));
+
+/**
+ * Days from `from` to `to` inclusive (YYYY-MM-DD); either bound may be open.
+ */
+export const wearableDaysInRange = (days: WearableDay[], from?: string, to?: string): WearableDay[] =>
+  days.filter(day => (!from || day.date >= from) && (!to || day.date <= to));
+
+/**
+ * First day of a window of `days` days ending today.
+ */
+export const rangeStart = (days: number, now: Date = new Date()): string =>
+  toLocalDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1));
@@ -0,0 +1,30 @@
+import { Patient, RiskLevel } from '../types';
+
+/**
+ * `minutes` after 08:00 UTC on 2024-06-15, the fixed clock unit tests share.
+ */
+export const at = (minutes: number) => new Date(Date.UTC(2024, 5, 15, 8, minutes));
+
+/**
+ * A complete Patient with empty histories, for unit tests. Overrides replace
+ * whole fields, so tests only spell out what they exercise.
+ */
+export const makePatient = (overrides: Partial<Patient> = {}): Patient => ({
+  id: 'P-1',
+  name: 'Test Patient',
+  age: 60,
+  assignedDoctorId: 'D-1',
+  condition: [],
+  lastInteraction: at(0).toISOString(),
+  riskStatus: RiskLevel.LOW,
+  vitalsHistory: [],
+  messages: [],
+  insightHistory: [],
+  isFlagged: false,
+  replyDrafts: [],
+  medications: [],
+  doses: [],
+  wearableHistory: [],
+  foodLogs: [],
+  ...overrides
+});
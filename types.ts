@@ -16,12 +16,42 @@ export interface User {
 }
 
 export interface VitalSign {
+  /** Client-generated id the server keeps, so a retried write stores the reading once. */
+  id?: string;
   type: 'BP_SYSTOLIC' | 'BP_DIASTOLIC' | 'GLUCOSE' | 'SPO2' | 'HEART_RATE' | 'WEIGHT' | 'TEMP' | 'URINE_OUTPUT';
   value: number;
   unit: string;
   timestamp: string;
 }
 
+export interface VitalTarget {
+  min?: number;
+  max?: number;
+}
+
+export interface MeasurementFrequency {
+  /** Readings expected per period, e.g. 2 per DAY. */
+  times: number;
+  period: 'DAY' | 'WEEK';
+}
+
+export interface CareGoals {
+  dailySteps?: number;
+  sleepHours?: number;
+}
+
+/**
+ * Per-patient targets set by the doctor. Vitals without a target are shown
+ * without on/off-target colouring.
+ */
+export interface CarePlan {
+  targets: Partial<Record<VitalSign['type'], VitalTarget>>;
+  frequency: Partial<Record<VitalSign['type'], MeasurementFrequency>>;
+  goals: CareGoals;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
 export interface ClinicalInsight {
   summary: string;
   riskLevel: RiskLevel;
@@ -32,38 +62,177 @@ export interface ClinicalInsight {
   clinicalActionSuggestion: string;
 }
 
+/**
+ * A ClinicalInsight as produced at a point in time, linked to the message
+ * that triggered the analysis.
+ */
+export interface InsightRecord extends ClinicalInsight {
+  id: string;
+  messageId?: string;
+  timestamp: string;
+}
+
+export type FlagStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export interface FlagNote {
+  author: string;
+  timestamp: string;
+  text: string;
+}
+
+/**
+ * Record of an unacknowledged flag that breached its acknowledgement SLA.
+ */
+export interface FlagEscalation {
+  timestamp: string;
+  slaMinutes: number;
+  minutesOpen: number;
+}
+
+export interface PatientFlag {
+  id: string;
+  status: FlagStatus;
+  riskLevel: RiskLevel;
+  raisedAt: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  assignedTo?: string;
+  notes: FlagNote[];
+  escalations: FlagEscalation[];
+}
+
+export type DraftStatus = 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED';
+
+/**
+ * AI reply held for clinician review. Doubles as the audit record: the
+ * original AI text is never modified, the sent text is kept separately.
+ */
+export interface ReplyDraft {
+  id: string;
+  /** Patient message that triggered the reply. */
+  messageId?: string;
+  /** Channel the reply is delivered on once approved. */
+  channel: 'APP' | 'WHATSAPP';
+  status: DraftStatus;
+  /** Why the policy held the reply. */
+  reason: string;
+  riskLevel: RiskLevel;
+  confidenceScore: number;
+  originalText: string;
+  /** Text actually sent; set on approval. */
+  finalText?: string;
+  language?: string;
+  /** English translation of `originalText` for non-English replies. */
+  translation?: string;
+  createdAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  reviewNote?: string;
+}
+
+export type SyncStatus = 'PENDING' | 'FAILED' | 'SENT';
+
 export interface Message {
   id: string;
   sender: 'PATIENT' | 'SYSTEM' | 'DOCTOR';
   content: string;
   fileName?: string;
+  /** Text sent with an IMAGE, DOCUMENT or AUDIO message, e.g. a WhatsApp caption. */
+  caption?: string;
   timestamp: string;
   type: 'TEXT' | 'IMAGE' | 'AUDIO' | 'DOCUMENT';
+  /** Transcript of an AUDIO message, produced by the triage provider. */
+  transcript?: string;
+  /** BCP-47 code of the language the message was written in. */
+  language?: string;
+  /** English translation for the clinician view; absent for English messages. */
+  translation?: string;
+  /** Outbound persistence state; absent for messages loaded from the server. */
+  syncStatus?: SyncStatus;
+  /** When the server stored the message; absent while it is queued locally. */
+  deliveredAt?: string;
+  /** When the recipient opened the conversation. */
+  readAt?: string;
+  /** Set on automated SYSTEM messages, e.g. missed-reading check-ins. */
+  kind?: 'CHECK_IN';
+  /** WhatsApp message id (`wamid.…`) of a message received on WhatsApp; unique per row. */
+  whatsappMessageId?: string;
+}
+
+/**
+ * A prescription entered by the doctor. Doses are due daily at each of
+ * `times` (local HH:MM) between `startDate` and `endDate`, but never before
+ * `prescribedAt` or after `stoppedAt`.
+ */
+export interface Medication {
+  id: string;
+  name: string;
+  /** Free-text strength and amount, e.g. "500 mg, 1 tablet". */
+  dosage: string;
+  times: string[];
+  instructions?: string;
+  startDate: string;
+  endDate?: string;
+  prescribedBy: string;
+  prescribedAt: string;
+  /** Instant the doctor stopped the medication; `endDate` is its calendar day. */
+  stoppedAt?: string;
+  active: boolean;
+}
+
+export type DoseStatus = 'TAKEN' | 'SKIPPED';
+
+/**
+ * Patient's answer to a scheduled dose. Scheduled doses with no Dose
+ * record once their window has passed count as missed.
+ */
+export interface Dose {
+  id: string;
+  medicationId: string;
+  scheduledFor: string;
+  status: DoseStatus;
+  recordedAt: string;
 }
 
 export interface WearableDay {
-  day: string;
-  steps: number;
-  sleepHours: number;
+  /** Local calendar date, YYYY-MM-DD. */
+  date: string;
+  steps?: number;
+  sleepHours?: number;
+  /** Export the day was imported from, e.g. "Apple Health". */
+  source?: string;
+}
+
+export type FoodFlag = 'Balanced' | 'High Carb' | 'Low Protein' | 'High Sodium' | 'High Sugar' | 'High Fat' | 'Low Fiber';
+
+export const FOOD_FLAGS: FoodFlag[] = ['Balanced', 'High Carb', 'Low Protein', 'High Sodium', 'High Sugar', 'High Fat', 'Low Fiber'];
+
+export interface FoodAnalysis {
+  mealType: string;
+  caloriesEstimate: number;
+  carbs: string;
+  protein: string;
+  flag: FoodFlag;
 }
 
 export interface FoodEntry {
   id: string;
   imageUrl: string;
   timestamp: string;
-  analysis: {
-    mealType: string;
-    caloriesEstimate: number;
-    carbs: string;
-    protein: string;
-    flag: 'Balanced' | 'High Carb' | 'Low Protein';
-  };
+  /** Missing when the active provider cannot estimate nutrition (offline). */
+  analysis?: FoodAnalysis;
 }
 
 export interface Patient {
   id: string;
   name: string;
   age: number;
+  /** E.164 number the patient messages from on WhatsApp. */
+  phoneNumber?: string;
+  /** BCP-47 code of the language replies are written in when a message does not make it clear. */
+  preferredLanguage?: string;
   assignedDoctorId: string;
   condition: string[];
   lastInteraction: string;
@@ -71,7 +240,13 @@ export interface Patient {
   vitalsHistory: VitalSign[];
   messages: Message[];
   latestInsight?: ClinicalInsight;
+  insightHistory: InsightRecord[];
   isFlagged: boolean;
+  activeFlag?: PatientFlag;
+  replyDrafts: ReplyDraft[];
+  carePlan?: CarePlan;
+  medications: Medication[];
+  doses: Dose[];
   wearableHistory: WearableDay[];
   foodLogs: FoodEntry[];
 }
\ No newline at end of file
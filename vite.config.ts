@@ -12,7 +12,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TRIAGE_PROVIDER': JSON.stringify(env.TRIAGE_PROVIDER || ''),
+        'process.env.AUTH_MODE': JSON.stringify(env.AUTH_MODE || ''),
+        'process.env.DEMO_MODE': JSON.stringify(env.DEMO_MODE || ''),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
+        // Only the Node ingestion server may use the service role key; never bundle it
+        'process.env.SUPABASE_SERVICE_ROLE_KEY': JSON.stringify('')
       },
       resolve: {
         alias: {
@@ -0,0 +1,18 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Demo fixtures and schedules use local time; pin it so expectations hold on any machine
+process.env.TZ = 'UTC';
+
+export default defineConfig({
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**'],
+    environment: 'node'
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});